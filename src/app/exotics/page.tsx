@@ -0,0 +1,403 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import Slider from "@/components/Slider";
+import KaTeX from "@/components/KaTeX";
+import PlotlyChart from "@/components/PlotlyChart";
+import { blackScholes } from "@/lib/black-scholes";
+import {
+  floatingLookback,
+  fixedLookback,
+  chooserOption,
+  compoundOption,
+  compoundCriticalSpot,
+  type CompoundType,
+} from "@/lib/exotics";
+
+const compoundTypes: { id: CompoundType; label: string }[] = [
+  { id: "call-on-call", label: "Call on Call" },
+  { id: "put-on-call", label: "Put on Call" },
+  { id: "call-on-put", label: "Call on Put" },
+  { id: "put-on-put", label: "Put on Put" },
+];
+
+export default function ExoticsPage() {
+  const [S, setS] = useState(100);
+  const [K, setK] = useState(100);
+  const [T, setT] = useState(1);
+  const [r, setR] = useState(0.05);
+  const [sigma, setSigma] = useState(0.25);
+  const [q, setQ] = useState(0);
+  const [optionType, setOptionType] = useState<"call" | "put">("call");
+  const [runningMin, setRunningMin] = useState(100);
+  const [runningMax, setRunningMax] = useState(100);
+  const [chooseTime, setChooseTime] = useState(0.5);
+  const [compoundType, setCompoundType] = useState<CompoundType>("call-on-call");
+  const [T1, setT1] = useState(0.25);
+  const [K1, setK1] = useState(8);
+
+  // Keep the choice and compound expiry inside the option's life
+  const t1Choose = Math.min(chooseTime, T);
+  const t1Compound = Math.min(T1, T - 0.01);
+  const underlyingType = compoundType.endsWith("call") ? "call" : "put";
+
+  const market = useMemo(() => ({ S, K, T, r, sigma, q }), [S, K, T, r, sigma, q]);
+
+  const current = useMemo(() => {
+    const lookbackInputs = {
+      ...market,
+      runningMin: Math.min(runningMin, S),
+      runningMax: Math.max(runningMax, S),
+    };
+    const compoundInputs = { ...market, T1: t1Compound, K1 };
+    const vanilla = blackScholes(market);
+    return {
+      floating: floatingLookback(lookbackInputs, optionType),
+      fixed: fixedLookback(lookbackInputs, optionType),
+      vanilla: optionType === "call" ? vanilla.callPrice : vanilla.putPrice,
+      chooser: chooserOption({ ...market, chooseTime: t1Choose }),
+      straddle: vanilla.callPrice + vanilla.putPrice,
+      compound: compoundOption(compoundInputs, compoundType),
+      critical: compoundCriticalSpot(compoundInputs, underlyingType),
+      underlying: underlyingType === "call" ? vanilla.callPrice : vanilla.putPrice,
+    };
+  }, [market, S, runningMin, runningMax, optionType, t1Choose, t1Compound, K1, compoundType, underlyingType]);
+
+  // Lookbacks against spot, with the running extremes held fixed
+  const lookbackCurve = useMemo(() => {
+    const spots: number[] = [];
+    const floating: number[] = [];
+    const fixed: number[] = [];
+    const vanilla: number[] = [];
+    for (let i = 0; i <= 100; i++) {
+      const spot = K * (0.6 + (i / 100) * 0.8);
+      const inputs = { ...market, S: spot, runningMin, runningMax };
+      const bs = blackScholes(inputs);
+      spots.push(spot);
+      floating.push(floatingLookback(inputs, optionType));
+      fixed.push(fixedLookback(inputs, optionType));
+      vanilla.push(optionType === "call" ? bs.callPrice : bs.putPrice);
+    }
+    return { spots, floating, fixed, vanilla };
+  }, [market, K, runningMin, runningMax, optionType]);
+
+  const chooserCurve = useMemo(() => {
+    const times: number[] = [];
+    const values: number[] = [];
+    for (let i = 0; i <= 60; i++) {
+      const t = (i / 60) * T;
+      times.push(t);
+      values.push(chooserOption({ ...market, chooseTime: t }));
+    }
+    return { times, values };
+  }, [market, T]);
+
+  const compoundCurve = useMemo(() => {
+    const spots: number[] = [];
+    const compound: number[] = [];
+    const underlying: number[] = [];
+    for (let i = 0; i <= 100; i++) {
+      const spot = K * (0.6 + (i / 100) * 0.8);
+      const inputs = { ...market, S: spot, T1: t1Compound, K1 };
+      const bs = blackScholes(inputs);
+      spots.push(spot);
+      compound.push(compoundOption(inputs, compoundType));
+      underlying.push(underlyingType === "call" ? bs.callPrice : bs.putPrice);
+    }
+    return { spots, compound, underlying };
+  }, [market, K, t1Compound, K1, compoundType, underlyingType]);
+
+  const vanilla = blackScholes(market);
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 py-8">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-zinc-100 mb-2">
+          Lookback, Chooser &amp; Compound Options
+        </h1>
+        <p className="text-sm text-zinc-400">
+          Closed-form prices for three classic exotics: lookbacks on the
+          running extreme of the path, Rubinstein&apos;s simple chooser and
+          Geske&apos;s option on an option.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Controls */}
+        <div className="lg:col-span-1 space-y-4">
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-4">
+            <h2 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+              Parameters
+            </h2>
+            <Slider label="Spot (S)" value={S} min={1} max={300} step={1} onChange={setS} displayValue={`$${S}`} />
+            <Slider label="Strike (K)" value={K} min={1} max={300} step={1} onChange={setK} displayValue={`$${K}`} />
+            <Slider label="Time (T)" value={T} min={0.1} max={3} step={0.05} onChange={setT} unit=" yr" />
+            <Slider label="Rate (r)" value={r} min={0} max={0.15} step={0.005} onChange={setR} displayValue={`${(r * 100).toFixed(1)}%`} />
+            <Slider label="Vol (σ)" value={sigma} min={0.05} max={1.0} step={0.01} onChange={setSigma} displayValue={`${(sigma * 100).toFixed(0)}%`} />
+            <Slider label="Div Yield (q)" value={q} min={0} max={0.1} step={0.005} onChange={setQ} displayValue={`${(q * 100).toFixed(1)}%`} />
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-4">
+            <h2 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+              Lookback
+            </h2>
+            <div className="flex gap-2">
+              {(["call", "put"] as const).map((t) => (
+                <button
+                  key={t}
+                  onClick={() => setOptionType(t)}
+                  className={`flex-1 py-1.5 rounded-md text-xs font-medium capitalize ${
+                    optionType === t
+                      ? t === "call"
+                        ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+                        : "bg-rose-500/15 text-rose-400 border border-rose-500/30"
+                      : "bg-zinc-800/50 text-zinc-400 border border-zinc-800"
+                  }`}
+                >
+                  {t}
+                </button>
+              ))}
+            </div>
+            <Slider label="Running Min" value={runningMin} min={1} max={300} step={1} onChange={setRunningMin} displayValue={`$${Math.min(runningMin, S)}`} />
+            <Slider label="Running Max" value={runningMax} min={1} max={300} step={1} onChange={setRunningMax} displayValue={`$${Math.max(runningMax, S)}`} />
+            <p className="text-[11px] text-zinc-500 leading-relaxed">
+              Extremes observed so far; values on the wrong side of spot are
+              taken as spot.
+            </p>
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-4">
+            <h2 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+              Chooser
+            </h2>
+            <Slider label="Choice Time (t₁)" value={t1Choose} min={0} max={T} step={0.01} onChange={setChooseTime} unit=" yr" />
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-4">
+            <h2 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+              Compound
+            </h2>
+            <div className="grid grid-cols-2 gap-1.5">
+              {compoundTypes.map(({ id, label }) => (
+                <button
+                  key={id}
+                  onClick={() => setCompoundType(id)}
+                  className={`py-1.5 rounded-md text-[11px] font-medium ${
+                    compoundType === id
+                      ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+                      : "bg-zinc-800/50 text-zinc-400 border border-zinc-800"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <Slider label="Compound Expiry (T₁)" value={t1Compound} min={0.01} max={T - 0.01} step={0.01} onChange={setT1} unit=" yr" />
+            <Slider label="Compound Strike (K₁)" value={K1} min={0.5} max={50} step={0.5} onChange={setK1} displayValue={`$${K1.toFixed(2)}`} />
+          </div>
+        </div>
+
+        {/* Results and charts */}
+        <div className="lg:col-span-3 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {[
+              {
+                title: "Lookback",
+                rows: [
+                  { label: `Floating ${optionType}`, value: current.floating },
+                  { label: `Fixed ${optionType}`, value: current.fixed },
+                  { label: `Vanilla ${optionType}`, value: current.vanilla },
+                ],
+              },
+              {
+                title: "Chooser",
+                rows: [
+                  { label: `Chooser (t₁ = ${t1Choose.toFixed(2)})`, value: current.chooser },
+                  { label: "max(Call, Put)", value: Math.max(vanilla.callPrice, vanilla.putPrice) },
+                  { label: "Straddle", value: current.straddle },
+                ],
+              },
+              {
+                title: "Compound",
+                rows: [
+                  { label: compoundTypes.find((c) => c.id === compoundType)?.label ?? "", value: current.compound },
+                  { label: `Underlying ${underlyingType}`, value: current.underlying },
+                  { label: "Critical spot", value: current.critical },
+                ],
+              },
+            ].map(({ title, rows }) => (
+              <div key={title} className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-2">
+                <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+                  {title}
+                </h3>
+                {rows.map(({ label, value }) => (
+                  <div key={label} className="flex justify-between items-center">
+                    <span className="text-xs text-zinc-400 capitalize">{label}</span>
+                    <span className="font-mono text-sm text-zinc-200">
+                      {Number.isFinite(value) ? `$${value.toFixed(4)}` : "—"}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4">
+            <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-2">
+              Lookback Price vs Spot
+            </h3>
+            <div className="h-[320px]">
+              <PlotlyChart
+                data={[
+                  {
+                    x: lookbackCurve.spots,
+                    y: lookbackCurve.floating,
+                    type: "scatter",
+                    mode: "lines",
+                    name: `Floating ${optionType}`,
+                    line: { color: "#34d399", width: 2.5 },
+                  },
+                  {
+                    x: lookbackCurve.spots,
+                    y: lookbackCurve.fixed,
+                    type: "scatter",
+                    mode: "lines",
+                    name: `Fixed ${optionType}`,
+                    line: { color: "#8b5cf6", width: 2 },
+                  },
+                  {
+                    x: lookbackCurve.spots,
+                    y: lookbackCurve.vanilla,
+                    type: "scatter",
+                    mode: "lines",
+                    name: `Vanilla ${optionType}`,
+                    line: { color: "#a1a1aa", width: 1.5, dash: "dash" },
+                  },
+                ]}
+                layout={{
+                  xaxis: { title: "Spot Price ($)" },
+                  yaxis: { title: "Price ($)" },
+                  showlegend: true,
+                  legend: { x: 0.01, y: 0.99, bgcolor: "transparent", font: { size: 10 } },
+                }}
+              />
+            </div>
+            <p className="text-xs text-zinc-500 mt-2 leading-relaxed">
+              Continuous monitoring, with the running minimum and maximum held
+              at the values on the left. A fixed-strike lookback is never worth
+              less than the vanilla with the same strike.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4">
+              <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-2">
+                Chooser Value vs Choice Time
+              </h3>
+              <div className="h-[300px]">
+                <PlotlyChart
+                  data={[
+                    {
+                      x: chooserCurve.times,
+                      y: chooserCurve.values,
+                      type: "scatter",
+                      mode: "lines",
+                      name: "Chooser",
+                      line: { color: "#34d399", width: 2.5 },
+                    },
+                    {
+                      x: [0, T],
+                      y: [current.straddle, current.straddle],
+                      type: "scatter",
+                      mode: "lines",
+                      name: "Straddle",
+                      line: { color: "#a1a1aa", width: 1.5, dash: "dash" },
+                    },
+                    {
+                      x: [t1Choose],
+                      y: [current.chooser],
+                      type: "scatter",
+                      mode: "markers",
+                      name: "Selected t₁",
+                      marker: { color: "#f59e0b", size: 8, symbol: "diamond" },
+                    },
+                  ]}
+                  layout={{
+                    xaxis: { title: "Choice Time t₁ (yr)" },
+                    yaxis: { title: "Price ($)" },
+                    showlegend: true,
+                    legend: { x: 0.01, y: 0.01, yanchor: "bottom", bgcolor: "transparent", font: { size: 10 } },
+                  }}
+                />
+              </div>
+            </div>
+
+            <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4">
+              <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-2">
+                Compound Price vs Spot
+              </h3>
+              <div className="h-[300px]">
+                <PlotlyChart
+                  data={[
+                    {
+                      x: compoundCurve.spots,
+                      y: compoundCurve.compound,
+                      type: "scatter",
+                      mode: "lines",
+                      name: compoundTypes.find((c) => c.id === compoundType)?.label,
+                      line: { color: "#34d399", width: 2.5 },
+                    },
+                    {
+                      x: compoundCurve.spots,
+                      y: compoundCurve.underlying,
+                      type: "scatter",
+                      mode: "lines",
+                      name: `Underlying ${underlyingType}`,
+                      line: { color: "#a1a1aa", width: 1.5, dash: "dash" },
+                    },
+                    ...(Number.isFinite(current.critical)
+                      ? [
+                          {
+                            x: [current.critical, current.critical],
+                            y: [0, Math.max(...compoundCurve.underlying, ...compoundCurve.compound)],
+                            type: "scatter" as const,
+                            mode: "lines" as const,
+                            name: "Critical spot",
+                            line: { color: "#f59e0b", width: 1, dash: "dot" as const },
+                          },
+                        ]
+                      : []),
+                  ]}
+                  layout={{
+                    xaxis: { title: "Spot Price ($)" },
+                    yaxis: { title: "Price ($)" },
+                    showlegend: true,
+                    legend: { x: 0.01, y: 0.99, bgcolor: "transparent", font: { size: 10 } },
+                  }}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-3">
+            <div className="overflow-x-auto">
+              <KaTeX
+                math="C_{\text{call on call}} = S e^{(b-r)T} M(z_1, y_1; \sqrt{T_1/T}) - K e^{-rT} M(z_2, y_2; \sqrt{T_1/T}) - K_1 e^{-rT_1} N(y_2)"
+                display
+                className="text-zinc-300"
+              />
+            </div>
+            <p className="text-xs text-zinc-500 leading-relaxed">
+              The compound is exercised at T₁ when the underlying option is
+              worth more than K₁, i.e. when spot is beyond the critical level
+              where Black-Scholes gives exactly K₁. The joint event of that and
+              the underlying finishing in the money brings in the bivariate
+              normal M, with correlation √(T₁/T) between the log-returns to T₁
+              and to T.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
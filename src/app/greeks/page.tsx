@@ -4,16 +4,40 @@ import { useState, useMemo } from "react";
 import Slider from "@/components/Slider";
 import KaTeX from "@/components/KaTeX";
 import PlotlyChart from "@/components/PlotlyChart";
+import UnderlyingToggle from "@/components/UnderlyingToggle";
+import BarrierToggle from "@/components/BarrierToggle";
 import {
   delta,
   gamma,
   theta,
   vega,
   rho,
+  psi,
+  extendedGreeks,
+  black76Greeks,
   type BSInputs,
+  type ExtendedGreeks,
+  type Greeks,
+  type Underlying,
 } from "@/lib/black-scholes";
+import { barrierGreeks, type BarrierType } from "@/lib/barrier";
 
-type GreekName = "delta" | "gamma" | "theta" | "vega" | "rho";
+type GreekName = keyof ExtendedGreeks;
+
+const firstOrder: GreekName[] = ["delta", "gamma", "theta", "vega", "rho", "psi"];
+
+function isFirstOrder(name: GreekName): name is keyof Greeks {
+  return firstOrder.includes(name);
+}
+
+/** "dualDelta" -> "dual Delta", shown capitalized */
+function greekLabel(name: GreekName): string {
+  return name.replace(/([A-Z])/g, " $1");
+}
+
+function extended(name: Exclude<GreekName, keyof Greeks>) {
+  return (inputs: BSInputs, type: "call" | "put") => extendedGreeks(inputs, type)[name];
+}
 
 interface GreekInfo {
   name: GreekName;
@@ -72,6 +96,120 @@ const greeks: GreekInfo[] = [
     fn: rho,
     color: "#06b6d4",
   },
+  {
+    name: "psi",
+    symbol: "\\psi",
+    formula:
+      "\\psi_{\\text{call}} = -STe^{-qT}N(d_1), \\quad \\psi_{\\text{put}} = STe^{-qT}N(-d_1)",
+    description:
+      "Sensitivity to the dividend yield. Change in option price per 1% change in the continuous yield q.",
+    fn: psi,
+    color: "#ec4899",
+  },
+  {
+    name: "vanna",
+    symbol: "\\text{Vanna}",
+    formula: "\\text{Vanna} = \\frac{\\partial \\Delta}{\\partial \\sigma} = -e^{-qT}\\phi(d_1)\\frac{d_2}{\\sigma}",
+    description:
+      "Change in delta per 1% change in volatility, equivalently the change in vega per $1 move in spot. Drives the delta re-hedge after a vol move.",
+    fn: extended("vanna"),
+    color: "#34d399",
+  },
+  {
+    name: "volga",
+    symbol: "\\text{Volga}",
+    formula: "\\text{Volga} = \\frac{\\partial \\mathcal{V}}{\\partial \\sigma} = \\mathcal{V}\\frac{d_1 d_2}{\\sigma}",
+    description:
+      "Vomma: change in vega (per 1%) per 1% change in volatility. Positive away from the money, where long options gain vega as vol rises.",
+    fn: extended("volga"),
+    color: "#8b5cf6",
+  },
+  {
+    name: "charm",
+    symbol: "\\text{Charm}",
+    formula:
+      "\\text{Charm}_{\\text{call}} = qe^{-qT}N(d_1) - e^{-qT}\\phi(d_1)\\left(\\frac{r - q}{\\sigma\\sqrt{T}} - \\frac{d_2}{2T}\\right)",
+    description:
+      "Delta decay: change in delta per calendar day with spot and vol unchanged. Tells a hedger how much delta drifts overnight.",
+    fn: extended("charm"),
+    color: "#f43f5e",
+  },
+  {
+    name: "speed",
+    symbol: "\\text{Speed}",
+    formula: "\\text{Speed} = \\frac{\\partial \\Gamma}{\\partial S} = -\\frac{\\Gamma}{S}\\left(\\frac{d_1}{\\sigma\\sqrt{T}} + 1\\right)",
+    description:
+      "Change in gamma per $1 move in the underlying. Shows how quickly gamma exposure shifts as spot moves.",
+    fn: extended("speed"),
+    color: "#f59e0b",
+  },
+  {
+    name: "color",
+    symbol: "\\text{Color}",
+    formula:
+      "\\text{Color} = \\Gamma\\left[q + \\frac{1}{2T} + d_1\\left(\\frac{r - q}{\\sigma\\sqrt{T}} - \\frac{d_2}{2T}\\right)\\right]",
+    description:
+      "Gamma decay: change in gamma per calendar day. At-the-money gamma grows into expiry while out-of-the-money gamma bleeds away.",
+    fn: extended("color"),
+    color: "#06b6d4",
+  },
+  {
+    name: "zomma",
+    symbol: "\\text{Zomma}",
+    formula: "\\text{Zomma} = \\frac{\\partial \\Gamma}{\\partial \\sigma} = \\Gamma\\frac{d_1 d_2 - 1}{\\sigma}",
+    description:
+      "Change in gamma per 1% change in volatility. Negative at the money, where higher vol spreads gamma out.",
+    fn: extended("zomma"),
+    color: "#ec4899",
+  },
+  {
+    name: "veta",
+    symbol: "\\text{Veta}",
+    formula:
+      "\\text{Veta} = \\mathcal{V}\\left[q - \\frac{1}{2T} + d_1\\left(\\frac{r - q}{\\sigma\\sqrt{T}} - \\frac{d_2}{2T}\\right)\\right]",
+    description:
+      "Vega decay: change in vega (per 1%) per calendar day with spot and vol unchanged.",
+    fn: extended("veta"),
+    color: "#a1a1aa",
+  },
+  {
+    name: "ultima",
+    symbol: "\\text{Ultima}",
+    formula:
+      "\\text{Ultima} = -\\frac{\\mathcal{V}}{\\sigma^2}\\left[d_1 d_2 (1 - d_1 d_2) + d_1^2 + d_2^2\\right]",
+    description:
+      "Change in volga per 1% change in volatility, the third-order vol sensitivity.",
+    fn: extended("ultima"),
+    color: "#8b5cf6",
+  },
+  {
+    name: "lambda",
+    symbol: "\\lambda",
+    formula: "\\lambda = \\Delta\\frac{S}{V}",
+    description:
+      "Elasticity: percentage change in option value per 1% move in the underlying. The leverage of the option.",
+    fn: extended("lambda"),
+    color: "#34d399",
+  },
+  {
+    name: "dualDelta",
+    symbol: "\\frac{\\partial V}{\\partial K}",
+    formula:
+      "\\frac{\\partial C}{\\partial K} = -e^{-rT}N(d_2), \\quad \\frac{\\partial P}{\\partial K} = e^{-rT}N(-d_2)",
+    description:
+      "Sensitivity to the strike. Minus the call's dual delta is the discounted risk-neutral probability of finishing in the money.",
+    fn: extended("dualDelta"),
+    color: "#f59e0b",
+  },
+  {
+    name: "dualGamma",
+    symbol: "\\frac{\\partial^2 V}{\\partial K^2}",
+    formula: "\\frac{\\partial^2 V}{\\partial K^2} = \\frac{e^{-rT}\\phi(d_2)}{K\\sigma\\sqrt{T}}",
+    description:
+      "Second strike derivative: the discounted risk-neutral density of the terminal price at K (Breeden-Litzenberger).",
+    fn: extended("dualGamma"),
+    color: "#06b6d4",
+  },
 ];
 
 export default function GreeksPage() {
@@ -80,23 +218,65 @@ export default function GreeksPage() {
   const [T, setT] = useState(0.5);
   const [r, setR] = useState(0.05);
   const [sigma, setSigma] = useState(0.2);
+  const [q, setQ] = useState(0);
   const [selectedGreek, setSelectedGreek] = useState<GreekName>("delta");
+  const [underlying, setUnderlying] = useState<Underlying>("spot");
+  const [barrierType, setBarrierType] = useState<BarrierType | null>(null);
+  const [barrier, setBarrier] = useState(90);
+  const [rebate, setRebate] = useState(0);
 
   const greek = greeks.find((g) => g.name === selectedGreek)!;
 
+  // In futures mode S is read as the futures price and Black-76 is used;
+  // higher-order Greeks come from Black-Scholes-Merton with q = r, which
+  // is Black-76 with the future in place of spot
+  const greekFn = useMemo(() => {
+    if (underlying !== "future") return greek.fn;
+    const name = greek.name;
+    if (isFirstOrder(name)) {
+      return (inputs: BSInputs, type: "call" | "put") =>
+        black76Greeks(
+          { F: inputs.S, K: inputs.K, T: inputs.T, r: inputs.r, sigma: inputs.sigma },
+          type
+        )[name];
+    }
+    return (inputs: BSInputs, type: "call" | "put") => greek.fn({ ...inputs, q: inputs.r }, type);
+  }, [underlying, greek]);
+
+  // Barrier Greeks by bump-and-revalue, first order only; on a future the
+  // carry is zero
+  const barrierFn = useMemo(() => {
+    const name = greek.name;
+    if (barrierType === null || !isFirstOrder(name)) return null;
+    const carry = underlying === "future" ? r : q;
+    return (inputs: BSInputs, type: "call" | "put") =>
+      barrierGreeks({ ...inputs, q: carry, H: barrier, rebate }, type, barrierType)[name];
+  }, [barrierType, barrier, rebate, underlying, r, q, greek]);
+
+  const selectBarrier = (type: BarrierType | null) => {
+    setBarrierType(type);
+    if (type !== null) setBarrier(Math.round(type.startsWith("down") ? S * 0.9 : S * 1.1));
+  };
+
   // Generate greek vs spot price curve
   const spotData = useMemo(() => {
     const spots: number[] = [];
     const callVals: number[] = [];
     const putVals: number[] = [];
+    const barrierCallVals: number[] = [];
+    const barrierPutVals: number[] = [];
     for (let s = Math.max(1, K * 0.5); s <= K * 1.5; s += 0.5) {
       spots.push(s);
-      const inputs: BSInputs = { S: s, K, T, r, sigma };
-      callVals.push(greek.fn(inputs, "call"));
-      putVals.push(greek.fn(inputs, "put"));
+      const inputs: BSInputs = { S: s, K, T, r, sigma, q };
+      callVals.push(greekFn(inputs, "call"));
+      putVals.push(greekFn(inputs, "put"));
+      if (barrierFn) {
+        barrierCallVals.push(barrierFn(inputs, "call"));
+        barrierPutVals.push(barrierFn(inputs, "put"));
+      }
     }
-    return { spots, callVals, putVals };
-  }, [K, T, r, sigma, greek]);
+    return { spots, callVals, putVals, barrierCallVals, barrierPutVals };
+  }, [K, T, r, sigma, q, greekFn, barrierFn]);
 
   // Generate greek vs time curve
   const timeData = useMemo(() => {
@@ -105,12 +285,12 @@ export default function GreeksPage() {
     const putVals: number[] = [];
     for (let t = 0.02; t <= 2; t += 0.02) {
       times.push(t);
-      const inputs: BSInputs = { S, K, T: t, r, sigma };
-      callVals.push(greek.fn(inputs, "call"));
-      putVals.push(greek.fn(inputs, "put"));
+      const inputs: BSInputs = { S, K, T: t, r, sigma, q };
+      callVals.push(greekFn(inputs, "call"));
+      putVals.push(greekFn(inputs, "put"));
     }
     return { times, callVals, putVals };
-  }, [S, K, r, sigma, greek]);
+  }, [S, K, r, sigma, q, greekFn]);
 
   // Generate greek vs volatility curve
   const volData = useMemo(() => {
@@ -119,16 +299,17 @@ export default function GreeksPage() {
     const putVals: number[] = [];
     for (let v = 0.02; v <= 1.0; v += 0.01) {
       vols.push(v);
-      const inputs: BSInputs = { S, K, T, r, sigma: v };
-      callVals.push(greek.fn(inputs, "call"));
-      putVals.push(greek.fn(inputs, "put"));
+      const inputs: BSInputs = { S, K, T, r, sigma: v, q };
+      callVals.push(greekFn(inputs, "call"));
+      putVals.push(greekFn(inputs, "put"));
     }
     return { vols, callVals, putVals };
-  }, [S, K, T, r, greek]);
+  }, [S, K, T, r, q, greekFn]);
 
-  const currentInputs: BSInputs = { S, K, T, r, sigma };
-  const currentCallVal = greek.fn(currentInputs, "call");
-  const currentPutVal = greek.fn(currentInputs, "put");
+  const currentInputs: BSInputs = { S, K, T, r, sigma, q };
+  const currentCallVal = greekFn(currentInputs, "call");
+  const currentPutVal = greekFn(currentInputs, "put");
+  const barrierLabel = barrierType?.replace(/-/g, " ");
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 py-8">
@@ -155,7 +336,7 @@ export default function GreeksPage() {
             }`}
           >
             <KaTeX math={g.symbol} className="mr-1.5" />
-            <span className="capitalize">{g.name}</span>
+            <span className="capitalize">{greekLabel(g.name)}</span>
           </button>
         ))}
       </div>
@@ -167,11 +348,31 @@ export default function GreeksPage() {
             <h2 className="text-sm font-semibold text-zinc-300 uppercase tracking-wider">
               Parameters
             </h2>
-            <Slider label="Spot (S)" value={S} min={1} max={300} step={0.5} onChange={setS} displayValue={`$${S.toFixed(2)}`} />
+            <UnderlyingToggle value={underlying} onChange={setUnderlying} />
+            <Slider label={underlying === "future" ? "Future (F)" : "Spot (S)"} value={S} min={1} max={300} step={0.5} onChange={setS} displayValue={`$${S.toFixed(2)}`} />
             <Slider label="Strike (K)" value={K} min={1} max={300} step={0.5} onChange={setK} displayValue={`$${K.toFixed(2)}`} />
             <Slider label="Time (T)" value={T} min={0.01} max={3} step={0.01} onChange={setT} unit=" yr" />
             <Slider label="Rate (r)" value={r} min={0} max={0.15} step={0.001} onChange={setR} displayValue={`${(r * 100).toFixed(1)}%`} />
             <Slider label="Vol (σ)" value={sigma} min={0.01} max={1.0} step={0.005} onChange={setSigma} displayValue={`${(sigma * 100).toFixed(1)}%`} />
+            {underlying === "spot" && (
+              <Slider label="Div Yield (q)" value={q} min={0} max={0.1} step={0.001} onChange={setQ} displayValue={`${(q * 100).toFixed(1)}%`} />
+            )}
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-4">
+            <BarrierToggle value={barrierType} onChange={selectBarrier} allowNone />
+            {barrierType !== null && (
+              <>
+                <Slider label="Barrier (H)" value={barrier} min={1} max={300} step={0.5} onChange={setBarrier} displayValue={`$${barrier.toFixed(2)}`} />
+                <Slider label="Rebate" value={rebate} min={0} max={20} step={0.5} onChange={setRebate} displayValue={`$${rebate.toFixed(2)}`} />
+                <p className="text-[11px] text-zinc-500 leading-relaxed">
+                  Reiner-Rubinstein prices with first-order Greeks by
+                  bump-and-revalue, drawn dashed against the vanillas. Near the
+                  barrier, knock-out delta and gamma change sharply as the
+                  option is about to die.
+                </p>
+              </>
+            )}
           </div>
 
           {/* Current Values */}
@@ -191,6 +392,22 @@ export default function GreeksPage() {
                 {currentPutVal.toFixed(6)}
               </span>
             </div>
+            {barrierFn && (
+              <>
+                <div className="flex justify-between items-center">
+                  <span className="text-xs text-emerald-400 capitalize">{barrierLabel} call</span>
+                  <span className="font-mono text-sm text-zinc-200">
+                    {barrierFn(currentInputs, "call").toFixed(6)}
+                  </span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-xs text-rose-400 capitalize">{barrierLabel} put</span>
+                  <span className="font-mono text-sm text-zinc-200">
+                    {barrierFn(currentInputs, "put").toFixed(6)}
+                  </span>
+                </div>
+              </>
+            )}
           </div>
 
           {/* Formula & Description */}
@@ -230,6 +447,37 @@ export default function GreeksPage() {
                     name: "Put",
                     line: { color: "#f43f5e", width: 2 },
                   },
+                  ...(barrierFn
+                    ? [
+                        {
+                          x: spotData.spots,
+                          y: spotData.barrierCallVals,
+                          type: "scatter" as const,
+                          mode: "lines" as const,
+                          name: "Barrier Call",
+                          line: { color: "#34d399", width: 2, dash: "dash" as const },
+                        },
+                        {
+                          x: spotData.spots,
+                          y: spotData.barrierPutVals,
+                          type: "scatter" as const,
+                          mode: "lines" as const,
+                          name: "Barrier Put",
+                          line: { color: "#f43f5e", width: 2, dash: "dash" as const },
+                        },
+                        {
+                          x: [barrier, barrier],
+                          y: [
+                            Math.min(...spotData.callVals, ...spotData.putVals, ...spotData.barrierCallVals, ...spotData.barrierPutVals),
+                            Math.max(...spotData.callVals, ...spotData.putVals, ...spotData.barrierCallVals, ...spotData.barrierPutVals),
+                          ],
+                          type: "scatter" as const,
+                          mode: "lines" as const,
+                          name: "Barrier",
+                          line: { color: "#f59e0b", width: 1, dash: "dot" as const },
+                        },
+                      ]
+                    : []),
                   {
                     x: [S],
                     y: [currentCallVal],
@@ -251,7 +499,7 @@ export default function GreeksPage() {
                 ]}
                 layout={{
                   xaxis: { title: "Spot Price ($)" },
-                  yaxis: { title: greek.name.charAt(0).toUpperCase() + greek.name.slice(1) },
+                  yaxis: { title: greek.name.charAt(0).toUpperCase() + greekLabel(greek.name).slice(1) },
                   showlegend: true,
                   legend: { x: 0.01, y: 0.99, bgcolor: "transparent", font: { color: "#a1a1aa" } },
                 }}
@@ -287,7 +535,7 @@ export default function GreeksPage() {
                   ]}
                   layout={{
                     xaxis: { title: "Time (years)" },
-                    yaxis: { title: greek.name },
+                    yaxis: { title: greekLabel(greek.name) },
                     showlegend: false,
                   }}
                 />
@@ -321,7 +569,7 @@ export default function GreeksPage() {
                   ]}
                   layout={{
                     xaxis: { title: "Volatility (%)" },
-                    yaxis: { title: greek.name },
+                    yaxis: { title: greekLabel(greek.name) },
                     showlegend: false,
                   }}
                 />
@@ -0,0 +1,231 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import Slider from "@/components/Slider";
+import KaTeX from "@/components/KaTeX";
+import PlotlyChart from "@/components/PlotlyChart";
+import { impliedVolatility } from "@/lib/black-scholes";
+import {
+  heston,
+  fellerCondition,
+  hestonEquivalentVol,
+  type HestonParams,
+} from "@/lib/heston";
+
+export default function HestonPage() {
+  const [S, setS] = useState(100);
+  const [T, setT] = useState(0.5);
+  const [r, setR] = useState(0.05);
+  const [q, setQ] = useState(0);
+  const [kappa, setKappa] = useState(2);
+  const [theta, setTheta] = useState(0.04);
+  const [xi, setXi] = useState(0.5);
+  const [rho, setRho] = useState(-0.7);
+  const [v0, setV0] = useState(0.04);
+
+  const params: HestonParams = useMemo(
+    () => ({ kappa, theta, xi, rho, v0 }),
+    [kappa, theta, xi, rho, v0]
+  );
+
+  // Implied vol of the out-of-the-money option at strike K, maturity t
+  const hestonIV = useMemo(() => {
+    return (K: number, t: number) => {
+      const forward = S * Math.exp((r - q) * t);
+      const type = K < forward ? "put" : "call";
+      const prices = heston({ S, K, T: t, r, q, ...params });
+      const price = type === "call" ? prices.callPrice : prices.putPrice;
+      return impliedVolatility(price, { S, K, T: t, r, q }, type);
+    };
+  }, [S, r, q, params]);
+
+  const smile = useMemo(() => {
+    const strikes: number[] = [];
+    const ivs: number[] = [];
+    for (let i = 0; i <= 40; i++) {
+      const K = S * (0.6 + (i / 40) * 0.8);
+      const iv = hestonIV(K, T);
+      if (Number.isFinite(iv)) {
+        strikes.push(K);
+        ivs.push(iv * 100);
+      }
+    }
+    return { strikes, ivs };
+  }, [S, T, hestonIV]);
+
+  const termStructure = useMemo(() => {
+    const times: number[] = [];
+    const atm: number[] = [];
+    const flat: number[] = [];
+    for (let i = 0; i <= 30; i++) {
+      const t = 0.05 + (i / 30) * 2.95;
+      const iv = hestonIV(S * Math.exp((r - q) * t), t);
+      if (Number.isFinite(iv)) {
+        times.push(t);
+        atm.push(iv * 100);
+        flat.push(hestonEquivalentVol(params, t) * 100);
+      }
+    }
+    return { times, atm, flat };
+  }, [S, r, q, params, hestonIV]);
+
+  const flatVol = hestonEquivalentVol(params, T);
+  const feller = fellerCondition(params);
+  const atmPrices = heston({ S, K: S, T, r, q, ...params });
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 py-8">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-zinc-100 mb-2">
+          Heston Stochastic Volatility
+        </h1>
+        <p className="text-sm text-zinc-400">
+          Price European options under Heston by Fourier integration and invert
+          the prices through Black-Scholes to see the smile a stochastic variance
+          process generates.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Controls */}
+        <div className="lg:col-span-1 space-y-4">
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-4">
+            <h2 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+              Heston Parameters
+            </h2>
+            <Slider label="Mean Reversion (κ)" value={kappa} min={0.1} max={10} step={0.1} onChange={setKappa} />
+            <Slider label="Long-run Var (θ)" value={theta} min={0.005} max={0.25} step={0.005} onChange={setTheta} displayValue={`${theta.toFixed(3)} (${(Math.sqrt(theta) * 100).toFixed(1)}%)`} />
+            <Slider label="Vol of Vol (ξ)" value={xi} min={0.01} max={1.5} step={0.01} onChange={setXi} />
+            <Slider label="Correlation (ρ)" value={rho} min={-0.99} max={0.99} step={0.01} onChange={setRho} />
+            <Slider label="Initial Var (v₀)" value={v0} min={0.005} max={0.25} step={0.005} onChange={setV0} displayValue={`${v0.toFixed(3)} (${(Math.sqrt(v0) * 100).toFixed(1)}%)`} />
+            <p className={`text-[11px] ${feller ? "text-emerald-400" : "text-amber-400"}`}>
+              Feller condition 2κθ &gt; ξ² {feller ? "holds" : "violated: variance can hit zero"}
+            </p>
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-4">
+            <h2 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+              Market
+            </h2>
+            <Slider label="Spot (S)" value={S} min={1} max={300} step={1} onChange={setS} displayValue={`$${S}`} />
+            <Slider label="Time (T)" value={T} min={0.05} max={3} step={0.05} onChange={setT} unit=" yr" />
+            <Slider label="Rate (r)" value={r} min={0} max={0.15} step={0.005} onChange={setR} displayValue={`${(r * 100).toFixed(1)}%`} />
+            <Slider label="Div Yield (q)" value={q} min={0} max={0.1} step={0.005} onChange={setQ} displayValue={`${(q * 100).toFixed(1)}%`} />
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-3">
+            <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+              At the Money (K = S)
+            </h3>
+            {[
+              { label: "Heston Call", value: `$${atmPrices.callPrice.toFixed(4)}` },
+              { label: "Heston Put", value: `$${atmPrices.putPrice.toFixed(4)}` },
+              { label: "Flat BS Vol", value: `${(flatVol * 100).toFixed(2)}%` },
+            ].map(({ label, value }) => (
+              <div key={label} className="flex justify-between items-center">
+                <span className="text-xs text-zinc-400">{label}</span>
+                <span className="font-mono text-sm text-zinc-200">{value}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-3">
+            <div className="overflow-x-auto">
+              <KaTeX
+                math="dv_t = \kappa(\theta - v_t)\,dt + \xi\sqrt{v_t}\,dW^v_t"
+                display
+                className="text-zinc-300"
+              />
+            </div>
+            <p className="text-xs text-zinc-500 leading-relaxed">
+              Negative ρ skews the smile (spot falls as variance rises) and ξ
+              adds curvature. The flat vol is the square root of the expected
+              average variance, so Black-Scholes and Heston agree on total variance
+              but not on its distribution.
+            </p>
+          </div>
+        </div>
+
+        {/* Charts */}
+        <div className="lg:col-span-3 space-y-6">
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4">
+            <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-2">
+              Implied Volatility Smile
+            </h3>
+            <div className="h-[400px]">
+              <PlotlyChart
+                data={[
+                  {
+                    x: smile.strikes,
+                    y: smile.ivs,
+                    type: "scatter",
+                    mode: "lines+markers",
+                    name: "Heston IV",
+                    line: { color: "#34d399", width: 2.5 },
+                    marker: { size: 4 },
+                  },
+                  {
+                    x: [S * 0.6, S * 1.4],
+                    y: [flatVol * 100, flatVol * 100],
+                    type: "scatter",
+                    mode: "lines",
+                    name: "Flat BS vol",
+                    line: { color: "#a1a1aa", width: 1.5, dash: "dash" },
+                  },
+                  {
+                    x: [S * Math.exp((r - q) * T), S * Math.exp((r - q) * T)],
+                    y: [Math.min(...smile.ivs, flatVol * 100), Math.max(...smile.ivs, flatVol * 100)],
+                    type: "scatter",
+                    mode: "lines",
+                    name: "Forward",
+                    line: { color: "#f59e0b", width: 1, dash: "dot" },
+                  },
+                ]}
+                layout={{
+                  xaxis: { title: "Strike ($)" },
+                  yaxis: { title: "Implied Volatility (%)" },
+                  showlegend: true,
+                  legend: { x: 0.99, y: 0.99, xanchor: "right", bgcolor: "transparent", font: { color: "#a1a1aa" } },
+                }}
+              />
+            </div>
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4">
+            <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-2">
+              ATM-Forward Term Structure
+            </h3>
+            <div className="h-[300px]">
+              <PlotlyChart
+                data={[
+                  {
+                    x: termStructure.times,
+                    y: termStructure.atm,
+                    type: "scatter",
+                    mode: "lines",
+                    name: "Heston ATM IV",
+                    line: { color: "#8b5cf6", width: 2.5 },
+                  },
+                  {
+                    x: termStructure.times,
+                    y: termStructure.flat,
+                    type: "scatter",
+                    mode: "lines",
+                    name: "Flat BS vol",
+                    line: { color: "#a1a1aa", width: 1.5, dash: "dash" },
+                  },
+                ]}
+                layout={{
+                  xaxis: { title: "Time to Expiry (years)" },
+                  yaxis: { title: "Implied Volatility (%)" },
+                  showlegend: true,
+                  legend: { x: 0.99, y: 0.99, xanchor: "right", bgcolor: "transparent", font: { color: "#a1a1aa" } },
+                }}
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
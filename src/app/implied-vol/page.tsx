@@ -4,10 +4,32 @@ import { useState, useMemo } from "react";
 import Slider from "@/components/Slider";
 import KaTeX from "@/components/KaTeX";
 import PlotlyChart from "@/components/PlotlyChart";
+import UnderlyingToggle from "@/components/UnderlyingToggle";
 import {
   impliedVolatility,
+  solveImpliedVolatility,
   blackScholes,
+  black76,
+  bachelierImpliedVolatility,
+  lognormalToNormalVol,
+  lognormalDomainError,
+  impliedDensity,
+  type IVReason,
+  type Underlying,
 } from "@/lib/black-scholes";
+import { calibrateSABR, sabrLognormalVol, sabrNormalVol } from "@/lib/sabr";
+import { fitSVI, sviImpliedVol, exportSVI } from "@/lib/svi";
+
+type VolModel = "lognormal" | "normal";
+type SmileModel = "parabolic" | "svi";
+
+const REASON_TEXT: Record<IVReason, string> = {
+  converged: "Converged",
+  "below-intrinsic": "Price at or below the discounted intrinsic value: no volatility reproduces it",
+  "above-upper-bound": "Price at or above the no-arbitrage upper bound: no volatility reproduces it",
+  "no-convergence": "Iteration budget spent before reaching the price tolerance",
+  "invalid-input": "Invalid inputs (expired option or outside the lognormal domain)",
+};
 
 export default function ImpliedVolPage() {
   // IV Calculator
@@ -17,16 +39,33 @@ export default function ImpliedVolPage() {
   const [r, setR] = useState(0.05);
   const [marketPrice, setMarketPrice] = useState(10);
   const [optionType, setOptionType] = useState<"call" | "put">("call");
+  const [underlying, setUnderlying] = useState<Underlying>("spot");
+  const [shift, setShift] = useState(0);
+  const isFuture = underlying === "future";
+  const ivShift = isFuture ? 0 : shift;
+  const domainError = isFuture
+    ? null
+    : lognormalDomainError({ S, K, T, r, sigma: 0, shift: ivShift });
 
-  const iv = useMemo(
-    () => impliedVolatility(marketPrice, { S, K, T, r }, optionType),
-    [S, K, T, r, marketPrice, optionType]
+  // In futures mode S is read as the futures price and Black-76 is inverted,
+  // which is Black-Scholes-Merton with q = r
+  const solve = useMemo(
+    () =>
+      solveImpliedVolatility(
+        marketPrice,
+        isFuture ? { S, K, T, r, q: r } : { S, K, T, r, shift: ivShift },
+        optionType
+      ),
+    [isFuture, S, K, T, r, ivShift, marketPrice, optionType]
   );
+  const iv = solve.reason === "converged" ? solve.iv : NaN;
 
   const bsCheck = useMemo(() => {
     if (isNaN(iv)) return null;
-    return blackScholes({ S, K, T, r, sigma: iv });
-  }, [S, K, T, r, iv]);
+    return isFuture
+      ? black76({ F: S, K, T, r, sigma: iv })
+      : blackScholes({ S, K, T, r, sigma: iv, shift: ivShift });
+  }, [isFuture, S, K, T, r, ivShift, iv]);
 
   // Volatility Smile simulator
   const [smileS, setSmileS] = useState(100);
@@ -35,13 +74,21 @@ export default function ImpliedVolPage() {
   const [smileBaseVol, setSmileBaseVol] = useState(0.2);
   const [smileSkew, setSmileSkew] = useState(0.1);
   const [smileSmile, setSmileSmile] = useState(0.05);
+  const [volModel, setVolModel] = useState<VolModel>("lognormal");
+  const [sabrBeta, setSabrBeta] = useState(0.5);
+  const [smileModel, setSmileModel] = useState<SmileModel>("parabolic");
+  const isNormal = volModel === "normal";
 
-  // Generate synthetic market prices with a volatility smile
+  // Generate synthetic market prices with a volatility smile. In the normal
+  // convention the same prices are inverted with Bachelier on the forward,
+  // and vols are shown in price units rather than percent.
   const smileData = useMemo(() => {
     const strikes: number[] = [];
     const ivs: number[] = [];
+    const lognormalIVs: number[] = [];
     const prices: number[] = [];
     const trueVols: number[] = [];
+    const forward = smileS * Math.exp(smileR * smileT);
 
     for (let k = smileS * 0.7; k <= smileS * 1.3; k += 1) {
       const moneyness = Math.log(k / smileS);
@@ -56,20 +103,119 @@ export default function ImpliedVolPage() {
 
       if (price < 0.01) continue;
 
-      const recoveredIV = impliedVolatility(
+      const lognormalIV = impliedVolatility(
         price,
         { S: smileS, K: k, T: smileT, r: smileR },
         type as "call" | "put"
       );
+      const recoveredIV = isNormal
+        ? bachelierImpliedVolatility(
+            price,
+            { F: forward, K: k, T: smileT, r: smileR },
+            type as "call" | "put"
+          )
+        : lognormalIV;
 
       strikes.push(k);
       prices.push(price);
-      trueVols.push(trueVol * 100);
-      ivs.push(isNaN(recoveredIV) ? 0 : recoveredIV * 100);
+      lognormalIVs.push(lognormalIV);
+      if (isNormal) {
+        trueVols.push(lognormalToNormalVol(forward, k, smileT, trueVol));
+        ivs.push(isNaN(recoveredIV) ? 0 : recoveredIV);
+      } else {
+        trueVols.push(trueVol * 100);
+        ivs.push(isNaN(recoveredIV) ? 0 : recoveredIV * 100);
+      }
+    }
+
+    const atmVol = isNormal
+      ? lognormalToNormalVol(forward, smileS, smileT, smileBaseVol)
+      : smileBaseVol * 100;
+
+    return { strikes, ivs, lognormalIVs, prices, trueVols, atmVol, forward };
+  }, [smileS, smileT, smileR, smileBaseVol, smileSkew, smileSmile, isNormal]);
+
+  // SABR calibrated to the recovered lognormal vols, shown in the selected
+  // convention through Hagan's lognormal or normal expansion
+  const sabrFit = useMemo(() => {
+    const { strikes, lognormalIVs, ivs, forward } = smileData;
+    const calibration = calibrateSABR(
+      forward,
+      smileT,
+      strikes.map((strike, i) => ({ strike, iv: lognormalIVs[i] })),
+      sabrBeta
+    );
+    const modelVol = (k: number) =>
+      isNormal
+        ? sabrNormalVol(forward, k, smileT, calibration.params)
+        : sabrLognormalVol(forward, k, smileT, calibration.params) * 100;
+
+    const curveStrikes: number[] = [];
+    const curveVols: number[] = [];
+    for (let i = 0; i <= 120; i++) {
+      const k = smileS * (0.7 + (i / 120) * 0.6);
+      curveStrikes.push(k);
+      curveVols.push(modelVol(k));
     }
 
-    return { strikes, ivs, prices, trueVols };
-  }, [smileS, smileT, smileR, smileBaseVol, smileSkew, smileSmile]);
+    const residualStrikes: number[] = [];
+    const residuals: number[] = [];
+    strikes.forEach((k, i) => {
+      if (ivs[i] > 0) {
+        residualStrikes.push(k);
+        residuals.push(modelVol(k) - ivs[i]);
+      }
+    });
+
+    return { calibration, curveStrikes, curveVols, residualStrikes, residuals };
+  }, [smileData, smileS, smileT, sabrBeta, isNormal]);
+
+  // Raw SVI fitted to the recovered lognormal vols (total variance in k = ln(K/F))
+  const sviFit = useMemo(() => {
+    const { strikes, lognormalIVs, forward } = smileData;
+    return fitSVI(
+      strikes.map((strike, i) => ({ strike, iv: lognormalIVs[i] })),
+      forward,
+      smileT
+    );
+  }, [smileData, smileT]);
+
+  // Lognormal vol of the selected smile: the generating parabola or the SVI fit
+  const smileVol = useMemo(() => {
+    if (smileModel === "svi") {
+      return (k: number) => sviImpliedVol(k, sviFit.F, sviFit.T, sviFit.params);
+    }
+    return (k: number) => {
+      const moneyness = Math.log(k / smileS);
+      return Math.max(smileBaseVol + smileSkew * moneyness + smileSmile * moneyness * moneyness, 0.01);
+    };
+  }, [smileModel, sviFit, smileS, smileBaseVol, smileSkew, smileSmile]);
+
+  // Selected smile in the display convention, and the density it implies
+  const modelSmile = useMemo(() => {
+    const { forward } = smileData;
+    const strikes: number[] = [];
+    const vols: number[] = [];
+    const densities: number[] = [];
+    for (let i = 0; i <= 120; i++) {
+      const k = smileS * (0.7 + (i / 120) * 0.6);
+      const vol = smileVol(k);
+      strikes.push(k);
+      vols.push(isNormal ? lognormalToNormalVol(forward, k, smileT, vol) : vol * 100);
+      densities.push(impliedDensity(k, smileS, smileT, smileR, smileVol));
+    }
+    return { strikes, vols, densities };
+  }, [smileData, smileS, smileT, smileR, smileVol, isNormal]);
+
+  const downloadSVI = () => {
+    const blob = new Blob([exportSVI(sviFit)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `svi-T${smileT.toFixed(2)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
 
   // Term structure: IV across maturities
   const termStructure = useMemo(() => {
@@ -80,6 +226,19 @@ export default function ImpliedVolPage() {
       // Simple mean-reversion term structure model
       const vol = smileBaseVol + (0.05 * Math.exp(-2 * t));
       const bs = blackScholes({ S: smileS, K: smileS, T: t, r: smileR, sigma: vol });
+      if (isNormal) {
+        const forward = smileS * Math.exp(smileR * t);
+        const recovered = bachelierImpliedVolatility(
+          bs.callPrice,
+          { F: forward, K: smileS, T: t, r: smileR },
+          "call"
+        );
+        maturities.push(t);
+        atmIVs.push(
+          isNaN(recovered) ? lognormalToNormalVol(forward, smileS, t, vol) : recovered
+        );
+        continue;
+      }
       const recovered = impliedVolatility(
         bs.callPrice,
         { S: smileS, K: smileS, T: t, r: smileR },
@@ -90,7 +249,9 @@ export default function ImpliedVolPage() {
     }
 
     return { maturities, atmIVs };
-  }, [smileS, smileR, smileBaseVol]);
+  }, [smileS, smileR, smileBaseVol, isNormal]);
+
+  const volAxisTitle = isNormal ? "Normal Vol ($ / √yr)" : "Implied Volatility (%)";
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 py-8">
@@ -99,7 +260,9 @@ export default function ImpliedVolPage() {
           Implied Volatility
         </h1>
         <p className="text-sm text-zinc-400">
-          Newton-Raphson IV solver and volatility smile visualization.
+          Safeguarded Newton IV solver with a Brent fallback and diagnostics,
+          and volatility smile visualization, in
+          lognormal (Black-Scholes) or normal (Bachelier) convention.
         </p>
       </div>
 
@@ -132,8 +295,9 @@ export default function ImpliedVolPage() {
                 Put
               </button>
             </div>
-            <Slider label="Spot (S)" value={S} min={1} max={300} step={0.5} onChange={setS} displayValue={`$${S.toFixed(2)}`} />
-            <Slider label="Strike (K)" value={K} min={1} max={300} step={0.5} onChange={setK} displayValue={`$${K.toFixed(2)}`} />
+            <UnderlyingToggle value={underlying} onChange={setUnderlying} />
+            <Slider label={isFuture ? "Future (F)" : "Spot (S)"} value={S} min={ivShift > 0 ? -50 : 1} max={300} step={0.5} onChange={setS} displayValue={`$${S.toFixed(2)}`} />
+            <Slider label="Strike (K)" value={K} min={ivShift > 0 ? -50 : 1} max={300} step={0.5} onChange={setK} displayValue={`$${K.toFixed(2)}`} />
             <Slider label="Time (T)" value={T} min={0.01} max={3} step={0.01} onChange={setT} unit=" yr" />
             <Slider label="Rate (r)" value={r} min={0} max={0.15} step={0.001} onChange={setR} displayValue={`${(r * 100).toFixed(1)}%`} />
             <Slider
@@ -145,10 +309,21 @@ export default function ImpliedVolPage() {
               onChange={setMarketPrice}
               displayValue={`$${marketPrice.toFixed(2)}`}
             />
+            {!isFuture && (
+              <Slider label="Displacement (shift)" value={shift} min={0} max={100} step={0.5} onChange={setShift} displayValue={shift.toFixed(1)} />
+            )}
           </div>
         </div>
 
         <div className="lg:col-span-2 space-y-4">
+          {domainError && (
+            <div className="rounded-lg border border-rose-500/30 bg-rose-500/10 px-4 py-3 text-xs text-rose-300">
+              <span className="font-semibold">Outside the lognormal domain.</span>{" "}
+              {domainError}. Increase the displacement so that the shifted
+              forward and strike are positive.
+            </div>
+          )}
+
           {/* Result */}
           <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-5">
             <div className="grid grid-cols-2 gap-6">
@@ -162,7 +337,7 @@ export default function ImpliedVolPage() {
               </div>
               <div>
                 <div className="text-xs text-zinc-500 uppercase tracking-wider mb-1">
-                  BS Price at IV
+                  {isFuture ? "Black-76" : "BS"} Price at IV
                 </div>
                 <div className="font-mono text-3xl font-bold text-zinc-300">
                   {bsCheck
@@ -171,23 +346,49 @@ export default function ImpliedVolPage() {
                 </div>
               </div>
             </div>
-            {bsCheck && (
-              <div className="mt-3 text-xs text-zinc-500">
-                Error:{" "}
-                <span className="font-mono text-zinc-400">
-                  {Math.abs(
-                    (optionType === "call" ? bsCheck.callPrice : bsCheck.putPrice) -
-                      marketPrice
-                  ).toExponential(4)}
-                </span>
-              </div>
-            )}
+            <div
+              className={`mt-4 rounded-lg border px-3 py-2 text-xs ${
+                solve.reason === "converged"
+                  ? "border-emerald-500/30 bg-emerald-500/10 text-emerald-300"
+                  : "border-amber-500/30 bg-amber-500/10 text-amber-300"
+              }`}
+            >
+              <span className="font-mono font-semibold">{solve.reason}</span>
+              {" · "}
+              {REASON_TEXT[solve.reason]}
+              {solve.reason === "no-convergence" &&
+                ` (last iterate ${(solve.iv * 100).toFixed(2)}%)`}
+            </div>
+            <div className="mt-3 grid grid-cols-2 sm:grid-cols-3 gap-x-6 gap-y-2 text-xs">
+              {[
+                { label: "Iterations", value: `${solve.iterations}` },
+                {
+                  label: "Method",
+                  value: solve.iterations === 0 ? "—" : solve.fallback ? "Newton → Brent" : "Newton",
+                },
+                {
+                  label: "Initial guess",
+                  value: isNaN(solve.initialGuess) ? "—" : `${(solve.initialGuess * 100).toFixed(2)}%`,
+                },
+                {
+                  label: "Price error",
+                  value: isNaN(solve.priceError) ? "—" : solve.priceError.toExponential(2),
+                },
+                { label: "Lower bound", value: `$${solve.lowerBound.toFixed(4)}` },
+                { label: "Upper bound", value: `$${solve.upperBound.toFixed(4)}` },
+              ].map(({ label, value }) => (
+                <div key={label} className="flex justify-between items-center">
+                  <span className="text-zinc-500">{label}</span>
+                  <span className="font-mono text-zinc-300">{value}</span>
+                </div>
+              ))}
+            </div>
           </div>
 
-          {/* Newton-Raphson explanation */}
+          {/* Solver explanation */}
           <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-5 space-y-3">
             <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
-              Newton-Raphson Algorithm
+              Solver
             </h3>
             <KaTeX
               math="\sigma_{n+1} = \sigma_n - \frac{C_{\text{BS}}(\sigma_n) - C_{\text{market}}}{\mathcal{V}(\sigma_n)}"
@@ -195,12 +396,16 @@ export default function ImpliedVolPage() {
               className="text-zinc-300"
             />
             <p className="text-xs text-zinc-500 leading-relaxed">
-              The Newton-Raphson method iteratively refines the volatility estimate.
-              Since vega (the derivative of option price with respect to volatility)
-              is always positive for non-expired options, the method converges rapidly--
-              typically within 5-10 iterations to machine precision. The key insight is
-              that the Black-Scholes price is monotonically increasing in volatility,
-              guaranteeing a unique solution.
+              The Black-Scholes price increases monotonically in volatility, from
+              the discounted intrinsic value at σ = 0 to the discounted forward
+              (call) or strike (put) as σ → ∞, so any quote strictly between these
+              bounds has exactly one implied vol and anything outside has none.
+              Newton-Raphson starts from the Corrado-Miller closed-form guess (the
+              Brenner-Subrahmanyam formula at the money) and usually converges in
+              a handful of iterations. Every iterate also tightens a bracket
+              around the root; if a step would leave the bracket, as happens far
+              out of the money where vega vanishes, Brent&apos;s method finishes
+              the solve on the bracket, which always converges.
             </p>
           </div>
         </div>
@@ -224,6 +429,21 @@ export default function ImpliedVolPage() {
             <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
               Smile Parameters
             </h3>
+            <div className="flex gap-2">
+              {(["lognormal", "normal"] as VolModel[]).map((m) => (
+                <button
+                  key={m}
+                  onClick={() => setVolModel(m)}
+                  className={`flex-1 py-1.5 rounded-md text-xs font-medium capitalize ${
+                    volModel === m
+                      ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+                      : "bg-zinc-800/50 text-zinc-400 border border-zinc-800"
+                  }`}
+                >
+                  {m}
+                </button>
+              ))}
+            </div>
             <Slider label="Spot" value={smileS} min={50} max={200} step={1} onChange={setSmileS} displayValue={`$${smileS}`} />
             <Slider label="Time" value={smileT} min={0.05} max={2} step={0.05} onChange={setSmileT} unit=" yr" />
             <Slider label="Rate" value={smileR} min={0} max={0.15} step={0.005} onChange={setSmileR} displayValue={`${(smileR * 100).toFixed(1)}%`} />
@@ -264,10 +484,93 @@ export default function ImpliedVolPage() {
               className="text-zinc-300"
             />
             <p className="text-xs text-zinc-500 mt-2 leading-relaxed">
-              This parabolic parametrization captures both the skew (linear term)
-              and the smile (quadratic term) commonly observed in equity options.
+              Synthetic market quotes are generated from this parabola, with a
+              skew (linear) and smile (quadratic) term, and SABR and SVI are
+              calibrated to the recovered vols.
             </p>
           </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-3">
+            <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+              SVI Fit
+            </h3>
+            <div className="flex gap-2">
+              {(["parabolic", "svi"] as SmileModel[]).map((m) => (
+                <button
+                  key={m}
+                  onClick={() => setSmileModel(m)}
+                  className={`flex-1 py-1.5 rounded-md text-xs font-medium ${
+                    smileModel === m
+                      ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+                      : "bg-zinc-800/50 text-zinc-400 border border-zinc-800"
+                  }`}
+                >
+                  {m === "svi" ? "SVI" : "Parabolic"}
+                </button>
+              ))}
+            </div>
+            {[
+              { label: "a", value: sviFit.params.a.toFixed(5) },
+              { label: "b", value: sviFit.params.b.toFixed(5) },
+              { label: "ρ", value: sviFit.params.rho.toFixed(4) },
+              { label: "m", value: sviFit.params.m.toFixed(4) },
+              { label: "σ", value: sviFit.params.sigma.toFixed(4) },
+              { label: "RMSE (vol pts)", value: (sviFit.rmse * 100).toFixed(4) },
+            ].map(({ label, value }) => (
+              <div key={label} className="flex justify-between items-center">
+                <span className="text-xs text-zinc-400">{label}</span>
+                <span className="font-mono text-sm text-zinc-200">{value}</span>
+              </div>
+            ))}
+            <p className={`text-[11px] ${sviFit.arbitrageFree ? "text-emerald-400" : "text-amber-400"}`}>
+              {sviFit.arbitrageFree
+                ? "No butterfly arbitrage: g(k) ≥ 0 and Lee's wing bound hold"
+                : "Fit violates a no-arbitrage check"}
+            </p>
+            <button
+              onClick={downloadSVI}
+              disabled={!Number.isFinite(sviFit.rmse)}
+              className="w-full py-1.5 rounded-md text-xs font-medium bg-zinc-800/50 text-zinc-300 border border-zinc-800 hover:border-zinc-700 disabled:opacity-50"
+            >
+              Export Parameters (JSON)
+            </button>
+            <KaTeX
+              math="w(k) = a + b\left[\rho(k - m) + \sqrt{(k - m)^2 + \sigma^2}\right]"
+              display
+              className="text-zinc-300"
+            />
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-3">
+            <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+              SABR Calibration
+            </h3>
+            <Slider label="Beta (β, fixed)" value={sabrBeta} min={0} max={1} step={0.05} onChange={setSabrBeta} />
+            {[
+              { label: "α", value: sabrFit.calibration.params.alpha.toFixed(4) },
+              { label: "ρ", value: sabrFit.calibration.params.rho.toFixed(4) },
+              { label: "ν", value: sabrFit.calibration.params.nu.toFixed(4) },
+              {
+                label: "RMSE (vol pts)",
+                value: (sabrFit.calibration.rmse * 100).toFixed(4),
+              },
+            ].map(({ label, value }) => (
+              <div key={label} className="flex justify-between items-center">
+                <span className="text-xs text-zinc-400">{label}</span>
+                <span className="font-mono text-sm text-zinc-200">{value}</span>
+              </div>
+            ))}
+            {!sabrFit.calibration.converged && (
+              <p className="text-[11px] text-amber-400">
+                Calibration stopped at the iteration limit.
+              </p>
+            )}
+            <KaTeX
+              math="dF = \alpha_t F^{\beta} dW_1, \quad d\alpha = \nu\, \alpha_t\, dW_2"
+              display
+              className="text-zinc-300"
+            />
+          </div>
         </div>
 
         <div className="lg:col-span-3 space-y-6">
@@ -280,11 +583,11 @@ export default function ImpliedVolPage() {
               <PlotlyChart
                 data={[
                   {
-                    x: smileData.strikes,
-                    y: smileData.trueVols,
+                    x: modelSmile.strikes,
+                    y: modelSmile.vols,
                     type: "scatter",
                     mode: "lines",
-                    name: "True Vol",
+                    name: smileModel === "svi" ? "SVI Fit" : "True Vol (parabola)",
                     line: { color: "#8b5cf6", width: 2 },
                   },
                   {
@@ -295,9 +598,17 @@ export default function ImpliedVolPage() {
                     name: "Recovered IV",
                     marker: { color: "#34d399", size: 3 },
                   },
+                  {
+                    x: sabrFit.curveStrikes,
+                    y: sabrFit.curveVols,
+                    type: "scatter",
+                    mode: "lines",
+                    name: "SABR Fit",
+                    line: { color: "#f43f5e", width: 2, dash: "dash" },
+                  },
                   {
                     x: [smileS],
-                    y: [smileBaseVol * 100],
+                    y: [smileData.atmVol],
                     type: "scatter",
                     mode: "markers",
                     name: "ATM",
@@ -310,7 +621,7 @@ export default function ImpliedVolPage() {
                 ]}
                 layout={{
                   xaxis: { title: "Strike Price ($)" },
-                  yaxis: { title: "Implied Volatility (%)" },
+                  yaxis: { title: volAxisTitle },
                   showlegend: true,
                   legend: { x: 0.01, y: 0.99, bgcolor: "transparent" },
                 }}
@@ -318,6 +629,63 @@ export default function ImpliedVolPage() {
             </div>
           </div>
 
+          {/* Implied density */}
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4">
+            <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-2">
+              Implied Density ({smileModel === "svi" ? "SVI" : "Parabolic"} Smile)
+            </h3>
+            <div className="h-[260px]">
+              <PlotlyChart
+                data={[
+                  {
+                    x: modelSmile.strikes,
+                    y: modelSmile.densities,
+                    type: "scatter",
+                    mode: "lines",
+                    name: "Density",
+                    line: { color: "#8b5cf6", width: 2 },
+                    fill: "tozeroy",
+                    fillcolor: "rgba(139, 92, 246, 0.1)",
+                  },
+                ]}
+                layout={{
+                  xaxis: { title: "Terminal Price S_T ($)" },
+                  yaxis: { title: "Density" },
+                  showlegend: false,
+                }}
+              />
+            </div>
+            <p className="text-xs text-zinc-500 mt-2 leading-relaxed">
+              Breeden-Litzenberger: the second strike derivative of call prices
+              is the discounted risk-neutral density. Dips below zero mark
+              butterfly arbitrage in the smile.
+            </p>
+          </div>
+
+          {/* SABR residuals */}
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4">
+            <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-2">
+              SABR Fit Residuals (Model − Market)
+            </h3>
+            <div className="h-[220px]">
+              <PlotlyChart
+                data={[
+                  {
+                    x: sabrFit.residualStrikes,
+                    y: sabrFit.residuals,
+                    type: "bar",
+                    marker: { color: "#f43f5e" },
+                  },
+                ]}
+                layout={{
+                  xaxis: { title: "Strike Price ($)" },
+                  yaxis: { title: isNormal ? "Residual ($ / √yr)" : "Residual (vol pts)" },
+                  showlegend: false,
+                }}
+              />
+            </div>
+          </div>
+
           {/* Term structure */}
           <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4">
             <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-2">
@@ -337,7 +705,7 @@ export default function ImpliedVolPage() {
                 ]}
                 layout={{
                   xaxis: { title: "Time to Expiry (years)" },
-                  yaxis: { title: "ATM IV (%)" },
+                  yaxis: { title: isNormal ? "ATM Normal Vol ($ / √yr)" : "ATM IV (%)" },
                   showlegend: false,
                 }}
               />
@@ -0,0 +1,229 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import Slider from "@/components/Slider";
+import KaTeX from "@/components/KaTeX";
+import PlotlyChart from "@/components/PlotlyChart";
+import {
+  blackScholes,
+  mertonJumpDiffusion,
+  mertonDensity,
+  lognormalDensity,
+  volatilitySmile,
+  type BSInputs,
+  type JumpParams,
+} from "@/lib/black-scholes";
+
+export default function JumpsPage() {
+  const [S, setS] = useState(100);
+  const [T, setT] = useState(0.5);
+  const [r, setR] = useState(0.05);
+  const [sigma, setSigma] = useState(0.15);
+  const [q, setQ] = useState(0);
+  const [lambda, setLambda] = useState(1);
+  const [muJ, setMuJ] = useState(-0.1);
+  const [sigmaJ, setSigmaJ] = useState(0.15);
+  const [logScale, setLogScale] = useState(false);
+
+  const jumps: JumpParams = useMemo(() => ({ lambda, muJ, sigmaJ }), [lambda, muJ, sigmaJ]);
+
+  // Lognormal benchmark with the same variance of ln(S_T)
+  const matchedVol = Math.sqrt(sigma * sigma + lambda * (muJ * muJ + sigmaJ * sigmaJ));
+
+  const densities = useMemo(() => {
+    const inputs: BSInputs = { S, K: S, T, r, sigma, q };
+    const matched: BSInputs = { ...inputs, sigma: matchedVol };
+    const spots: number[] = [];
+    const merton: number[] = [];
+    const lognormal: number[] = [];
+    const width = 4 * matchedVol * Math.sqrt(T);
+    for (let i = 0; i <= 300; i++) {
+      const s = S * Math.exp(-width * 1.5 + (i / 300) * width * 2.5);
+      spots.push(s);
+      merton.push(mertonDensity(s, inputs, jumps));
+      lognormal.push(lognormalDensity(s, matched));
+    }
+    return { spots, merton, lognormal };
+  }, [S, T, r, sigma, q, jumps, matchedVol]);
+
+  const smile = useMemo(() => {
+    const forward = S * Math.exp((r - q) * T);
+    const puts: { strike: number; price: number }[] = [];
+    const calls: { strike: number; price: number }[] = [];
+    for (let i = 0; i <= 40; i++) {
+      const strike = S * (0.6 + (i / 40) * 0.8);
+      const prices = mertonJumpDiffusion({ S, K: strike, T, r, sigma, q }, jumps);
+      // Invert out-of-the-money options, where the IV is best conditioned
+      if (strike < forward) puts.push({ strike, price: prices.putPrice });
+      else calls.push({ strike, price: prices.callPrice });
+    }
+    const points = [
+      ...volatilitySmile(puts, S, T, r, "put", q),
+      ...volatilitySmile(calls, S, T, r, "call", q),
+    ];
+    return {
+      strikes: points.map((p) => p.strike),
+      ivs: points.map((p) => p.iv * 100),
+    };
+  }, [S, T, r, sigma, q, jumps]);
+
+  const atm = mertonJumpDiffusion({ S, K: S, T, r, sigma, q }, jumps);
+  const atmBS = blackScholes({ S, K: S, T, r, sigma: matchedVol, q });
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 py-8">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-zinc-100 mb-2">
+          Merton Jump-Diffusion
+        </h1>
+        <p className="text-sm text-zinc-400">
+          Add lognormal jumps to the diffusion and compare the fat-tailed terminal
+          distribution with a lognormal of the same variance, then see the skew it
+          implies.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Controls */}
+        <div className="lg:col-span-1 space-y-4">
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-4">
+            <h2 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+              Jumps
+            </h2>
+            <Slider label="Intensity (λ)" value={lambda} min={0} max={5} step={0.1} onChange={setLambda} unit=" /yr" />
+            <Slider label="Mean Jump (μJ)" value={muJ} min={-0.5} max={0.5} step={0.01} onChange={setMuJ} />
+            <Slider label="Jump Vol (σJ)" value={sigmaJ} min={0} max={0.5} step={0.01} onChange={setSigmaJ} />
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-4">
+            <h2 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+              Diffusion
+            </h2>
+            <Slider label="Spot (S)" value={S} min={1} max={300} step={1} onChange={setS} displayValue={`$${S}`} />
+            <Slider label="Time (T)" value={T} min={0.05} max={3} step={0.05} onChange={setT} unit=" yr" />
+            <Slider label="Rate (r)" value={r} min={0} max={0.15} step={0.005} onChange={setR} displayValue={`${(r * 100).toFixed(1)}%`} />
+            <Slider label="Vol (σ)" value={sigma} min={0.05} max={1.0} step={0.01} onChange={setSigma} displayValue={`${(sigma * 100).toFixed(0)}%`} />
+            <Slider label="Div Yield (q)" value={q} min={0} max={0.1} step={0.005} onChange={setQ} displayValue={`${(q * 100).toFixed(1)}%`} />
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-3">
+            <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+              At the Money (K = S)
+            </h3>
+            {[
+              { label: "Merton Call", value: `$${atm.callPrice.toFixed(4)}` },
+              { label: "Merton Put", value: `$${atm.putPrice.toFixed(4)}` },
+              { label: "Matched Vol", value: `${(matchedVol * 100).toFixed(2)}%` },
+              { label: "BS Call (matched)", value: `$${atmBS.callPrice.toFixed(4)}` },
+              { label: "BS Put (matched)", value: `$${atmBS.putPrice.toFixed(4)}` },
+            ].map(({ label, value }) => (
+              <div key={label} className="flex justify-between items-center">
+                <span className="text-xs text-zinc-400">{label}</span>
+                <span className="font-mono text-sm text-zinc-200">{value}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-3">
+            <div className="overflow-x-auto">
+              <KaTeX
+                math="C = \sum_{n=0}^{\infty} \frac{e^{-\lambda' T}(\lambda' T)^n}{n!}\, C_{BS}(S, K, T, r_n, \sigma_n)"
+                display
+                className="text-zinc-300"
+              />
+            </div>
+            <p className="text-xs text-zinc-500 leading-relaxed">
+              Conditional on n jumps the log return is normal, so the price is a
+              Poisson-weighted average of Black-Scholes prices. Negative mean jumps
+              fatten the left tail and produce a downside skew.
+            </p>
+          </div>
+        </div>
+
+        {/* Charts */}
+        <div className="lg:col-span-3 space-y-6">
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+                Terminal Price Density
+              </h3>
+              <button
+                onClick={() => setLogScale(!logScale)}
+                className={`px-2.5 py-1 rounded-md text-[11px] font-medium ${
+                  logScale
+                    ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+                    : "bg-zinc-800/50 text-zinc-400 border border-zinc-800"
+                }`}
+              >
+                Log scale
+              </button>
+            </div>
+            <div className="h-[380px]">
+              <PlotlyChart
+                data={[
+                  {
+                    x: densities.spots,
+                    y: densities.merton,
+                    type: "scatter",
+                    mode: "lines",
+                    name: "Merton",
+                    line: { color: "#34d399", width: 2.5 },
+                  },
+                  {
+                    x: densities.spots,
+                    y: densities.lognormal,
+                    type: "scatter",
+                    mode: "lines",
+                    name: "Lognormal (matched variance)",
+                    line: { color: "#a1a1aa", width: 1.5, dash: "dash" },
+                  },
+                ]}
+                layout={{
+                  xaxis: { title: "Terminal Price S_T ($)" },
+                  yaxis: { title: "Density", type: logScale ? "log" : "linear" },
+                  showlegend: true,
+                  legend: { x: 0.99, y: 0.99, xanchor: "right", bgcolor: "transparent", font: { color: "#a1a1aa" } },
+                }}
+              />
+            </div>
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4">
+            <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-2">
+              Implied Volatility Smile
+            </h3>
+            <div className="h-[320px]">
+              <PlotlyChart
+                data={[
+                  {
+                    x: smile.strikes,
+                    y: smile.ivs,
+                    type: "scatter",
+                    mode: "lines+markers",
+                    name: "Merton IV",
+                    line: { color: "#34d399", width: 2.5 },
+                    marker: { size: 4 },
+                  },
+                  {
+                    x: [S * 0.6, S * 1.4],
+                    y: [sigma * 100, sigma * 100],
+                    type: "scatter",
+                    mode: "lines",
+                    name: "Diffusion vol σ",
+                    line: { color: "#a1a1aa", width: 1.5, dash: "dash" },
+                  },
+                ]}
+                layout={{
+                  xaxis: { title: "Strike ($)" },
+                  yaxis: { title: "Implied Volatility (%)" },
+                  showlegend: true,
+                  legend: { x: 0.99, y: 0.99, xanchor: "right", bgcolor: "transparent", font: { color: "#a1a1aa" } },
+                }}
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,346 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import Slider from "@/components/Slider";
+import KaTeX from "@/components/KaTeX";
+import PlotlyChart from "@/components/PlotlyChart";
+import { blackScholes, type BSInputs } from "@/lib/black-scholes";
+import {
+  monteCarloConvergence,
+  simulatePaths,
+  type MCOptions,
+  type MCResult,
+  type PathPayoff,
+} from "@/lib/monte-carlo";
+
+function Toggle({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: boolean;
+  onChange: (value: boolean) => void;
+}) {
+  return (
+    <button
+      onClick={() => onChange(!value)}
+      className={`w-full py-1.5 rounded-md text-xs font-medium ${
+        value
+          ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+          : "bg-zinc-800/50 text-zinc-400 border border-zinc-800"
+      }`}
+    >
+      {label}: {value ? "On" : "Off"}
+    </button>
+  );
+}
+
+// Band traces for a convergence run: lower CI, upper CI (filled) and estimate
+function convergenceTraces(results: MCResult[], name: string, color: string, fill: string) {
+  const x = results.map((p) => p.paths);
+  return [
+    {
+      x,
+      y: results.map((p) => p.ciLow),
+      type: "scatter",
+      mode: "lines",
+      line: { width: 0 },
+      showlegend: false,
+      hoverinfo: "skip",
+    },
+    {
+      x,
+      y: results.map((p) => p.ciHigh),
+      type: "scatter",
+      mode: "lines",
+      fill: "tonexty",
+      fillcolor: fill,
+      line: { width: 0 },
+      name: `${name} 95% CI`,
+      hoverinfo: "skip",
+    },
+    {
+      x,
+      y: results.map((p) => p.price),
+      type: "scatter",
+      mode: "lines+markers",
+      name,
+      line: { color, width: 2 },
+      marker: { size: 4 },
+    },
+  ];
+}
+
+export default function MonteCarloPage() {
+  const [S, setS] = useState(100);
+  const [K, setK] = useState(100);
+  const [T, setT] = useState(1);
+  const [r, setR] = useState(0.05);
+  const [sigma, setSigma] = useState(0.2);
+  const [q, setQ] = useState(0);
+  const [optionType, setOptionType] = useState<"call" | "put">("call");
+  const [paths, setPaths] = useState(20000);
+  const [steps, setSteps] = useState(1);
+  const [seed, setSeed] = useState(42);
+  const [antithetic, setAntithetic] = useState(true);
+  const [controlVariate, setControlVariate] = useState(false);
+  const [controlStrike, setControlStrike] = useState(110);
+
+  const inputs: BSInputs = useMemo(() => ({ S, K, T, r, sigma, q }), [S, K, T, r, sigma, q]);
+
+  const closedForm = useMemo(() => {
+    const bs = blackScholes(inputs);
+    return optionType === "call" ? bs.callPrice : bs.putPrice;
+  }, [inputs, optionType]);
+
+  const { plain, reduced } = useMemo(() => {
+    const payoff: PathPayoff = (path) => {
+      const sT = path[path.length - 1];
+      return optionType === "call" ? Math.max(sT - K, 0) : Math.max(K - sT, 0);
+    };
+    const base: MCOptions = { paths, steps, seed };
+    return {
+      plain: monteCarloConvergence(inputs, payoff, base),
+      reduced: monteCarloConvergence(inputs, payoff, {
+        ...base,
+        antithetic,
+        controlVariate,
+        controlType: optionType,
+        controlStrike,
+      }),
+    };
+  }, [inputs, K, optionType, paths, steps, seed, antithetic, controlVariate, controlStrike]);
+
+  const samplePaths = useMemo(
+    () => simulatePaths(inputs, Math.max(steps, 50), 20, seed),
+    [inputs, steps, seed]
+  );
+
+  const final = reduced[reduced.length - 1];
+  const finalPlain = plain[plain.length - 1];
+  const varianceReduction =
+    final.stdError > 0 ? (finalPlain.stdError / final.stdError) ** 2 : Infinity;
+  const hasReduction = antithetic || controlVariate;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 py-8">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-zinc-100 mb-2">
+          Monte Carlo Pricing
+        </h1>
+        <p className="text-sm text-zinc-400">
+          Simulate risk-neutral GBM paths with a seeded generator and watch the
+          estimate and its confidence interval narrow toward the closed-form price.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Controls */}
+        <div className="lg:col-span-1 space-y-4">
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-3">
+            <h2 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+              Simulation
+            </h2>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setOptionType("call")}
+                className={`flex-1 py-1.5 rounded-md text-xs font-medium ${
+                  optionType === "call"
+                    ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+                    : "bg-zinc-800/50 text-zinc-400 border border-zinc-800"
+                }`}
+              >
+                Call
+              </button>
+              <button
+                onClick={() => setOptionType("put")}
+                className={`flex-1 py-1.5 rounded-md text-xs font-medium ${
+                  optionType === "put"
+                    ? "bg-rose-500/15 text-rose-400 border border-rose-500/30"
+                    : "bg-zinc-800/50 text-zinc-400 border border-zinc-800"
+                }`}
+              >
+                Put
+              </button>
+            </div>
+            <Slider label="Paths" value={paths} min={1000} max={50000} step={1000} onChange={setPaths} />
+            <Slider label="Time Steps" value={steps} min={1} max={52} step={1} onChange={setSteps} />
+            <Slider label="Seed" value={seed} min={1} max={1000} step={1} onChange={setSeed} />
+            <Toggle label="Antithetic" value={antithetic} onChange={setAntithetic} />
+            <Toggle label="Control Variate" value={controlVariate} onChange={setControlVariate} />
+            {controlVariate && (
+              <>
+                <Slider label="Control Strike" value={controlStrike} min={1} max={300} step={1} onChange={setControlStrike} displayValue={`$${controlStrike}`} />
+                <p className="text-[11px] text-zinc-500">
+                  The control is a vanilla {optionType} at this strike, priced by
+                  Black-Scholes. At the option&apos;s own strike it reproduces the
+                  closed form exactly.
+                </p>
+              </>
+            )}
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-4">
+            <h2 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+              Parameters
+            </h2>
+            <Slider label="Spot (S)" value={S} min={1} max={300} step={1} onChange={setS} displayValue={`$${S}`} />
+            <Slider label="Strike (K)" value={K} min={1} max={300} step={1} onChange={setK} displayValue={`$${K}`} />
+            <Slider label="Time (T)" value={T} min={0.05} max={3} step={0.05} onChange={setT} unit=" yr" />
+            <Slider label="Rate (r)" value={r} min={0} max={0.15} step={0.005} onChange={setR} displayValue={`${(r * 100).toFixed(1)}%`} />
+            <Slider label="Vol (σ)" value={sigma} min={0.05} max={1.0} step={0.01} onChange={setSigma} displayValue={`${(sigma * 100).toFixed(0)}%`} />
+            <Slider label="Div Yield (q)" value={q} min={0} max={0.1} step={0.005} onChange={setQ} displayValue={`${(q * 100).toFixed(1)}%`} />
+          </div>
+
+          {/* Result */}
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-3">
+            <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+              Estimate
+            </h3>
+            {[
+              { label: "Monte Carlo", value: final.price.toFixed(4) },
+              { label: "Std Error", value: final.stdError.toFixed(5) },
+              { label: "95% CI", value: `[${final.ciLow.toFixed(3)}, ${final.ciHigh.toFixed(3)}]` },
+              { label: "Black-Scholes", value: closedForm.toFixed(4) },
+              {
+                label: "Variance Reduction",
+                value: hasReduction
+                  ? Number.isFinite(varianceReduction)
+                    ? `${varianceReduction.toFixed(1)}×`
+                    : "exact"
+                  : "—",
+              },
+            ].map(({ label, value }) => (
+              <div key={label} className="flex justify-between items-center">
+                <span className="text-xs text-zinc-400">{label}</span>
+                <span className="font-mono text-sm text-zinc-200">{value}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-3">
+            <div className="overflow-x-auto">
+              <KaTeX
+                math="\hat V = e^{-rT}\frac{1}{n}\sum_{i=1}^{n} \text{payoff}(S^{(i)}), \quad \text{SE} = \frac{\hat\sigma}{\sqrt{n}}"
+                display
+                className="text-zinc-300"
+              />
+            </div>
+            <p className="text-xs text-zinc-500 leading-relaxed">
+              The standard error falls as <KaTeX math="1/\sqrt{n}" />: four times
+              the paths halve the interval. Variance reduction shrinks{" "}
+              <KaTeX math="\hat\sigma" /> instead.
+            </p>
+          </div>
+        </div>
+
+        {/* Charts */}
+        <div className="lg:col-span-3 space-y-6">
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4">
+            <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-2">
+              Convergence to Closed Form
+            </h3>
+            <div className="h-[400px]">
+              <PlotlyChart
+                data={[
+                  ...convergenceTraces(plain, "Plain MC", "#a1a1aa", "rgba(161,161,170,0.15)"),
+                  ...(hasReduction
+                    ? convergenceTraces(reduced, "Variance-reduced", "#34d399", "rgba(52,211,153,0.2)")
+                    : []),
+                  {
+                    x: [plain[0].paths, finalPlain.paths],
+                    y: [closedForm, closedForm],
+                    type: "scatter",
+                    mode: "lines",
+                    name: "Black-Scholes",
+                    line: { color: "#f59e0b", width: 1.5, dash: "dash" },
+                  },
+                ]}
+                layout={{
+                  xaxis: { title: "Paths", type: "log" },
+                  yaxis: { title: "Price ($)" },
+                  showlegend: true,
+                  legend: { x: 0.99, y: 0.99, xanchor: "right", bgcolor: "transparent", font: { color: "#a1a1aa" } },
+                }}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4">
+              <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-2">
+                Standard Error
+              </h3>
+              <div className="h-[300px]">
+                <PlotlyChart
+                  data={[
+                    {
+                      x: plain.map((p) => p.paths),
+                      y: plain.map((p) => p.stdError),
+                      type: "scatter",
+                      mode: "lines",
+                      name: "Plain MC",
+                      line: { color: "#a1a1aa", width: 2 },
+                    },
+                    ...(hasReduction
+                      ? [
+                          {
+                            x: reduced.map((p) => p.paths),
+                            y: reduced.map((p) => p.stdError),
+                            type: "scatter",
+                            mode: "lines",
+                            name: "Variance-reduced",
+                            line: { color: "#34d399", width: 2 },
+                          },
+                        ]
+                      : []),
+                  ]}
+                  layout={{
+                    xaxis: { title: "Paths", type: "log" },
+                    yaxis: { title: "Std Error", type: "log" },
+                    showlegend: false,
+                  }}
+                />
+              </div>
+            </div>
+
+            <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4">
+              <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-2">
+                Sample Paths
+              </h3>
+              <div className="h-[300px]">
+                <PlotlyChart
+                  data={[
+                    ...samplePaths.map((path) => ({
+                      x: path.map((_, i) => (i / (path.length - 1)) * T),
+                      y: path,
+                      type: "scatter",
+                      mode: "lines",
+                      line: { width: 1 },
+                      opacity: 0.6,
+                      showlegend: false,
+                      hoverinfo: "skip",
+                    })),
+                    {
+                      x: [0, T],
+                      y: [K, K],
+                      type: "scatter",
+                      mode: "lines",
+                      line: { color: "#f59e0b", width: 1.5, dash: "dash" },
+                      showlegend: false,
+                    },
+                  ]}
+                  layout={{
+                    xaxis: { title: "Time (years)" },
+                    yaxis: { title: "Spot ($)" },
+                  }}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,507 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import Slider from "@/components/Slider";
+import KaTeX from "@/components/KaTeX";
+import PlotlyChart from "@/components/PlotlyChart";
+import {
+  inverseNormCDF,
+  normCDF,
+  normCDFAbramowitzStegun,
+  normCDFBaseline,
+} from "@/lib/black-scholes";
+import {
+  adGreeksCheck,
+  compareCDFs,
+  inverseRoundTrip,
+  maxError,
+  normCDFReference,
+} from "@/lib/numerics";
+
+// Exact zeros cannot be drawn on a log axis; errors are floored here
+const ERROR_FLOOR = 1e-18;
+const TAIL_POINTS = [-1, -3, -5, -8, -10, -20, -30];
+const PROBABILITIES = [0.5, 0.1, 0.01, 1e-4, 1e-8, 1e-16, 1e-100, 1e-300];
+
+const floored = (errors: number[]) => errors.map((e) => Math.max(e, ERROR_FLOOR));
+const sci = (value: number) => (value === 0 ? "0" : value.toExponential(3));
+
+export default function NumericsPage() {
+  const [lower, setLower] = useState(-12);
+  const [upper, setUpper] = useState(6);
+  const [refine, setRefine] = useState(true);
+
+  // Automatic differentiation check
+  const [S, setS] = useState(100);
+  const [K, setK] = useState(100);
+  const [T, setT] = useState(0.5);
+  const [r, setR] = useState(0.05);
+  const [sigma, setSigma] = useState(0.25);
+  const [q, setQ] = useState(0);
+  const [optionType, setOptionType] = useState<"call" | "put">("call");
+
+  const greekCheck = useMemo(
+    () => adGreeksCheck({ S, K, T, r, sigma, q }, optionType),
+    [S, K, T, r, sigma, q, optionType]
+  );
+
+  const report = useMemo(() => {
+    const n = 600;
+    const xs = Array.from({ length: n + 1 }, (_, i) => lower + ((upper - lower) * i) / n);
+    return { xs, ...compareCDFs(xs) };
+  }, [lower, upper]);
+
+  const roundTrip = useMemo(() => {
+    // Probabilities from 1e-300 to 1/2, mirrored into the upper tail
+    const exponents = Array.from({ length: 301 }, (_, i) => -300 + i * (300 - Math.log10(2)) / 300);
+    const ps = exponents.map((e) => Math.pow(10, e));
+    return {
+      exponents,
+      lowerTail: inverseRoundTrip(ps, refine),
+      upperTail: inverseRoundTrip(
+        ps.filter((p) => p > 1e-16).map((p) => 1 - p),
+        refine
+      ),
+    };
+  }, [refine]);
+
+  const tailTable = useMemo(
+    () =>
+      TAIL_POINTS.map((x) => {
+        const reference = normCDFReference(x);
+        const current = normCDF(x);
+        const abramowitzStegun = normCDFAbramowitzStegun(x);
+        const baseline = normCDFBaseline(x);
+        return {
+          x,
+          reference,
+          current,
+          abramowitzStegun,
+          currentRel: Math.abs(current - reference) / reference,
+          abramowitzStegunRel: Math.abs(abramowitzStegun - reference) / reference,
+          baselineRel: Math.abs(baseline - reference) / reference,
+        };
+      }),
+    []
+  );
+
+  const inverseTable = useMemo(
+    () =>
+      PROBABILITIES.map((p) => ({
+        p,
+        x: inverseNormCDF(p),
+        raw: inverseNormCDF(p, false),
+        error: inverseRoundTrip([p])[0].relError,
+      })),
+    []
+  );
+
+  const summary = [
+    { label: "Cody max abs error", value: sci(maxError(report.current, "absError")) },
+    { label: "Cody max rel error", value: sci(maxError(report.current)) },
+    { label: "A&S max abs error", value: sci(maxError(report.abramowitzStegun, "absError")) },
+    { label: "A&S max rel error", value: sci(maxError(report.abramowitzStegun)) },
+    { label: "Previous max abs error", value: sci(maxError(report.baseline, "absError")) },
+    {
+      label: `Inverse max rel error${refine ? "" : " (raw)"}`,
+      value: sci(maxError([...roundTrip.lowerTail, ...roundTrip.upperTail])),
+    },
+  ];
+
+  const errorLayout = (title: string) => ({
+    xaxis: { title: "x" },
+    yaxis: { title, type: "log" as const, exponentformat: "power" as const },
+    showlegend: true,
+    legend: { x: 0.01, y: 0.99, bgcolor: "transparent", font: { color: "#a1a1aa" } },
+  });
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 py-8">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-zinc-100 mb-2">
+          Numerical Accuracy
+        </h1>
+        <p className="text-sm text-zinc-400">
+          The cumulative normal underlies every price in this lab. Cody&apos;s
+          double-precision algorithm, a corrected Abramowitz &amp; Stegun
+          approximation and the previous, incorrect implementation are
+          measured against an independent series and continued-fraction
+          reference, and the inverse CDF is checked by round trip.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Controls */}
+        <div className="lg:col-span-1 space-y-4">
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-4">
+            <h2 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+              Range
+            </h2>
+            <Slider label="Lower x" value={lower} min={-38} max={-1} step={1} onChange={setLower} displayValue={`${lower}`} />
+            <Slider label="Upper x" value={upper} min={1} max={9} step={1} onChange={setUpper} displayValue={`${upper}`} />
+            <div className="flex gap-2">
+              <button
+                onClick={() => setRefine(true)}
+                className={`flex-1 py-1.5 rounded-md text-xs font-medium ${
+                  refine
+                    ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+                    : "bg-zinc-800/50 text-zinc-400 border border-zinc-800"
+                }`}
+              >
+                Halley step
+              </button>
+              <button
+                onClick={() => setRefine(false)}
+                className={`flex-1 py-1.5 rounded-md text-xs font-medium ${
+                  !refine
+                    ? "bg-rose-500/15 text-rose-400 border border-rose-500/30"
+                    : "bg-zinc-800/50 text-zinc-400 border border-zinc-800"
+                }`}
+              >
+                Acklam only
+              </button>
+            </div>
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-3">
+            <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+              Worst Case
+            </h3>
+            {summary.map(({ label, value }) => (
+              <div key={label} className="flex justify-between items-center">
+                <span className="text-xs text-zinc-400">{label}</span>
+                <span className="font-mono text-sm text-zinc-200">{value}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-3">
+            <div className="overflow-x-auto">
+              <KaTeX
+                math="\Phi(-x) = \frac{\phi(x)}{x + \cfrac{1}{x + \cfrac{2}{x + \cdots}}}"
+                display
+                className="text-zinc-300"
+              />
+            </div>
+            <p className="text-xs text-zinc-500 leading-relaxed">
+              A formula for Φ(x) with small absolute error can still be useless
+              in the tail: at x = −8 the probability is 6e−16, below the
+              approximation&apos;s error. Cody evaluates the tail Φ(−|x|), the
+              erfc side, directly and never forms 1 − Φ, so the relative error
+              stays near machine precision until underflow around x = −38.
+            </p>
+            <p className="text-xs text-zinc-500 leading-relaxed">
+              The previous <code>normCDF</code> was wrong: it evaluated the
+              A&amp;S erf polynomial at |x| instead of |x|/√2, giving
+              Φ(1) = 0.870 instead of 0.841 and an absolute error of up to
+              3.7e−2 near x = 0.57. Every price and Greek computed before the
+              fix moves once it is corrected. The corrected A&amp;S series shows
+              what the approximation should have delivered.
+            </p>
+            <p className="text-xs text-zinc-500 leading-relaxed">
+              The reference is accurate to about 1e−15 near zero and 1e−13 past
+              |x| = 30, so smaller errors show as that floor. Errors of exactly
+              zero are drawn at {ERROR_FLOOR.toExponential(0)}.
+            </p>
+          </div>
+        </div>
+
+        {/* Charts */}
+        <div className="lg:col-span-3 space-y-6">
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4">
+            <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-2">
+              Absolute Error |Φ̂(x) − Φ(x)|
+            </h3>
+            <div className="h-[320px]">
+              <PlotlyChart
+                data={[
+                  {
+                    x: report.xs,
+                    y: floored(report.baseline.map((point) => point.absError)),
+                    type: "scatter",
+                    mode: "lines",
+                    name: "Previous normCDF",
+                    line: { color: "#f59e0b", width: 1.5, dash: "dot" },
+                  },
+                  {
+                    x: report.xs,
+                    y: floored(report.abramowitzStegun.map((point) => point.absError)),
+                    type: "scatter",
+                    mode: "lines",
+                    name: "A&S 7.1.26 (corrected)",
+                    line: { color: "#f43f5e", width: 1.5 },
+                  },
+                  {
+                    x: report.xs,
+                    y: floored(report.current.map((point) => point.absError)),
+                    type: "scatter",
+                    mode: "lines",
+                    name: "Cody (TOMS 715)",
+                    line: { color: "#34d399", width: 1.5 },
+                  },
+                ]}
+                layout={errorLayout("Absolute error")}
+              />
+            </div>
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4">
+            <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-2">
+              Relative Error |Φ̂(x) − Φ(x)| / Φ(x)
+            </h3>
+            <div className="h-[320px]">
+              <PlotlyChart
+                data={[
+                  {
+                    x: report.xs,
+                    y: floored(report.baseline.map((point) => point.relError)),
+                    type: "scatter",
+                    mode: "lines",
+                    name: "Previous normCDF",
+                    line: { color: "#f59e0b", width: 1.5, dash: "dot" },
+                  },
+                  {
+                    x: report.xs,
+                    y: floored(report.abramowitzStegun.map((point) => point.relError)),
+                    type: "scatter",
+                    mode: "lines",
+                    name: "A&S 7.1.26 (corrected)",
+                    line: { color: "#f43f5e", width: 1.5 },
+                  },
+                  {
+                    x: report.xs,
+                    y: floored(report.current.map((point) => point.relError)),
+                    type: "scatter",
+                    mode: "lines",
+                    name: "Cody (TOMS 715)",
+                    line: { color: "#34d399", width: 1.5 },
+                  },
+                ]}
+                layout={errorLayout("Relative error")}
+              />
+            </div>
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4">
+            <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-2">
+              Inverse CDF Round Trip |Φ(Φ⁻¹(p)) − p| / p
+            </h3>
+            <div className="h-[320px]">
+              <PlotlyChart
+                data={[
+                  {
+                    x: roundTrip.exponents,
+                    y: floored(roundTrip.lowerTail.map((point) => point.relError)),
+                    type: "scatter",
+                    mode: "lines",
+                    name: "Lower tail p",
+                    line: { color: "#34d399", width: 1.5 },
+                  },
+                  {
+                    x: roundTrip.exponents.slice(roundTrip.exponents.length - roundTrip.upperTail.length),
+                    y: floored(roundTrip.upperTail.map((point) => point.relError)),
+                    type: "scatter",
+                    mode: "lines",
+                    name: "Upper tail 1 − p",
+                    line: { color: "#f59e0b", width: 1.5, dash: "dot" },
+                  },
+                ]}
+                layout={{
+                  ...errorLayout("Relative error on the tail mass"),
+                  xaxis: { title: "log₁₀ of tail probability" },
+                }}
+              />
+            </div>
+            <p className="text-xs text-zinc-500 mt-2 leading-relaxed">
+              Acklam&apos;s rational approximation alone has a relative error of
+              about 1e−9 in x, which the steep tail magnifies to 1e−6 in p; one
+              Halley step on Φ(x) − p takes it to the accuracy of Φ itself.
+              Upper-tail probabilities stop at 1 − 1e−16, where 1 − p is no
+              longer representable.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4">
+              <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-3">
+                Tail Values Φ(x)
+              </h3>
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs font-mono">
+                  <thead>
+                    <tr className="text-zinc-500 border-b border-zinc-800">
+                      <th className="text-left py-1.5 font-medium">x</th>
+                      <th className="text-right py-1.5 font-medium">Reference</th>
+                      <th className="text-right py-1.5 font-medium">Cody rel.</th>
+                      <th className="text-right py-1.5 font-medium">A&amp;S</th>
+                      <th className="text-right py-1.5 font-medium">A&amp;S rel.</th>
+                      <th className="text-right py-1.5 font-medium">Prev. rel.</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {tailTable.map((row) => (
+                      <tr key={row.x} className="border-b border-zinc-800/50 text-zinc-300">
+                        <td className="py-1.5">{row.x}</td>
+                        <td className="text-right">{sci(row.reference)}</td>
+                        <td className="text-right text-emerald-400">{sci(row.currentRel)}</td>
+                        <td className="text-right">{sci(row.abramowitzStegun)}</td>
+                        <td
+                          className={`text-right ${
+                            row.abramowitzStegunRel > 1e-6 ? "text-amber-400" : ""
+                          }`}
+                        >
+                          {sci(row.abramowitzStegunRel)}
+                        </td>
+                        <td className="text-right text-rose-400">{sci(row.baselineRel)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4">
+              <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-3">
+                Quantiles Φ⁻¹(p)
+              </h3>
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs font-mono">
+                  <thead>
+                    <tr className="text-zinc-500 border-b border-zinc-800">
+                      <th className="text-left py-1.5 font-medium">p</th>
+                      <th className="text-right py-1.5 font-medium">Φ⁻¹(p)</th>
+                      <th className="text-right py-1.5 font-medium">Acklam only</th>
+                      <th className="text-right py-1.5 font-medium">Round-trip rel.</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {inverseTable.map(({ p, x, raw, error }) => (
+                      <tr key={p} className="border-b border-zinc-800/50 text-zinc-300">
+                        <td className="py-1.5">{p >= 0.01 ? p : p.toExponential(0)}</td>
+                        <td className="text-right">{x.toFixed(10)}</td>
+                        <td className="text-right">{raw.toFixed(10)}</td>
+                        <td className="text-right text-emerald-400">{sci(error)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Automatic Differentiation Section */}
+      <div className="border-t border-zinc-800 pt-8 mt-10 mb-6">
+        <h2 className="text-xl font-bold text-zinc-100 mb-2">
+          Automatic Differentiation
+        </h2>
+        <p className="text-sm text-zinc-400">
+          The Black-Scholes formula written once against hyper-dual numbers
+          gives every Greek below without a hand-derived formula or a finite
+          difference step. Both columns should agree to rounding error.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="lg:col-span-1 space-y-4">
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-4">
+            <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+              Parameters
+            </h3>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setOptionType("call")}
+                className={`flex-1 py-1.5 rounded-md text-xs font-medium ${
+                  optionType === "call"
+                    ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+                    : "bg-zinc-800/50 text-zinc-400 border border-zinc-800"
+                }`}
+              >
+                Call
+              </button>
+              <button
+                onClick={() => setOptionType("put")}
+                className={`flex-1 py-1.5 rounded-md text-xs font-medium ${
+                  optionType === "put"
+                    ? "bg-rose-500/15 text-rose-400 border border-rose-500/30"
+                    : "bg-zinc-800/50 text-zinc-400 border border-zinc-800"
+                }`}
+              >
+                Put
+              </button>
+            </div>
+            <Slider label="Spot (S)" value={S} min={1} max={300} step={1} onChange={setS} displayValue={`$${S}`} />
+            <Slider label="Strike (K)" value={K} min={1} max={300} step={1} onChange={setK} displayValue={`$${K}`} />
+            <Slider label="Time (T)" value={T} min={0.01} max={3} step={0.01} onChange={setT} unit=" yr" />
+            <Slider label="Rate (r)" value={r} min={0} max={0.15} step={0.005} onChange={setR} displayValue={`${(r * 100).toFixed(1)}%`} />
+            <Slider label="Vol (σ)" value={sigma} min={0.05} max={1.0} step={0.01} onChange={setSigma} displayValue={`${(sigma * 100).toFixed(0)}%`} />
+            <Slider label="Div Yield (q)" value={q} min={0} max={0.1} step={0.005} onChange={setQ} displayValue={`${(q * 100).toFixed(1)}%`} />
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-3">
+            <div className="overflow-x-auto">
+              <KaTeX
+                math="f(x + \varepsilon_1 + \varepsilon_2) = f + f_i\,\varepsilon_1 + f_j\,\varepsilon_2 + f_{ij}\,\varepsilon_1\varepsilon_2"
+                display
+                className="text-zinc-300"
+              />
+            </div>
+            <p className="text-xs text-zinc-500 leading-relaxed">
+              With ε₁² = ε₂² = 0, seeding input i in ε₁ and input j in ε₂
+              carries the exact first and mixed second derivatives through every
+              operation. Seeding spot twice gives delta and gamma, vol twice
+              vega and volga, and spot with vol gives vanna.
+            </p>
+          </div>
+        </div>
+
+        <div className="lg:col-span-3">
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4">
+            <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-3">
+              Analytic vs Hyper-Dual Greeks
+            </h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs font-mono">
+                <thead>
+                  <tr className="text-zinc-500 border-b border-zinc-800">
+                    <th className="text-left py-1.5 font-medium">Greek</th>
+                    <th className="text-right py-1.5 font-medium">Analytic</th>
+                    <th className="text-right py-1.5 font-medium">Hyper-Dual AD</th>
+                    <th className="text-right py-1.5 font-medium">Abs. Diff.</th>
+                    <th className="text-right py-1.5 font-medium">Rel. Diff.</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {greekCheck.map(({ name, analytic, computed, absError, relError }) => (
+                    <tr key={name} className="border-b border-zinc-800/50 text-zinc-300">
+                      <td className="py-1.5 capitalize">{name}</td>
+                      <td className="text-right">{analytic.toFixed(8)}</td>
+                      <td className="text-right">{computed.toFixed(8)}</td>
+                      <td className="text-right">{sci(absError)}</td>
+                      <td
+                        className={`text-right ${
+                          relError > 1e-8 && absError > 1e-12 ? "text-amber-400" : "text-emerald-400"
+                        }`}
+                      >
+                        {sci(relError)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-zinc-500 mt-2 leading-relaxed">
+              Units follow the Greeks page: theta per calendar day, vega, rho and
+              psi per 1%, vanna per 1% of vol and volga per 1% of vol squared.
+              A difference above 1e−8 relative and 1e−12 absolute (amber) would
+              point to an error in one of the two derivations. Far out of the
+              money both sides are exponentially small and only agree to a few
+              digits, because exp(−d²/2) magnifies rounding in d.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,25 @@
 import { useState, useMemo } from "react";
 import Slider from "@/components/Slider";
 import KaTeX from "@/components/KaTeX";
-import { blackScholes, allGreeks, type BSInputs } from "@/lib/black-scholes";
+import UnderlyingToggle from "@/components/UnderlyingToggle";
+import {
+  blackScholes,
+  allGreeks,
+  black76,
+  black76Greeks,
+  garmanKohlhagen,
+  gkGreeks,
+  gkPremium,
+  gkDeltas,
+  escrowedInputs,
+  lognormalDomainError,
+  type BSInputs,
+  type DividendSchedule,
+  type FXPremiumConvention,
+  type GKInputs,
+  type Underlying,
+} from "@/lib/black-scholes";
+import { binomialTree } from "@/lib/binomial";
 
 function ResultCard({
   label,
@@ -40,27 +58,163 @@ function GreekBadge({
         <span className="text-xs text-zinc-400">{label}</span>
       </div>
       <span className="font-mono text-sm text-zinc-200">
-        {value.toFixed(4)}
+        {isFinite(value) ? value.toFixed(4) : "N/A"}
       </span>
     </div>
   );
 }
 
+function DividendField({
+  value,
+  step,
+  onChange,
+}: {
+  value: number;
+  step: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <input
+      type="number"
+      value={value}
+      min={0}
+      step={step}
+      onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+      className="w-full rounded-md border border-zinc-700 bg-zinc-800/60 px-2 py-1 font-mono text-xs text-zinc-200 focus:border-emerald-500/50 focus:outline-none"
+    />
+  );
+}
+
+const premiumConventions: { id: FXPremiumConvention; label: string }[] = [
+  { id: "domestic-pips", label: "Dom pips" },
+  { id: "foreign-pips", label: "For pips" },
+  { id: "percent-foreign", label: "% For" },
+  { id: "percent-domestic", label: "% Dom" },
+];
+
 export default function CalculatorPage() {
   const [S, setS] = useState(100);
   const [K, setK] = useState(100);
   const [T, setT] = useState(0.5);
   const [r, setR] = useState(0.05);
   const [sigma, setSigma] = useState(0.2);
+  const [q, setQ] = useState(0);
+  const [shift, setShift] = useState(0);
+  const [treeSteps, setTreeSteps] = useState(200);
+  const [dividends, setDividends] = useState<DividendSchedule>([]);
+  const [underlying, setUnderlying] = useState<Underlying>("spot");
+  const [premiumConvention, setPremiumConvention] =
+    useState<FXPremiumConvention>("percent-foreign");
+  const isFuture = underlying === "future";
+  const isFX = underlying === "fx";
+
+  // FX rates live on a different scale, so switching in or out resets S and K
+  const changeUnderlying = (u: Underlying) => {
+    if ((u === "fx") !== isFX) {
+      const level = u === "fx" ? 1.1 : 100;
+      setS(level);
+      setK(level);
+    }
+    setUnderlying(u);
+  };
+  const formatPrice = (v: number) =>
+    !isFinite(v) ? "N/A" : isFX ? v.toFixed(5) : `$${v.toFixed(4)}`;
+  const formatLevel = (v: number) => (isFX ? v.toFixed(4) : `$${v.toFixed(2)}`);
 
+  const isSpot = underlying === "spot";
+
+  // The displacement only applies to the spot (Black-Scholes-Merton) model
   const inputs: BSInputs = useMemo(
-    () => ({ S, K, T, r, sigma }),
-    [S, K, T, r, sigma]
+    () => ({ S, K, T, r, sigma, q, shift: isSpot ? shift : 0 }),
+    [S, K, T, r, sigma, q, shift, isSpot]
+  );
+  const domainError = isSpot
+    ? lognormalDomainError(escrowedInputs(inputs, dividends))
+    : null;
+  // Negative spots and strikes only make sense once a shift is set
+  const levelMin = isFX ? 0.5 : isSpot && shift > 0 ? -50 : 1;
+
+  // In FX mode r is the domestic rate and q the foreign rate
+  const gkInputs: GKInputs = useMemo(
+    () => ({ S, K, T, rd: r, rf: q, sigma }),
+    [S, K, T, r, q, sigma]
+  );
+
+  // In futures mode the S slider holds the futures price F
+  const result = useMemo(
+    () =>
+      isFuture
+        ? black76({ F: S, K, T, r, sigma })
+        : isFX
+        ? garmanKohlhagen(gkInputs)
+        : blackScholes(inputs, dividends),
+    [isFuture, isFX, inputs, gkInputs, dividends, S, K, T, r, sigma]
+  );
+  const callGreeks = useMemo(
+    () =>
+      isFuture
+        ? black76Greeks({ F: S, K, T, r, sigma }, "call")
+        : isFX
+        ? gkGreeks(gkInputs, "call")
+        : allGreeks(inputs, "call", dividends),
+    [isFuture, isFX, inputs, gkInputs, dividends, S, K, T, r, sigma]
+  );
+  const putGreeks = useMemo(
+    () =>
+      isFuture
+        ? black76Greeks({ F: S, K, T, r, sigma }, "put")
+        : isFX
+        ? gkGreeks(gkInputs, "put")
+        : allGreeks(inputs, "put", dividends),
+    [isFuture, isFX, inputs, gkInputs, dividends, S, K, T, r, sigma]
+  );
+  // American vs European on the CRR tree (spot model, escrowed for dividends)
+  const showTree = isSpot && shift === 0;
+  const treeResults = useMemo(() => {
+    if (!showTree) return null;
+    const treeInputs = escrowedInputs(inputs, dividends);
+    return {
+      call: {
+        european: binomialTree(treeInputs, "call", "european", treeSteps),
+        american: binomialTree(treeInputs, "call", "american", treeSteps),
+      },
+      put: {
+        european: binomialTree(treeInputs, "put", "european", treeSteps),
+        american: binomialTree(treeInputs, "put", "american", treeSteps),
+      },
+    };
+  }, [showTree, inputs, dividends, treeSteps]);
+
+  const fxDeltas = useMemo(
+    () => ({ call: gkDeltas(gkInputs, "call"), put: gkDeltas(gkInputs, "put") }),
+    [gkInputs]
   );
 
-  const result = useMemo(() => blackScholes(inputs), [inputs]);
-  const callGreeks = useMemo(() => allGreeks(inputs, "call"), [inputs]);
-  const putGreeks = useMemo(() => allGreeks(inputs, "put"), [inputs]);
+  // Price impact of each dividend: full schedule vs. schedule without it
+  const dividendImpacts = useMemo(
+    () =>
+      dividends.map((_, idx) => {
+        const without = blackScholes(
+          inputs,
+          dividends.filter((__, j) => j !== idx)
+        );
+        return {
+          call: result.callPrice - without.callPrice,
+          put: result.putPrice - without.putPrice,
+        };
+      }),
+    [inputs, dividends, result]
+  );
+
+  const escrowedS = isFX ? S : escrowedInputs(inputs, dividends).S;
+  const parityRHS = isFuture
+    ? (S - K) * Math.exp(-r * T)
+    : escrowedS * Math.exp(-q * T) - K * Math.exp(-r * T);
+
+  const updateDividend = (idx: number, field: "amount" | "time", value: number) =>
+    setDividends((prev) =>
+      prev.map((d, j) => (j === idx ? { ...d, [field]: value } : d))
+    );
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 py-8">
@@ -70,37 +224,43 @@ export default function CalculatorPage() {
           Black-Scholes Calculator
         </h1>
         <p className="text-sm text-zinc-400">
-          European option pricing using the Black-Scholes-Merton model.
+          European option pricing using the Black-Scholes-Merton model,
+          Black-76 for options on futures, or Garman-Kohlhagen for FX options.
           Adjust parameters with the sliders below.
         </p>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Input Panel */}
-        <div className="lg:col-span-1">
+        <div className="lg:col-span-1 space-y-6">
           <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-5 space-y-5">
             <h2 className="text-sm font-semibold text-zinc-300 uppercase tracking-wider">
               Parameters
             </h2>
+            <UnderlyingToggle
+              value={underlying}
+              onChange={changeUnderlying}
+              options={["spot", "future", "fx"]}
+            />
             <Slider
-              label="Spot Price (S)"
+              label={isFuture ? "Futures Price (F)" : isFX ? "FX Spot (S)" : "Spot Price (S)"}
               value={S}
-              min={1}
-              max={300}
-              step={0.5}
+              min={levelMin}
+              max={isFX ? 2 : 300}
+              step={isFX ? 0.0005 : 0.5}
               onChange={setS}
               unit=""
-              displayValue={`$${S.toFixed(2)}`}
+              displayValue={formatLevel(S)}
             />
             <Slider
               label="Strike Price (K)"
               value={K}
-              min={1}
-              max={300}
-              step={0.5}
+              min={levelMin}
+              max={isFX ? 2 : 300}
+              step={isFX ? 0.0005 : 0.5}
               onChange={setK}
               unit=""
-              displayValue={`$${K.toFixed(2)}`}
+              displayValue={formatLevel(K)}
             />
             <Slider
               label="Time to Expiry (T)"
@@ -112,7 +272,7 @@ export default function CalculatorPage() {
               unit=" yr"
             />
             <Slider
-              label="Risk-Free Rate (r)"
+              label={isFX ? "Domestic Rate (r_d)" : "Risk-Free Rate (r)"}
               value={r}
               min={0}
               max={0.15}
@@ -131,6 +291,30 @@ export default function CalculatorPage() {
               unit=""
               displayValue={`${(sigma * 100).toFixed(1)}%`}
             />
+            {!isFuture && (
+              <Slider
+                label={isFX ? "Foreign Rate (r_f)" : "Dividend Yield (q)"}
+                value={q}
+                min={0}
+                max={isFX ? 0.15 : 0.1}
+                step={0.001}
+                onChange={setQ}
+                unit=""
+                displayValue={`${(q * 100).toFixed(1)}%`}
+              />
+            )}
+            {isSpot && (
+              <Slider
+                label="Displacement (shift)"
+                value={shift}
+                min={0}
+                max={100}
+                step={0.5}
+                onChange={setShift}
+                unit=""
+                displayValue={shift.toFixed(1)}
+              />
+            )}
 
             {/* d1 / d2 display */}
             <div className="pt-3 border-t border-zinc-800 space-y-2">
@@ -148,44 +332,204 @@ export default function CalculatorPage() {
               </div>
             </div>
           </div>
+
+          {/* Cash Dividends */}
+          {underlying === "spot" && (
+            <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-5 space-y-3">
+              <div className="flex items-center justify-between">
+                <h2 className="text-sm font-semibold text-zinc-300 uppercase tracking-wider">
+                  Cash Dividends
+                </h2>
+                <button
+                  onClick={() =>
+                    setDividends((prev) => [
+                      ...prev,
+                      { amount: 1, time: Math.min(T, 0.25 * (prev.length + 1)) },
+                    ])
+                  }
+                  className="px-2.5 py-1 rounded-md text-xs font-medium bg-emerald-500/10 text-emerald-400 border border-emerald-500/20 hover:bg-emerald-500/20"
+                >
+                  + Add
+                </button>
+              </div>
+              {dividends.length === 0 ? (
+                <p className="text-xs text-zinc-500">
+                  No discrete dividends. Add one to price with the escrowed-dividend
+                  model.
+                </p>
+              ) : (
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-zinc-500">
+                      <th className="text-left font-medium pb-1.5">Amount ($)</th>
+                      <th className="text-left font-medium pb-1.5 pl-2">Ex-date (yr)</th>
+                      <th className="text-right font-medium pb-1.5 pl-2">ΔCall</th>
+                      <th className="text-right font-medium pb-1.5 pl-2">ΔPut</th>
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {dividends.map((d, idx) => (
+                      <tr key={idx} className={d.time > T || d.time <= 0 ? "opacity-50" : ""}>
+                        <td className="py-1">
+                          <DividendField
+                            value={d.amount}
+                            step={0.1}
+                            onChange={(v) => updateDividend(idx, "amount", v)}
+                          />
+                        </td>
+                        <td className="py-1 pl-2">
+                          <DividendField
+                            value={d.time}
+                            step={0.01}
+                            onChange={(v) => updateDividend(idx, "time", v)}
+                          />
+                        </td>
+                        <td className="py-1 pl-2 text-right font-mono text-emerald-400">
+                          {dividendImpacts[idx].call.toFixed(3)}
+                        </td>
+                        <td className="py-1 pl-2 text-right font-mono text-rose-400">
+                          {dividendImpacts[idx].put.toFixed(3)}
+                        </td>
+                        <td className="py-1 pl-2 text-right">
+                          <button
+                            onClick={() =>
+                              setDividends((prev) => prev.filter((_, j) => j !== idx))
+                            }
+                            className="text-zinc-500 hover:text-rose-400"
+                            aria-label="Remove dividend"
+                          >
+                            ×
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {dividends.length > 0 && (
+                <div className="pt-2 border-t border-zinc-800 flex justify-between text-xs">
+                  <span className="text-zinc-500">Escrowed spot</span>
+                  <span className="font-mono text-zinc-300">${escrowedS.toFixed(4)}</span>
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Results Panel */}
         <div className="lg:col-span-2 space-y-6">
+          {domainError && (
+            <div className="rounded-lg border border-rose-500/30 bg-rose-500/10 px-4 py-3 text-xs text-rose-300">
+              <span className="font-semibold">Outside the lognormal domain.</span>{" "}
+              {domainError}. Increase the displacement so that the shifted
+              forward and strike are positive.
+            </div>
+          )}
+
           {/* Prices */}
           <div className="grid grid-cols-2 gap-4">
             <ResultCard
               label="Call Price"
-              value={`$${result.callPrice.toFixed(4)}`}
+              value={formatPrice(result.callPrice)}
               color="text-emerald-400"
             />
             <ResultCard
               label="Put Price"
-              value={`$${result.putPrice.toFixed(4)}`}
+              value={formatPrice(result.putPrice)}
               color="text-rose-400"
             />
           </div>
 
+          {/* FX Quoting */}
+          {isFX && (
+            <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-3">
+              <div className="flex items-center justify-between flex-wrap gap-2">
+                <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+                  FX Premium &amp; Delta Conventions
+                </h3>
+                <div className="flex gap-1">
+                  {premiumConventions.map((c) => (
+                    <button
+                      key={c.id}
+                      onClick={() => setPremiumConvention(c.id)}
+                      className={`px-2 py-1 rounded-md text-[11px] font-medium ${
+                        premiumConvention === c.id
+                          ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+                          : "bg-zinc-800/50 text-zinc-400 border border-zinc-800"
+                      }`}
+                    >
+                      {c.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-zinc-500">
+                    <th className="text-left font-medium pb-1.5" />
+                    <th className="text-right font-medium pb-1.5 text-emerald-400">Call</th>
+                    <th className="text-right font-medium pb-1.5 text-rose-400">Put</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono text-zinc-300">
+                  {[
+                    {
+                      label: "Premium",
+                      call: gkPremium(gkInputs, "call", premiumConvention),
+                      put: gkPremium(gkInputs, "put", premiumConvention),
+                    },
+                    { label: "Spot delta", call: fxDeltas.call.spot, put: fxDeltas.put.spot },
+                    { label: "Forward delta", call: fxDeltas.call.forward, put: fxDeltas.put.forward },
+                    {
+                      label: "Spot delta (PA)",
+                      call: fxDeltas.call.spotPremiumAdjusted,
+                      put: fxDeltas.put.spotPremiumAdjusted,
+                    },
+                    {
+                      label: "Forward delta (PA)",
+                      call: fxDeltas.call.forwardPremiumAdjusted,
+                      put: fxDeltas.put.forwardPremiumAdjusted,
+                    },
+                  ].map((row) => (
+                    <tr key={row.label} className="border-t border-zinc-800/60">
+                      <td className="py-1 font-sans text-zinc-500">{row.label}</td>
+                      <td className="py-1 text-right">{row.call.toFixed(5)}</td>
+                      <td className="py-1 text-right">{row.put.toFixed(5)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
           {/* Put-Call Parity Check */}
           <div className="rounded-lg border border-zinc-800 bg-zinc-900/30 p-4">
             <div className="text-xs font-medium text-zinc-500 uppercase tracking-wider mb-2">
               Put-Call Parity Verification
             </div>
             <div className="flex items-center gap-3 flex-wrap">
-              <KaTeX math="C - P = S - Ke^{-rT}" className="text-zinc-300" />
+              <KaTeX
+                math={
+                  isFuture
+                    ? "C - P = e^{-rT}(F - K)"
+                    : isFX
+                    ? "C - P = Se^{-r_fT} - Ke^{-r_dT}"
+                    : dividends.length > 0
+                    ? "C - P = (S - D)e^{-qT} - Ke^{-rT}"
+                    : "C - P = Se^{-qT} - Ke^{-rT}"
+                }
+                className="text-zinc-300"
+              />
               <span className="text-zinc-600">|</span>
               <span className="font-mono text-xs text-zinc-400">
                 LHS: {(result.callPrice - result.putPrice).toFixed(4)}
               </span>
               <span className="font-mono text-xs text-zinc-400">
-                RHS: {(S - K * Math.exp(-r * T)).toFixed(4)}
+                RHS: {parityRHS.toFixed(4)}
               </span>
               <span className="text-xs text-emerald-400/70">
-                {Math.abs(
-                  result.callPrice -
-                    result.putPrice -
-                    (S - K * Math.exp(-r * T))
-                ) < 0.001
+                {Math.abs(result.callPrice - result.putPrice - parityRHS) < 0.001
                   ? "Verified"
                   : ""}
               </span>
@@ -202,7 +546,8 @@ export default function CalculatorPage() {
               <GreekBadge label="Gamma" value={callGreeks.gamma} symbol="Γ" />
               <GreekBadge label="Theta" value={callGreeks.theta} symbol="Θ" />
               <GreekBadge label="Vega" value={callGreeks.vega} symbol="ν" />
-              <GreekBadge label="Rho" value={callGreeks.rho} symbol="ρ" />
+              <GreekBadge label={isFX ? "Rho (domestic)" : "Rho"} value={callGreeks.rho} symbol="ρ" />
+              <GreekBadge label={isFX ? "Rho (foreign)" : "Psi"} value={callGreeks.psi} symbol={isFX ? "ρf" : "ψ"} />
             </div>
             <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-2">
               <h3 className="text-xs font-semibold text-rose-400 uppercase tracking-wider mb-3">
@@ -212,29 +557,117 @@ export default function CalculatorPage() {
               <GreekBadge label="Gamma" value={putGreeks.gamma} symbol="Γ" />
               <GreekBadge label="Theta" value={putGreeks.theta} symbol="Θ" />
               <GreekBadge label="Vega" value={putGreeks.vega} symbol="ν" />
-              <GreekBadge label="Rho" value={putGreeks.rho} symbol="ρ" />
+              <GreekBadge label={isFX ? "Rho (domestic)" : "Rho"} value={putGreeks.rho} symbol="ρ" />
+              <GreekBadge label={isFX ? "Rho (foreign)" : "Psi"} value={putGreeks.psi} symbol={isFX ? "ρf" : "ψ"} />
             </div>
           </div>
 
+          {/* American vs European (CRR tree) */}
+          {treeResults && (
+            <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-3">
+              <div className="flex items-center justify-between gap-4 flex-wrap">
+                <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+                  American vs European (CRR Binomial Tree)
+                </h3>
+                <div className="w-56">
+                  <Slider
+                    label="Tree Steps"
+                    value={treeSteps}
+                    min={10}
+                    max={1000}
+                    step={10}
+                    onChange={setTreeSteps}
+                  />
+                </div>
+              </div>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-zinc-500">
+                    <th className="text-left font-medium pb-1.5" />
+                    <th className="text-right font-medium pb-1.5 text-emerald-400">Call</th>
+                    <th className="text-right font-medium pb-1.5 text-rose-400">Put</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono text-zinc-300">
+                  {[
+                    {
+                      label: "European (closed form)",
+                      call: result.callPrice,
+                      put: result.putPrice,
+                    },
+                    {
+                      label: "European (tree)",
+                      call: treeResults.call.european.price,
+                      put: treeResults.put.european.price,
+                    },
+                    {
+                      label: "American (tree)",
+                      call: treeResults.call.american.price,
+                      put: treeResults.put.american.price,
+                    },
+                    {
+                      label: "Early-exercise premium",
+                      call: treeResults.call.american.price - treeResults.call.european.price,
+                      put: treeResults.put.american.price - treeResults.put.european.price,
+                    },
+                    {
+                      label: "American Δ (tree)",
+                      call: treeResults.call.american.delta,
+                      put: treeResults.put.american.delta,
+                    },
+                    {
+                      label: "American Γ (tree)",
+                      call: treeResults.call.american.gamma,
+                      put: treeResults.put.american.gamma,
+                    },
+                    {
+                      label: "American Θ (tree)",
+                      call: treeResults.call.american.theta,
+                      put: treeResults.put.american.theta,
+                    },
+                  ].map((row) => (
+                    <tr key={row.label} className="border-t border-zinc-800/60">
+                      <td className="py-1 font-sans text-zinc-500">{row.label}</td>
+                      <td className="py-1 text-right">{row.call.toFixed(4)}</td>
+                      <td className="py-1 text-right">{row.put.toFixed(4)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
           {/* Formula Display */}
           <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-5">
             <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-4">
-              Black-Scholes Formula
+              {isFuture ? "Black-76 Formula" : "Black-Scholes Formula"}
             </h3>
             <div className="space-y-4 overflow-x-auto">
               <KaTeX
-                math="C = S\,N(d_1) - Ke^{-rT}\,N(d_2)"
+                math={
+                  isFuture
+                    ? "C = e^{-rT}\\left[F\\,N(d_1) - K\\,N(d_2)\\right]"
+                    : "C = Se^{-qT}\\,N(d_1) - Ke^{-rT}\\,N(d_2)"
+                }
                 display
                 className="text-zinc-200"
               />
               <KaTeX
-                math="P = Ke^{-rT}\,N(-d_2) - S\,N(-d_1)"
+                math={
+                  isFuture
+                    ? "P = e^{-rT}\\left[K\\,N(-d_2) - F\\,N(-d_1)\\right]"
+                    : "P = Ke^{-rT}\\,N(-d_2) - Se^{-qT}\\,N(-d_1)"
+                }
                 display
                 className="text-zinc-200"
               />
               <div className="border-t border-zinc-800 pt-4">
                 <KaTeX
-                  math="d_1 = \frac{\ln(S/K) + (r + \sigma^2/2)\,T}{\sigma\sqrt{T}}"
+                  math={
+                    isFuture
+                      ? "d_1 = \\frac{\\ln(F/K) + \\sigma^2 T/2}{\\sigma\\sqrt{T}}"
+                      : "d_1 = \\frac{\\ln(S/K) + (r - q + \\sigma^2/2)\\,T}{\\sigma\\sqrt{T}}"
+                  }
                   display
                   className="text-zinc-300"
                 />
@@ -3,6 +3,9 @@
 import { useState, useMemo } from "react";
 import Slider from "@/components/Slider";
 import PlotlyChart from "@/components/PlotlyChart";
+import UnderlyingToggle from "@/components/UnderlyingToggle";
+import ExerciseToggle from "@/components/ExerciseToggle";
+import BarrierToggle from "@/components/BarrierToggle";
 import {
   payoffCurve,
   longCall,
@@ -11,9 +14,19 @@ import {
   longStrangle,
   butterflySpread,
   ironCondor,
+  cashOrNothingCall,
+  assetOrNothingCall,
+  digitalCallSpread,
+  legPayoff,
+  legValue,
+  legGreeks,
   blackScholes,
+  delta,
   type OptionLeg,
+  type Underlying,
 } from "@/lib/black-scholes";
+import { americanPrice, type ExerciseModel } from "@/lib/american";
+import { barrierOption, barrierGreeks, type BarrierType } from "@/lib/barrier";
 
 type Strategy =
   | "long-call"
@@ -24,6 +37,9 @@ type Strategy =
   | "long-strangle"
   | "butterfly"
   | "iron-condor"
+  | "cash-or-nothing"
+  | "asset-or-nothing"
+  | "digital-spread"
   | "custom";
 
 interface StrategyInfo {
@@ -41,8 +57,16 @@ const strategies: StrategyInfo[] = [
   { id: "long-strangle", name: "Long Strangle", description: "Buy an OTM call and OTM put. Cheaper than straddle, needs larger move to profit." },
   { id: "butterfly", name: "Butterfly Spread", description: "Buy 1 low-strike call, sell 2 ATM calls, buy 1 high-strike call. Profit near the center strike." },
   { id: "iron-condor", name: "Iron Condor", description: "Sell an OTM put spread and OTM call spread. Profit if underlying stays in a range." },
+  { id: "cash-or-nothing", name: "Cash-or-Nothing Call", description: "Pays a fixed amount if the underlying finishes above the strike, nothing otherwise. Priced at Q e^{-rT} N(d2)." },
+  { id: "asset-or-nothing", name: "Asset-or-Nothing Call", description: "Delivers the underlying if it finishes above the strike. A vanilla call is this less K cash-or-nothing calls." },
+  { id: "digital-spread", name: "Call Spread vs Digital", description: "A tight call spread sized Q / width against a short cash-or-nothing call. The net payoff is the replication error, which narrows with the width." },
 ];
 
+// Digital legs stay European under either exercise style
+function isVanilla(leg: OptionLeg): boolean {
+  return (leg.style ?? "vanilla") === "vanilla";
+}
+
 function buildLegs(
   strategy: Strategy,
   S: number,
@@ -50,23 +74,25 @@ function buildLegs(
   T: number,
   r: number,
   sigma: number,
-  K2Offset: number
+  q: number,
+  K2Offset: number,
+  payout: number
 ): OptionLeg[] {
   switch (strategy) {
     case "long-call":
-      return longCall(S, K, T, r, sigma);
+      return longCall(S, K, T, r, sigma, q);
     case "long-put":
-      return longPut(S, K, T, r, sigma);
+      return longPut(S, K, T, r, sigma, q);
     case "short-call":
-      return longCall(S, K, T, r, sigma).map((l) => ({ ...l, quantity: -l.quantity }));
+      return longCall(S, K, T, r, sigma, q).map((l) => ({ ...l, quantity: -l.quantity }));
     case "short-put":
-      return longPut(S, K, T, r, sigma).map((l) => ({ ...l, quantity: -l.quantity }));
+      return longPut(S, K, T, r, sigma, q).map((l) => ({ ...l, quantity: -l.quantity }));
     case "long-straddle":
-      return longStraddle(S, K, T, r, sigma);
+      return longStraddle(S, K, T, r, sigma, q);
     case "long-strangle":
-      return longStrangle(S, K - K2Offset, K + K2Offset, T, r, sigma);
+      return longStrangle(S, K - K2Offset, K + K2Offset, T, r, sigma, q);
     case "butterfly":
-      return butterflySpread(S, K - K2Offset, K, K + K2Offset, T, r, sigma);
+      return butterflySpread(S, K - K2Offset, K, K + K2Offset, T, r, sigma, q);
     case "iron-condor":
       return ironCondor(
         S,
@@ -76,10 +102,17 @@ function buildLegs(
         K + K2Offset * 2,
         T,
         r,
-        sigma
+        sigma,
+        q
       );
+    case "cash-or-nothing":
+      return cashOrNothingCall(S, K, T, r, sigma, q, payout);
+    case "asset-or-nothing":
+      return assetOrNothingCall(S, K, T, r, sigma, q);
+    case "digital-spread":
+      return digitalCallSpread(S, K, K2Offset, T, r, sigma, q, payout);
     default:
-      return longCall(S, K, T, r, sigma);
+      return longCall(S, K, T, r, sigma, q);
   }
 }
 
@@ -89,15 +122,36 @@ export default function PayoffsPage() {
   const [T, setT] = useState(0.5);
   const [r, setR] = useState(0.05);
   const [sigma, setSigma] = useState(0.2);
+  const [q, setQ] = useState(0);
   const [strategy, setStrategy] = useState<Strategy>("long-call");
   const [K2Offset, setK2Offset] = useState(10);
+  const [payout, setPayout] = useState(10);
+  const [underlying, setUnderlying] = useState<Underlying>("spot");
+  const [exercise, setExercise] = useState<ExerciseModel>("european");
+  const [barrierType, setBarrierType] = useState<BarrierType>("down-and-out");
+  const [barrierOptionType, setBarrierOptionType] = useState<"call" | "put">("call");
+  const [barrier, setBarrier] = useState(90);
+  const [rebate, setRebate] = useState(0);
 
-  const needsOffset = ["long-strangle", "butterfly", "iron-condor"].includes(strategy);
+  // Black-76 is Black-Scholes-Merton with the yield set to the rate, so the
+  // futures mode prices every leg with q = r.
+  const carry = underlying === "future" ? r : q;
 
-  const legs = useMemo(
-    () => buildLegs(strategy, S, K, T, r, sigma, K2Offset),
-    [strategy, S, K, T, r, sigma, K2Offset]
-  );
+  const needsOffset = ["long-strangle", "butterfly", "iron-condor", "digital-spread"].includes(strategy);
+  const needsPayout = ["cash-or-nothing", "digital-spread"].includes(strategy);
+
+  const legs = useMemo(() => {
+    const european = buildLegs(strategy, S, K, T, r, sigma, carry, K2Offset, payout);
+    if (exercise === "european") return european;
+    return european.map((leg) =>
+      isVanilla(leg)
+        ? {
+            ...leg,
+            premium: americanPrice({ S, K: leg.strike, T, r, sigma, q: carry }, leg.type, exercise),
+          }
+        : leg
+    );
+  }, [strategy, S, K, T, r, sigma, carry, K2Offset, payout, exercise]);
 
   const data = useMemo(() => {
     const spotMin = K * 0.5;
@@ -105,6 +159,32 @@ export default function PayoffsPage() {
     return payoffCurve(legs, spotMin, spotMax, 300);
   }, [legs, K]);
 
+  // For the replication strategy, the call spread and the digital it
+  // approximates, as payoffs before premium
+  const replicationData = useMemo(() => {
+    if (strategy !== "digital-spread") return null;
+    const spread = legs.filter(isVanilla).map((leg) => ({ ...leg, premium: 0 }));
+    const digital = legs
+      .filter((leg) => !isVanilla(leg))
+      .map((leg) => ({ ...leg, premium: 0, quantity: -leg.quantity }));
+    return {
+      spread: payoffCurve(spread, K * 0.5, K * 1.5, 300),
+      digital: payoffCurve(digital, K * 0.5, K * 1.5, 300),
+    };
+  }, [strategy, legs, K]);
+
+  const positionGreeks = useMemo(() => {
+    const total = { delta: 0, gamma: 0, theta: 0, vega: 0 };
+    for (const leg of legs) {
+      const g = legGreeks(leg, { S, T, r, sigma, q: carry });
+      total.delta += leg.quantity * g.delta;
+      total.gamma += leg.quantity * g.gamma;
+      total.theta += leg.quantity * g.theta;
+      total.vega += leg.quantity * g.vega;
+    }
+    return total;
+  }, [legs, S, T, r, sigma, carry]);
+
   // Also compute the pre-expiry P&L for multiple times
   const preExpiryData = useMemo(() => {
     const spotMin = K * 0.5;
@@ -124,14 +204,13 @@ export default function PayoffsPage() {
 
         let totalPnl = 0;
         for (const leg of legs) {
+          const legInputs = { S: spot, K: leg.strike, T: t, r, sigma, q: carry };
           const price =
             t > 0.001
-              ? leg.type === "call"
-                ? blackScholes({ S: spot, K: leg.strike, T: t, r, sigma }).callPrice
-                : blackScholes({ S: spot, K: leg.strike, T: t, r, sigma }).putPrice
-              : leg.type === "call"
-              ? Math.max(spot - leg.strike, 0)
-              : Math.max(leg.strike - spot, 0);
+              ? exercise !== "european" && isVanilla(leg)
+                ? americanPrice(legInputs, leg.type, exercise)
+                : legValue(leg, legInputs)
+              : legPayoff(leg, spot);
           totalPnl += leg.quantity * (price - leg.premium);
         }
         pnls.push(totalPnl);
@@ -139,7 +218,33 @@ export default function PayoffsPage() {
 
       return { spots, pnls, label: labels[idx], color: colors[idx] };
     });
-  }, [legs, K, T, r, sigma]);
+  }, [legs, K, T, r, sigma, carry, exercise]);
+
+  // Barrier option value and delta against spot, next to the vanilla
+  const barrierData = useMemo(() => {
+    const spots: number[] = [];
+    const prices: number[] = [];
+    const deltas: number[] = [];
+    const vanillaPrices: number[] = [];
+    const vanillaDeltas: number[] = [];
+    for (let i = 0; i <= 300; i++) {
+      const spot = K * 0.5 + (i / 300) * K;
+      const inputs = { S: spot, K, T, r, sigma, q: carry, H: barrier, rebate };
+      const vanilla = blackScholes(inputs);
+      spots.push(spot);
+      prices.push(barrierOption(inputs, barrierOptionType, barrierType));
+      deltas.push(barrierGreeks(inputs, barrierOptionType, barrierType).delta);
+      vanillaPrices.push(barrierOptionType === "call" ? vanilla.callPrice : vanilla.putPrice);
+      vanillaDeltas.push(delta(inputs, barrierOptionType));
+    }
+    return { spots, prices, deltas, vanillaPrices, vanillaDeltas };
+  }, [K, T, r, sigma, carry, barrier, rebate, barrierType, barrierOptionType]);
+
+  const selectBarrier = (type: BarrierType | null) => {
+    if (type === null) return;
+    setBarrierType(type);
+    setBarrier(Math.round(type.startsWith("down") ? S * 0.9 : S * 1.1));
+  };
 
   const totalPremium = legs.reduce(
     (sum, leg) => sum + leg.quantity * leg.premium,
@@ -174,8 +279,9 @@ export default function PayoffsPage() {
           Payoff Diagrams
         </h1>
         <p className="text-sm text-zinc-400">
-          Visual P&L diagrams for common option strategies at expiration and
-          before expiry.
+          Visual P&L diagrams for common option strategies, digitals included,
+          at expiration and before expiry, and how a barrier option&apos;s value
+          and delta behave near the barrier.
         </p>
       </div>
 
@@ -207,14 +313,22 @@ export default function PayoffsPage() {
             <h2 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
               Parameters
             </h2>
-            <Slider label="Spot (S)" value={S} min={1} max={300} step={1} onChange={setS} displayValue={`$${S}`} />
+            <UnderlyingToggle value={underlying} onChange={setUnderlying} />
+            <ExerciseToggle value={exercise} onChange={setExercise} />
+            <Slider label={underlying === "future" ? "Future (F)" : "Spot (S)"} value={S} min={1} max={300} step={1} onChange={setS} displayValue={`$${S}`} />
             <Slider label="Strike (K)" value={K} min={1} max={300} step={1} onChange={setK} displayValue={`$${K}`} />
             {needsOffset && (
               <Slider label="Wing Width" value={K2Offset} min={2} max={30} step={1} onChange={setK2Offset} displayValue={`$${K2Offset}`} />
             )}
+            {needsPayout && (
+              <Slider label="Digital Payout (Q)" value={payout} min={1} max={50} step={1} onChange={setPayout} displayValue={`$${payout}`} />
+            )}
             <Slider label="Time (T)" value={T} min={0.05} max={2} step={0.05} onChange={setT} unit=" yr" />
             <Slider label="Rate (r)" value={r} min={0} max={0.15} step={0.005} onChange={setR} displayValue={`${(r * 100).toFixed(1)}%`} />
             <Slider label="Vol (σ)" value={sigma} min={0.05} max={1.0} step={0.01} onChange={setSigma} displayValue={`${(sigma * 100).toFixed(0)}%`} />
+            {underlying === "spot" && (
+              <Slider label="Div Yield (q)" value={q} min={0} max={0.1} step={0.005} onChange={setQ} displayValue={`${(q * 100).toFixed(1)}%`} />
+            )}
           </div>
 
           {/* Strategy Info */}
@@ -258,6 +372,22 @@ export default function PayoffsPage() {
                 </div>
               )}
             </div>
+            <div className="pt-2 border-t border-zinc-800 space-y-1.5">
+              <div className="text-[10px] text-zinc-500 uppercase tracking-wider">
+                Position Greeks{exercise !== "european" ? " (European)" : ""}
+              </div>
+              {[
+                { label: "Delta", value: positionGreeks.delta.toFixed(4) },
+                { label: "Gamma", value: positionGreeks.gamma.toFixed(4) },
+                { label: "Theta / day", value: positionGreeks.theta.toFixed(4) },
+                { label: "Vega / 1%", value: positionGreeks.vega.toFixed(4) },
+              ].map(({ label, value }) => (
+                <div key={label} className="flex justify-between text-xs">
+                  <span className="text-zinc-500">{label}</span>
+                  <span className="font-mono text-zinc-300">{value}</span>
+                </div>
+              ))}
+            </div>
             {/* Legs breakdown */}
             <div className="pt-2 border-t border-zinc-800">
               <div className="text-[10px] text-zinc-500 uppercase tracking-wider mb-1.5">
@@ -267,7 +397,9 @@ export default function PayoffsPage() {
                 <div key={idx} className="flex justify-between text-xs py-0.5">
                   <span className="text-zinc-400">
                     {leg.quantity > 0 ? "Long" : "Short"}{" "}
-                    {Math.abs(leg.quantity)}x {leg.type} @${leg.strike}
+                    {Number(Math.abs(leg.quantity).toFixed(2))}x{" "}
+                    {isVanilla(leg) ? "" : `${leg.style} `}
+                    {leg.type} @${leg.strike}
                   </span>
                   <span className="font-mono text-zinc-500">
                     ${leg.premium.toFixed(2)}
@@ -276,6 +408,38 @@ export default function PayoffsPage() {
               ))}
             </div>
           </div>
+
+          {/* Barrier option */}
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-4">
+            <h2 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+              Barrier Option
+            </h2>
+            <div className="flex gap-2">
+              {(["call", "put"] as const).map((t) => (
+                <button
+                  key={t}
+                  onClick={() => setBarrierOptionType(t)}
+                  className={`flex-1 py-1.5 rounded-md text-xs font-medium capitalize ${
+                    barrierOptionType === t
+                      ? t === "call"
+                        ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+                        : "bg-rose-500/15 text-rose-400 border border-rose-500/30"
+                      : "bg-zinc-800/50 text-zinc-400 border border-zinc-800"
+                  }`}
+                >
+                  {t}
+                </button>
+              ))}
+            </div>
+            <BarrierToggle value={barrierType} onChange={selectBarrier} />
+            <Slider label="Barrier (H)" value={barrier} min={1} max={300} step={1} onChange={setBarrier} displayValue={`$${barrier}`} />
+            <Slider label="Rebate" value={rebate} min={0} max={20} step={0.5} onChange={setRebate} displayValue={`$${rebate.toFixed(2)}`} />
+            <p className="text-[11px] text-zinc-500 leading-relaxed">
+              Continuously monitored, priced with the Reiner-Rubinstein closed
+              forms at the strike, expiry and market inputs above. Knock-in
+              rebates are paid at expiry, knock-out rebates on touch.
+            </p>
+          </div>
         </div>
 
         {/* Charts */}
@@ -319,6 +483,26 @@ export default function PayoffsPage() {
                         },
                       ]
                     : []),
+                  ...(replicationData
+                    ? [
+                        {
+                          x: replicationData.spread.map((d) => d.spot),
+                          y: replicationData.spread.map((d) => d.pnl),
+                          type: "scatter" as const,
+                          mode: "lines" as const,
+                          name: "Call spread payoff",
+                          line: { color: "#06b6d4", width: 1.5, dash: "dash" as const },
+                        },
+                        {
+                          x: replicationData.digital.map((d) => d.spot),
+                          y: replicationData.digital.map((d) => d.pnl),
+                          type: "scatter" as const,
+                          mode: "lines" as const,
+                          name: "Digital payoff",
+                          line: { color: "#a1a1aa", width: 1.5, dash: "dot" as const },
+                        },
+                      ]
+                    : []),
                 ]}
                 layout={{
                   xaxis: { title: "Spot Price at Expiry ($)" },
@@ -369,6 +553,56 @@ export default function PayoffsPage() {
               />
             </div>
           </div>
+
+          {/* Barrier value and delta */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {[
+              { title: "Barrier Price vs Spot", barrierY: barrierData.prices, vanillaY: barrierData.vanillaPrices, yTitle: "Price ($)" },
+              { title: "Barrier Delta vs Spot", barrierY: barrierData.deltas, vanillaY: barrierData.vanillaDeltas, yTitle: "Delta" },
+            ].map(({ title, barrierY, vanillaY, yTitle }) => (
+              <div key={title} className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4">
+                <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-2">
+                  {title}
+                </h3>
+                <div className="h-[300px]">
+                  <PlotlyChart
+                    data={[
+                      {
+                        x: barrierData.spots,
+                        y: barrierY,
+                        type: "scatter",
+                        mode: "lines",
+                        name: barrierType.replace(/-/g, " "),
+                        line: { color: "#34d399", width: 2.5 },
+                      },
+                      {
+                        x: barrierData.spots,
+                        y: vanillaY,
+                        type: "scatter",
+                        mode: "lines",
+                        name: "Vanilla",
+                        line: { color: "#a1a1aa", width: 1.5, dash: "dash" },
+                      },
+                      {
+                        x: [barrier, barrier],
+                        y: [Math.min(...barrierY, ...vanillaY), Math.max(...barrierY, ...vanillaY)],
+                        type: "scatter",
+                        mode: "lines",
+                        name: "Barrier",
+                        line: { color: "#f59e0b", width: 1, dash: "dot" },
+                      },
+                    ]}
+                    layout={{
+                      xaxis: { title: "Spot Price ($)" },
+                      yaxis: { title: yTitle },
+                      showlegend: true,
+                      legend: { x: 0.01, y: 0.99, bgcolor: "transparent", font: { size: 10 } },
+                    }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,334 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import Slider from "@/components/Slider";
+import KaTeX from "@/components/KaTeX";
+import PlotlyChart from "@/components/PlotlyChart";
+import { blackScholes } from "@/lib/black-scholes";
+import type { ExerciseStyle } from "@/lib/binomial";
+import { finiteDifference, type FDScheme } from "@/lib/pde";
+
+const schemes: { id: FDScheme; label: string }[] = [
+  { id: "explicit", label: "Explicit" },
+  { id: "implicit", label: "Implicit" },
+  { id: "crank-nicolson", label: "Crank-Nicolson" },
+];
+
+// Plot at most this many nodes per axis
+const MAX_PLOT_POINTS = 60;
+
+function sampleIndices(last: number): number[] {
+  const stride = Math.max(1, Math.ceil((last + 1) / MAX_PLOT_POINTS));
+  const idx: number[] = [];
+  for (let i = 0; i < last; i += stride) idx.push(i);
+  idx.push(last);
+  return idx;
+}
+
+export default function PDEPage() {
+  const [S, setS] = useState(100);
+  const [K, setK] = useState(100);
+  const [T, setT] = useState(1);
+  const [r, setR] = useState(0.05);
+  const [sigma, setSigma] = useState(0.2);
+  const [q, setQ] = useState(0);
+  const [optionType, setOptionType] = useState<"call" | "put">("put");
+  const [scheme, setScheme] = useState<FDScheme>("crank-nicolson");
+  const [exercise, setExercise] = useState<ExerciseStyle>("european");
+  const [spotSteps, setSpotSteps] = useState(100);
+  const [timeSteps, setTimeSteps] = useState(100);
+
+  const result = useMemo(
+    () =>
+      finiteDifference({ S, K, T, r, sigma, q }, optionType, scheme, exercise, spotSteps, timeSteps),
+    [S, K, T, r, sigma, q, optionType, scheme, exercise, spotSteps, timeSteps]
+  );
+
+  const closedForm = useMemo(() => {
+    const bs = blackScholes({ S, K, T, r, sigma, q });
+    return optionType === "call" ? bs.callPrice : bs.putPrice;
+  }, [S, K, T, r, sigma, q, optionType]);
+
+  const grids = useMemo(() => {
+    const { spots, times, values } = result;
+    // Show spots up to twice the larger of S and K; the rest is boundary
+    const sLimit = 2 * Math.max(S, K);
+    let lastSpot = spots.length - 1;
+    while (lastSpot > 0 && spots[lastSpot] > sLimit) lastSpot--;
+    const si = sampleIndices(lastSpot);
+    const ti = sampleIndices(times.length - 1);
+
+    const fdGrid: number[][] = [];
+    const absErr: number[][] = [];
+    const relErr: (number | null)[][] = [];
+    for (const n of ti) {
+      const fdRow: number[] = [];
+      const absRow: number[] = [];
+      const relRow: (number | null)[] = [];
+      for (const i of si) {
+        const fd = values[n][i];
+        const bs = blackScholes({ S: spots[i], K, T: T - times[n], r, sigma, q });
+        const exact = optionType === "call" ? bs.callPrice : bs.putPrice;
+        fdRow.push(fd);
+        absRow.push(fd - exact);
+        // Relative error is meaningless where the option is nearly worthless
+        relRow.push(exact > 1e-3 ? ((fd - exact) / exact) * 100 : null);
+      }
+      fdGrid.push(fdRow);
+      absErr.push(absRow);
+      relErr.push(relRow);
+    }
+
+    return {
+      spots: si.map((i) => spots[i]),
+      times: ti.map((n) => times[n]),
+      fdGrid,
+      absErr,
+      relErr,
+    };
+  }, [result, S, K, T, r, sigma, q, optionType]);
+
+  const error = result.price - closedForm;
+  const isAmerican = exercise === "american";
+  const errorLabel = isAmerican ? "FD American − BS European" : "FD − Black-Scholes";
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 py-8">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-zinc-100 mb-2">
+          Finite-Difference PDE Solver
+        </h1>
+        <p className="text-sm text-zinc-400">
+          Solve the Black-Scholes PDE numerically on an (S, t) grid and compare
+          the full solution against the closed-form price.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Controls */}
+        <div className="lg:col-span-1 space-y-4">
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-3">
+            <h2 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+              Scheme
+            </h2>
+            {schemes.map(({ id, label }) => (
+              <button
+                key={id}
+                onClick={() => setScheme(id)}
+                className={`block w-full text-left px-3 py-2 rounded-md text-xs font-medium transition-colors ${
+                  scheme === id
+                    ? "bg-zinc-800 text-zinc-200 border border-zinc-600"
+                    : "text-zinc-400 hover:text-zinc-300 hover:bg-zinc-800/50"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+            <div className="flex gap-2">
+              {(["european", "american"] as ExerciseStyle[]).map((e) => (
+                <button
+                  key={e}
+                  onClick={() => setExercise(e)}
+                  className={`flex-1 py-1.5 rounded-md text-xs font-medium capitalize ${
+                    exercise === e
+                      ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+                      : "bg-zinc-800/50 text-zinc-400 border border-zinc-800"
+                  }`}
+                >
+                  {e}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setOptionType("call")}
+                className={`flex-1 py-1.5 rounded-md text-xs font-medium ${
+                  optionType === "call"
+                    ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+                    : "bg-zinc-800/50 text-zinc-400 border border-zinc-800"
+                }`}
+              >
+                Call
+              </button>
+              <button
+                onClick={() => setOptionType("put")}
+                className={`flex-1 py-1.5 rounded-md text-xs font-medium ${
+                  optionType === "put"
+                    ? "bg-rose-500/15 text-rose-400 border border-rose-500/30"
+                    : "bg-zinc-800/50 text-zinc-400 border border-zinc-800"
+                }`}
+              >
+                Put
+              </button>
+            </div>
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-4">
+            <h2 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+              Grid
+            </h2>
+            <Slider label="Spot Steps (M)" value={spotSteps} min={20} max={400} step={10} onChange={setSpotSteps} />
+            <Slider label="Time Steps (N)" value={timeSteps} min={10} max={2000} step={10} onChange={setTimeSteps} />
+            {!result.stable && scheme === "explicit" && (
+              <p className="text-[11px] text-rose-400">
+                Explicit scheme is unstable on this grid: increase N or reduce M
+                until Δt(σ²M² + r) ≤ 1.
+              </p>
+            )}
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-4">
+            <h2 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+              Parameters
+            </h2>
+            <Slider label="Spot (S)" value={S} min={1} max={300} step={1} onChange={setS} displayValue={`$${S}`} />
+            <Slider label="Strike (K)" value={K} min={1} max={300} step={1} onChange={setK} displayValue={`$${K}`} />
+            <Slider label="Time (T)" value={T} min={0.05} max={3} step={0.05} onChange={setT} unit=" yr" />
+            <Slider label="Rate (r)" value={r} min={0} max={0.15} step={0.005} onChange={setR} displayValue={`${(r * 100).toFixed(1)}%`} />
+            <Slider label="Vol (σ)" value={sigma} min={0.05} max={1.0} step={0.01} onChange={setSigma} displayValue={`${(sigma * 100).toFixed(0)}%`} />
+            <Slider label="Div Yield (q)" value={q} min={0} max={0.1} step={0.005} onChange={setQ} displayValue={`${(q * 100).toFixed(1)}%`} />
+          </div>
+
+          {/* Comparison */}
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-3">
+            <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+              Price at S
+            </h3>
+            <div className="flex justify-between items-center">
+              <span className="text-xs text-zinc-400">Finite difference</span>
+              <span className="font-mono text-sm text-zinc-200">
+                {Number.isFinite(result.price) ? result.price.toFixed(6) : "N/A"}
+              </span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-xs text-zinc-400">Black-Scholes</span>
+              <span className="font-mono text-sm text-zinc-200">{closedForm.toFixed(6)}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-xs text-zinc-400">
+                {isAmerican ? "Early-exercise premium" : "Error"}
+              </span>
+              <span className={`font-mono text-sm ${isAmerican ? "text-emerald-400" : "text-amber-400"}`}>
+                {Number.isFinite(error) ? error.toExponential(3) : "N/A"}
+              </span>
+            </div>
+            <div className="pt-2 border-t border-zinc-800 grid grid-cols-3 gap-2 text-center">
+              {[
+                { label: "Δ", value: result.delta.toFixed(4) },
+                { label: "Γ", value: result.gamma.toFixed(5) },
+                { label: "Θ/day", value: result.theta.toFixed(4) },
+              ].map(({ label, value }) => (
+                <div key={label}>
+                  <div className="text-[10px] text-zinc-500">{label}</div>
+                  <div className="font-mono text-xs text-zinc-300">{value}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-3">
+            <div className="overflow-x-auto">
+              <KaTeX
+                math="\frac{V^{n+1}_i - V^n_i}{\Delta\tau} = \theta\, \mathcal{L} V^{n+1}_i + (1-\theta)\, \mathcal{L} V^n_i"
+                display
+                className="text-zinc-300"
+              />
+            </div>
+            <p className="text-xs text-zinc-500 leading-relaxed">
+              θ = 0 is explicit, θ = 1 fully implicit and θ = ½ Crank-Nicolson.
+              American exercise projects the solution onto the payoff after
+              each step.
+            </p>
+          </div>
+        </div>
+
+        {/* Charts */}
+        <div className="lg:col-span-3 space-y-6">
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4">
+            <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-2">
+              Solution Grid V(S, t)
+            </h3>
+            <div className="h-[500px]">
+              <PlotlyChart
+                data={[
+                  {
+                    x: grids.spots,
+                    y: grids.times,
+                    z: grids.fdGrid,
+                    type: "surface",
+                    colorscale: "Viridis",
+                    showscale: true,
+                    colorbar: { tickfont: { color: "#a1a1aa", size: 10 } },
+                  },
+                ]}
+                layout={{
+                  scene: {
+                    xaxis: { title: "Spot ($)", gridcolor: "#27272a", color: "#71717a" },
+                    yaxis: { title: "Time (years)", gridcolor: "#27272a", color: "#71717a" },
+                    zaxis: { title: "Value", gridcolor: "#27272a", color: "#71717a" },
+                    bgcolor: "transparent",
+                    camera: { eye: { x: 1.5, y: -1.5, z: 1.1 } },
+                  },
+                  margin: { t: 20, r: 20, b: 20, l: 20 },
+                }}
+                config={{ displayModeBar: true, responsive: true }}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4">
+              <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-2">
+                Absolute Error ({errorLabel})
+              </h3>
+              <div className="h-[340px]">
+                <PlotlyChart
+                  data={[
+                    {
+                      x: grids.spots,
+                      y: grids.times,
+                      z: grids.absErr,
+                      type: "heatmap",
+                      colorscale: "RdBu",
+                      zmid: 0,
+                      colorbar: { tickfont: { color: "#a1a1aa", size: 10 } },
+                    },
+                  ]}
+                  layout={{
+                    xaxis: { title: "Spot ($)" },
+                    yaxis: { title: "Time (years)" },
+                  }}
+                />
+              </div>
+            </div>
+
+            <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4">
+              <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-2">
+                Relative Error (%)
+              </h3>
+              <div className="h-[340px]">
+                <PlotlyChart
+                  data={[
+                    {
+                      x: grids.spots,
+                      y: grids.times,
+                      z: grids.relErr,
+                      type: "heatmap",
+                      colorscale: "RdBu",
+                      zmid: 0,
+                      colorbar: { tickfont: { color: "#a1a1aa", size: 10 } },
+                    },
+                  ]}
+                  layout={{
+                    xaxis: { title: "Spot ($)" },
+                    yaxis: { title: "Time (years)" },
+                  }}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -170,6 +170,12 @@ export default function TheoryPage() {
               depend on investors&apos; risk preferences or the expected return of the
               underlying.
             </p>
+            <p>
+              The PDE can also be solved numerically by finite differences, stepping
+              backwards from the payoff on an <KaTeX math="(S, t)" /> grid. The PDE
+              page does this with explicit, implicit and Crank-Nicolson schemes and
+              compares the result with the closed form.
+            </p>
           </Prose>
         </Section>
 
@@ -424,12 +430,14 @@ export default function TheoryPage() {
                 <strong className="text-zinc-300">Volatility smile/skew</strong>:
                 Real markets exhibit implied volatility that varies by strike, violating
                 the constant-vol assumption. This led to local volatility (Dupire) and
-                stochastic volatility (Heston) models.
+                stochastic volatility (Heston) models; the Heston page prices by Fourier
+                integration and shows the smile it implies.
               </li>
               <li>
                 <strong className="text-zinc-300">Fat tails</strong>: Asset returns
                 exhibit heavier tails than the normal distribution predicts. Jump-diffusion
-                models (Merton, Kou) address this.
+                models (Merton, Kou) address this; the Jumps page compares Merton&apos;s
+                terminal density with the lognormal.
               </li>
               <li>
                 <strong className="text-zinc-300">Discrete hedging</strong>: Continuous
@@ -443,6 +451,8 @@ export default function TheoryPage() {
               <li>
                 <strong className="text-zinc-300">American options</strong>: Early
                 exercise requires numerical methods (binomial trees, finite differences).
+                The calculator compares American and European prices on a
+                Cox-Ross-Rubinstein tree.
               </li>
               <li>
                 <strong className="text-zinc-300">Interest rate uncertainty</strong>:
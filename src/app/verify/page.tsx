@@ -0,0 +1,367 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import Slider from "@/components/Slider";
+import KaTeX from "@/components/KaTeX";
+import PlotlyChart from "@/components/PlotlyChart";
+import {
+  allGreeks,
+  blackScholes,
+  digitalGreeks,
+  digitalOption,
+  type BSInputs,
+  type Greeks,
+  type PayoffStyle,
+} from "@/lib/black-scholes";
+import { bumpGreeks, type BumpScheme } from "@/lib/bump";
+
+type GreekName = keyof Greeks;
+
+const GREEKS: { name: GreekName; label: string; color: string }[] = [
+  { name: "delta", label: "Delta", color: "#34d399" },
+  { name: "gamma", label: "Gamma", color: "#60a5fa" },
+  { name: "theta", label: "Theta", color: "#f43f5e" },
+  { name: "vega", label: "Vega", color: "#a78bfa" },
+  { name: "rho", label: "Rho", color: "#f59e0b" },
+  { name: "psi", label: "Psi", color: "#a1a1aa" },
+];
+const PRODUCTS: { style: PayoffStyle; label: string }[] = [
+  { style: "vanilla", label: "Vanilla" },
+  { style: "cash-or-nothing", label: "Cash Digital" },
+  { style: "asset-or-nothing", label: "Asset Digital" },
+];
+const SCHEMES: BumpScheme[] = ["central", "forward", "backward"];
+
+// Exact agreement cannot be drawn on a log axis; discrepancies are floored here
+const ERROR_FLOOR = 1e-16;
+// A discrepancy is flagged when it exceeds both tolerances; the absolute one
+// absorbs rounding noise on Greeks that are nearly zero
+const REL_TOLERANCE = 1e-3;
+const ABS_TOLERANCE = 1e-6;
+
+export default function VerifyPage() {
+  const [S, setS] = useState(100);
+  const [K, setK] = useState(100);
+  const [T, setT] = useState(0.5);
+  const [r, setR] = useState(0.05);
+  const [sigma, setSigma] = useState(0.25);
+  const [q, setQ] = useState(0);
+  const [optionType, setOptionType] = useState<"call" | "put">("call");
+  const [style, setStyle] = useState<PayoffStyle>("vanilla");
+  const [scheme, setScheme] = useState<BumpScheme>("central");
+  const [spotExp, setSpotExp] = useState(-3);
+  const [paramExp, setParamExp] = useState(-4);
+  const [timeBumpDays, setTimeBumpDays] = useState(1);
+  const [selected, setSelected] = useState<GreekName>("gamma");
+
+  // Model price and its hand-derived Greeks for the selected product
+  const model = useMemo(() => {
+    const price = (inputs: BSInputs) => {
+      if (style === "vanilla") {
+        const result = blackScholes(inputs);
+        return optionType === "call" ? result.callPrice : result.putPrice;
+      }
+      return digitalOption(inputs, optionType, style);
+    };
+    const analytic = (inputs: BSInputs) =>
+      style === "vanilla"
+        ? allGreeks(inputs, optionType)
+        : digitalGreeks(inputs, optionType, style);
+    return { price, analytic };
+  }, [style, optionType]);
+
+  const bumpOptions = useMemo(
+    () => ({
+      scheme,
+      bumps: {
+        spot: Math.pow(10, spotExp),
+        vol: Math.pow(10, paramExp),
+        rate: Math.pow(10, paramExp),
+        carry: Math.pow(10, paramExp),
+        time: timeBumpDays / 365,
+      },
+    }),
+    [scheme, spotExp, paramExp, timeBumpDays]
+  );
+
+  const current = useMemo(() => {
+    const inputs = { S, K, T, r, sigma, q };
+    const analytic = model.analytic(inputs);
+    const numerical = bumpGreeks(model.price, inputs, bumpOptions);
+    return GREEKS.map(({ name, label }) => {
+      const difference = numerical[name] - analytic[name];
+      return {
+        name,
+        label,
+        analytic: analytic[name],
+        numerical: numerical[name],
+        difference,
+        relative: Math.abs(analytic[name]) > 1e-12 ? Math.abs(difference / analytic[name]) : NaN,
+        flagged:
+          Math.abs(difference) > ABS_TOLERANCE &&
+          Math.abs(difference) > REL_TOLERANCE * Math.abs(analytic[name]),
+      };
+    });
+  }, [S, K, T, r, sigma, q, model, bumpOptions]);
+
+  const sweep = useMemo(() => {
+    const spots: number[] = [];
+    const analytic: Greeks[] = [];
+    const numerical: Greeks[] = [];
+    for (let i = 0; i <= 120; i++) {
+      const spot = K * (0.5 + i / 120);
+      const inputs = { S: spot, K, T, r, sigma, q };
+      spots.push(spot);
+      analytic.push(model.analytic(inputs));
+      numerical.push(bumpGreeks(model.price, inputs, bumpOptions));
+    }
+    return { spots, analytic, numerical };
+  }, [K, T, r, sigma, q, model, bumpOptions]);
+
+  const selectedGreek = GREEKS.find(({ name }) => name === selected) ?? GREEKS[0];
+  const flaggedCount = current.filter(({ flagged }) => flagged).length;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 py-8">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-zinc-100 mb-2">
+          Greek Verification
+        </h1>
+        <p className="text-sm text-zinc-400">
+          Hand-derived Greeks against bump-and-revalue finite differences of
+          the model price, across spot. A formula regression shows up as a
+          discrepancy far above the finite-difference error floor.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Controls */}
+        <div className="lg:col-span-1 space-y-4">
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-4">
+            <h2 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+              Parameters
+            </h2>
+            <div className="flex gap-2">
+              {PRODUCTS.map((product) => (
+                <button
+                  key={product.style}
+                  onClick={() => setStyle(product.style)}
+                  className={`flex-1 py-1.5 rounded-md text-xs font-medium ${
+                    style === product.style
+                      ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+                      : "bg-zinc-800/50 text-zinc-400 border border-zinc-800"
+                  }`}
+                >
+                  {product.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setOptionType("call")}
+                className={`flex-1 py-1.5 rounded-md text-xs font-medium ${
+                  optionType === "call"
+                    ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+                    : "bg-zinc-800/50 text-zinc-400 border border-zinc-800"
+                }`}
+              >
+                Call
+              </button>
+              <button
+                onClick={() => setOptionType("put")}
+                className={`flex-1 py-1.5 rounded-md text-xs font-medium ${
+                  optionType === "put"
+                    ? "bg-rose-500/15 text-rose-400 border border-rose-500/30"
+                    : "bg-zinc-800/50 text-zinc-400 border border-zinc-800"
+                }`}
+              >
+                Put
+              </button>
+            </div>
+            <Slider label="Spot (S)" value={S} min={1} max={300} step={1} onChange={setS} displayValue={`$${S}`} />
+            <Slider label="Strike (K)" value={K} min={1} max={300} step={1} onChange={setK} displayValue={`$${K}`} />
+            <Slider label="Time (T)" value={T} min={0.02} max={3} step={0.01} onChange={setT} unit=" yr" />
+            <Slider label="Rate (r)" value={r} min={0} max={0.15} step={0.005} onChange={setR} displayValue={`${(r * 100).toFixed(1)}%`} />
+            <Slider label="Vol (σ)" value={sigma} min={0.05} max={1.0} step={0.01} onChange={setSigma} displayValue={`${(sigma * 100).toFixed(0)}%`} />
+            <Slider label="Div Yield (q)" value={q} min={0} max={0.1} step={0.005} onChange={setQ} displayValue={`${(q * 100).toFixed(1)}%`} />
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-4">
+            <h2 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+              Finite Differences
+            </h2>
+            <div className="flex gap-2">
+              {SCHEMES.map((s) => (
+                <button
+                  key={s}
+                  onClick={() => setScheme(s)}
+                  className={`flex-1 py-1.5 rounded-md text-xs font-medium capitalize ${
+                    scheme === s
+                      ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+                      : "bg-zinc-800/50 text-zinc-400 border border-zinc-800"
+                  }`}
+                >
+                  {s}
+                </button>
+              ))}
+            </div>
+            <Slider label="Spot Bump" value={spotExp} min={-6} max={-1} step={0.5} onChange={setSpotExp} displayValue={`${Math.pow(10, spotExp).toExponential(1)} × S`} />
+            <Slider label="Vol / Rate / Yield Bump" value={paramExp} min={-7} max={-2} step={0.5} onChange={setParamExp} displayValue={Math.pow(10, paramExp).toExponential(1)} />
+            <Slider label="Time Bump" value={timeBumpDays} min={0.01} max={5} step={0.01} onChange={setTimeBumpDays} displayValue={`${timeBumpDays.toFixed(2)} d`} />
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4 space-y-3">
+            <div className="overflow-x-auto">
+              <KaTeX
+                math="\Gamma \approx \frac{V(S + h) - 2V(S) + V(S - h)}{h^2}"
+                display
+                className="text-zinc-300"
+              />
+            </div>
+            <p className="text-xs text-zinc-500 leading-relaxed">
+              Central differences have O(h²) truncation error, forward and
+              backward O(h). Rounding contributes about ε·V/h, or ε·V/h² for
+              gamma, so shrinking the bump eventually makes things worse. Theta
+              is −∂V/∂T per calendar day and vega, rho and psi are per 1%,
+              matching the analytic functions.
+            </p>
+          </div>
+        </div>
+
+        {/* Charts */}
+        <div className="lg:col-span-3 space-y-6">
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+              <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider">
+                {selectedGreek.label} vs Spot
+              </h3>
+              <div className="flex gap-1">
+                {GREEKS.map(({ name, label }) => (
+                  <button
+                    key={name}
+                    onClick={() => setSelected(name)}
+                    className={`px-2.5 py-1 rounded-md text-xs font-medium ${
+                      selected === name
+                        ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+                        : "bg-zinc-800/50 text-zinc-400 border border-zinc-800"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="h-[320px]">
+              <PlotlyChart
+                data={[
+                  {
+                    x: sweep.spots,
+                    y: sweep.analytic.map((greeks) => greeks[selected]),
+                    type: "scatter",
+                    mode: "lines",
+                    name: "Analytic",
+                    line: { color: selectedGreek.color, width: 2.5 },
+                  },
+                  {
+                    x: sweep.spots,
+                    y: sweep.numerical.map((greeks) => greeks[selected]),
+                    type: "scatter",
+                    mode: "markers",
+                    name: `Bump (${scheme})`,
+                    marker: { color: "#e4e4e7", size: 4 },
+                  },
+                ]}
+                layout={{
+                  xaxis: { title: "Spot ($)" },
+                  yaxis: { title: selectedGreek.label },
+                  showlegend: true,
+                  legend: { x: 0.99, y: 0.99, xanchor: "right", bgcolor: "transparent", font: { color: "#a1a1aa" } },
+                  shapes: [
+                    {
+                      type: "line",
+                      x0: K,
+                      x1: K,
+                      yref: "paper",
+                      y0: 0,
+                      y1: 1,
+                      line: { color: "#52525b", width: 1, dash: "dot" },
+                    },
+                  ],
+                }}
+              />
+            </div>
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4">
+            <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-2">
+              Discrepancy |Bump − Analytic| vs Spot
+            </h3>
+            <div className="h-[320px]">
+              <PlotlyChart
+                data={GREEKS.map(({ name, label, color }) => ({
+                  x: sweep.spots,
+                  y: sweep.numerical.map((greeks, i) =>
+                    Math.max(Math.abs(greeks[name] - sweep.analytic[i][name]), ERROR_FLOOR)
+                  ),
+                  type: "scatter" as const,
+                  mode: "lines" as const,
+                  name: label,
+                  line: { color, width: name === selected ? 2.5 : 1.2 },
+                }))}
+                layout={{
+                  xaxis: { title: "Spot ($)" },
+                  yaxis: { title: "Absolute discrepancy", type: "log", exponentformat: "power" },
+                  showlegend: true,
+                  legend: { x: 0.99, y: 0.99, xanchor: "right", bgcolor: "transparent", font: { color: "#a1a1aa" } },
+                }}
+              />
+            </div>
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-4">
+            <h3 className="text-xs font-semibold text-zinc-400 uppercase tracking-wider mb-3">
+              Greeks at S = ${S}
+            </h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs font-mono">
+                <thead>
+                  <tr className="text-zinc-500 border-b border-zinc-800">
+                    <th className="text-left py-1.5 font-medium">Greek</th>
+                    <th className="text-right py-1.5 font-medium">Analytic</th>
+                    <th className="text-right py-1.5 font-medium">Bump ({scheme})</th>
+                    <th className="text-right py-1.5 font-medium">Difference</th>
+                    <th className="text-right py-1.5 font-medium">Rel. Diff.</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {current.map(({ name, label, analytic, numerical, difference, relative, flagged }) => (
+                    <tr key={name} className="border-b border-zinc-800/50 text-zinc-300">
+                      <td className="py-1.5">{label}</td>
+                      <td className="text-right">{analytic.toFixed(8)}</td>
+                      <td className="text-right">{numerical.toFixed(8)}</td>
+                      <td className="text-right">{difference.toExponential(2)}</td>
+                      <td className={`text-right ${flagged ? "text-amber-400" : "text-emerald-400"}`}>
+                        {isNaN(relative) ? "—" : relative.toExponential(2)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-zinc-500 mt-2 leading-relaxed">
+              {flaggedCount === 0
+                ? "All six Greeks agree within tolerance."
+                : `${flaggedCount} of 6 Greeks outside tolerance.`}{" "}
+              Amber marks a discrepancy above {REL_TOLERANCE.toExponential(0)}{" "}
+              relative and {ABS_TOLERANCE.toExponential(0)} absolute. With
+              central differences and the default bumps, correct formulas stay
+              well inside that except within days of expiry, where a one-day
+              time bump is too coarse for the curvature near the strike. Larger
+              discrepancies point to a wrong formula or a bump that is too big.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import type { BarrierType } from "@/lib/barrier";
+
+interface BarrierToggleProps {
+  value: BarrierType | null;
+  onChange: (value: BarrierType | null) => void;
+  allowNone?: boolean; // adds an "Off" button that selects null
+}
+
+const options: { id: BarrierType; label: string }[] = [
+  { id: "down-and-out", label: "Down & Out" },
+  { id: "down-and-in", label: "Down & In" },
+  { id: "up-and-out", label: "Up & Out" },
+  { id: "up-and-in", label: "Up & In" },
+];
+
+export default function BarrierToggle({ value, onChange, allowNone = false }: BarrierToggleProps) {
+  const button = (id: BarrierType | null, label: string) => (
+    <button
+      key={label}
+      onClick={() => onChange(id)}
+      className={`py-1.5 rounded-md text-[11px] font-medium ${
+        value === id
+          ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+          : "bg-zinc-800/50 text-zinc-400 border border-zinc-800"
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <span className="text-xs font-medium text-zinc-500 uppercase tracking-wider">
+        Barrier
+      </span>
+      <div className="grid grid-cols-2 gap-1.5">
+        {allowNone && <div className="col-span-2 grid">{button(null, "Off (vanilla)")}</div>}
+        {options.map(({ id, label }) => button(id, label))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import type { ExerciseModel } from "@/lib/american";
+
+interface ExerciseToggleProps {
+  value: ExerciseModel;
+  onChange: (value: ExerciseModel) => void;
+}
+
+const options: { id: ExerciseModel; label: string }[] = [
+  { id: "european", label: "European" },
+  { id: "baw", label: "Amer. BAW" },
+  { id: "bjerksund-stensland", label: "Amer. BjS" },
+];
+
+export default function ExerciseToggle({ value, onChange }: ExerciseToggleProps) {
+  return (
+    <div className="flex flex-col gap-1.5">
+      <span className="text-xs font-medium text-zinc-500 uppercase tracking-wider">
+        Exercise
+      </span>
+      <div className="flex gap-1.5">
+        {options.map(({ id, label }) => (
+          <button
+            key={id}
+            onClick={() => onChange(id)}
+            className={`flex-1 py-1.5 rounded-md text-[11px] font-medium ${
+              value === id
+                ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+                : "bg-zinc-800/50 text-zinc-400 border border-zinc-800"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
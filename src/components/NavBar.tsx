@@ -9,6 +9,15 @@ const links = [
   { href: "/surfaces", label: "Surfaces" },
   { href: "/payoffs", label: "Payoffs" },
   { href: "/implied-vol", label: "Implied Vol" },
+  { href: "/pde", label: "PDE" },
+  { href: "/monte-carlo", label: "Monte Carlo" },
+  { href: "/heston", label: "Heston" },
+  { href: "/jumps", label: "Jumps" },
+  { href: "/asian", label: "Asian" },
+  { href: "/exotics", label: "Exotics" },
+  { href: "/spread", label: "Spread" },
+  { href: "/numerics", label: "Numerics" },
+  { href: "/verify", label: "Verify" },
   { href: "/theory", label: "Theory" },
 ];
 
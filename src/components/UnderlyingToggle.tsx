@@ -0,0 +1,44 @@
+"use client";
+
+import type { Underlying } from "@/lib/black-scholes";
+
+interface UnderlyingToggleProps {
+  value: Underlying;
+  onChange: (value: Underlying) => void;
+  options?: Underlying[];
+}
+
+const labels: Record<Underlying, string> = {
+  spot: "Spot",
+  future: "Future",
+  fx: "FX",
+};
+
+export default function UnderlyingToggle({
+  value,
+  onChange,
+  options = ["spot", "future"],
+}: UnderlyingToggleProps) {
+  return (
+    <div className="flex flex-col gap-1.5">
+      <span className="text-xs font-medium text-zinc-500 uppercase tracking-wider">
+        Underlying
+      </span>
+      <div className="flex gap-2">
+        {options.map((u) => (
+          <button
+            key={u}
+            onClick={() => onChange(u)}
+            className={`flex-1 py-1.5 rounded-md text-xs font-medium ${
+              value === u
+                ? "bg-emerald-500/15 text-emerald-400 border border-emerald-500/30"
+                : "bg-zinc-800/50 text-zinc-400 border border-zinc-800"
+            }`}
+          >
+            {labels[u]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import {
+  americanImpliedVolatility,
+  americanPrice,
+  baroneAdesiWhaley,
+  bjerksundStensland,
+} from "./american";
+import { blackScholes } from "./black-scholes";
+import { binomialTree } from "./binomial";
+
+describe("American approximations", () => {
+  it("match Haug's Barone-Adesi-Whaley reference values", () => {
+    // Haug, The Complete Guide to Option Pricing Formulas, table 3-1 (b = 0)
+    const expected: [number, number][] = [
+      [90, 0.0206],
+      [100, 1.8771],
+      [110, 10.0089],
+    ];
+    for (const [S, call] of expected) {
+      const inputs = { S, K: 100, T: 0.1, r: 0.1, sigma: 0.15, q: 0.1 };
+      expect(baroneAdesiWhaley(inputs).callPrice).toBeCloseTo(call, 2);
+    }
+  });
+
+  it("stay close to a fine binomial tree and above the European price", () => {
+    for (const S of [80, 90, 100, 110, 120]) {
+      for (const [r, q] of [
+        [0.08, 0],
+        [0.04, 0.08],
+      ]) {
+        const inputs = { S, K: 100, T: 0.5, r, sigma: 0.25, q };
+        const european = blackScholes(inputs);
+        for (const optionType of ["call", "put"] as const) {
+          const tree = binomialTree(inputs, optionType, "american", 2000).price;
+          const floor = optionType === "call" ? european.callPrice : european.putPrice;
+          for (const model of ["baw", "bjerksund-stensland"] as const) {
+            // Both approximations are good to about a percent plus a few cents
+            const price = americanPrice(inputs, optionType, model);
+            expect(Math.abs(price - tree)).toBeLessThan(0.01 * tree + 0.03);
+            expect(price).toBeGreaterThanOrEqual(floor - 1e-12);
+          }
+        }
+      }
+    }
+  });
+
+  it("reduce to intrinsic value deep in the money", () => {
+    const inputs = { S: 60, K: 100, T: 0.5, r: 0.08, sigma: 0.2 };
+    expect(baroneAdesiWhaley(inputs).putPrice).toBe(40);
+    expect(bjerksundStensland(inputs).putPrice).toBe(40);
+  });
+
+  it("invert to the volatility that produced the quote", () => {
+    const inputs = { S: 95, K: 100, T: 0.75, r: 0.06, q: 0.01 };
+    for (const model of ["baw", "bjerksund-stensland"] as const) {
+      const price = americanPrice({ ...inputs, sigma: 0.32 }, "put", model);
+      expect(americanImpliedVolatility(price, inputs, "put", model)).toBeCloseTo(0.32, 6);
+    }
+  });
+});
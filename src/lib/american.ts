@@ -0,0 +1,328 @@
+/**
+ * Analytic American Option Approximations
+ *
+ * Closed-form approximations to American call and put prices, fast enough
+ * to drive full surfaces and payoff curves where a binomial tree is too
+ * slow. Both pricers share the `blackScholes` call signature and treat the
+ * continuous dividend yield q as the carry: b = r - q.
+ *
+ * References:
+ *   Barone-Adesi, G. & Whaley, R. (1987). "Efficient Analytic Approximation
+ *   of American Option Values." Journal of Finance, 42(2), 301-320.
+ *   Bjerksund, P. & Stensland, G. (2002). "Closed Form Valuation of American
+ *   Options." Working paper, NHH.
+ */
+
+import {
+  blackScholes,
+  computeD1D2,
+  normCDF,
+  normPDF,
+  bivariateNormCDF,
+  type BSInputs,
+  type BSResult,
+} from "./black-scholes";
+
+export type AmericanModel = "baw" | "bjerksund-stensland";
+export type ExerciseModel = "european" | AmericanModel;
+
+// ─── Barone-Adesi-Whaley ─────────────────────────────────────────────────────
+
+/**
+ * Exponent terms of the BAW quadratic approximation:
+ *   M = 2r/sigma^2,  N = 2b/sigma^2,  k = 1 - e^{-rT}
+ *   q1,2 = [-(N-1) -/+ sqrt((N-1)^2 + 4M/k)] / 2
+ * M/k tends to 2/(sigma^2 T) as r -> 0.
+ */
+function bawExponents(T: number, r: number, b: number, sigma: number) {
+  const sigma2 = sigma * sigma;
+  const n = (2 * b) / sigma2;
+  const mOverK =
+    Math.abs(r) < 1e-10 ? 2 / (sigma2 * T) : (2 * r) / sigma2 / (1 - Math.exp(-r * T));
+  const disc = Math.sqrt((n - 1) * (n - 1) + 4 * mOverK);
+  return { q1: (-(n - 1) - disc) / 2, q2: (-(n - 1) + disc) / 2 };
+}
+
+function bawCall(inputs: BSInputs): number {
+  const { K, T, r, sigma, q = 0 } = inputs;
+  const b = r - q;
+  const european = blackScholes(inputs).callPrice;
+
+  // Without a dividend yield early exercise of a call is never optimal
+  if (b >= r) return european;
+
+  const { q2 } = bawExponents(T, r, b, sigma);
+  const sqrtT = Math.sqrt(T);
+  const carryDiscount = Math.exp((b - r) * T);
+
+  // Seed the critical price (Barone-Adesi & Whaley, eq. 23)
+  const n = (2 * b) / (sigma * sigma);
+  const q2Inf = (-(n - 1) + Math.sqrt((n - 1) * (n - 1) + (8 * r) / (sigma * sigma))) / 2;
+  const sInf = K / (1 - 1 / q2Inf);
+  const h2 = (-(b * T + 2 * sigma * sqrtT) * K) / (sInf - K);
+  let si = K + (sInf - K) * (1 - Math.exp(h2));
+
+  // Newton iteration on S* - K = c(S*) + (1 - e^{(b-r)T} N(d1(S*))) S* / q2
+  for (let i = 0; i < 100; i++) {
+    const { d1 } = computeD1D2({ ...inputs, S: si });
+    const rhs =
+      blackScholes({ ...inputs, S: si }).callPrice +
+      ((1 - carryDiscount * normCDF(d1)) * si) / q2;
+    if (Math.abs(si - K - rhs) / K < 1e-8) break;
+    const slope =
+      carryDiscount * normCDF(d1) * (1 - 1 / q2) +
+      (1 - (carryDiscount * normPDF(d1)) / (sigma * sqrtT)) / q2;
+    si = (K + rhs - slope * si) / (1 - slope);
+  }
+
+  if (inputs.S >= si) return inputs.S - K;
+  const { d1 } = computeD1D2({ ...inputs, S: si });
+  const a2 = (si / q2) * (1 - carryDiscount * normCDF(d1));
+  return european + a2 * Math.pow(inputs.S / si, q2);
+}
+
+function bawPut(inputs: BSInputs): number {
+  const { K, T, r, sigma, q = 0 } = inputs;
+  const b = r - q;
+  const european = blackScholes(inputs).putPrice;
+
+  // With a non-positive rate early exercise of a put is never optimal
+  if (r <= 0) return european;
+
+  const { q1 } = bawExponents(T, r, b, sigma);
+  const sqrtT = Math.sqrt(T);
+  const carryDiscount = Math.exp((b - r) * T);
+
+  // Seed the critical price (Barone-Adesi & Whaley, eq. 27)
+  const n = (2 * b) / (sigma * sigma);
+  const q1Inf = (-(n - 1) - Math.sqrt((n - 1) * (n - 1) + (8 * r) / (sigma * sigma))) / 2;
+  const sInf = K / (1 - 1 / q1Inf);
+  const h1 = ((b * T - 2 * sigma * sqrtT) * K) / (K - sInf);
+  let si = sInf + (K - sInf) * Math.exp(h1);
+
+  // Newton iteration on K - S* = p(S*) - (1 - e^{(b-r)T} N(-d1(S*))) S* / q1
+  for (let i = 0; i < 100; i++) {
+    const { d1 } = computeD1D2({ ...inputs, S: si });
+    const rhs =
+      blackScholes({ ...inputs, S: si }).putPrice -
+      ((1 - carryDiscount * normCDF(-d1)) * si) / q1;
+    if (Math.abs(K - si - rhs) / K < 1e-8) break;
+    const slope =
+      -carryDiscount * normCDF(-d1) * (1 - 1 / q1) -
+      (1 + (carryDiscount * normPDF(-d1)) / (sigma * sqrtT)) / q1;
+    si = (K - rhs + slope * si) / (1 + slope);
+  }
+
+  if (inputs.S <= si) return K - inputs.S;
+  const { d1 } = computeD1D2({ ...inputs, S: si });
+  const a1 = -(si / q1) * (1 - carryDiscount * normCDF(-d1));
+  return european + a1 * Math.pow(inputs.S / si, q1);
+}
+
+/**
+ * Barone-Adesi-Whaley quadratic approximation.
+ *
+ * The early-exercise premium solves the Black-Scholes PDE with the time
+ * derivative approximated away, giving
+ *   C = c + A2 (S/S*)^{q2}  for S < S*,  otherwise S - K
+ *   P = p + A1 (S/S*)^{q1}  for S > S*,  otherwise K - S
+ * where the critical prices S* are found by Newton iteration.
+ */
+export function baroneAdesiWhaley(inputs: BSInputs): BSResult {
+  const { S, K, T, sigma } = inputs;
+  if (T <= 0 || sigma <= 0) {
+    return { callPrice: Math.max(S - K, 0), putPrice: Math.max(K - S, 0), d1: 0, d2: 0 };
+  }
+  const { d1, d2 } = computeD1D2(inputs);
+  return { callPrice: bawCall(inputs), putPrice: bawPut(inputs), d1, d2 };
+}
+
+// ─── Bjerksund-Stensland (2002) ──────────────────────────────────────────────
+
+interface BSCarry {
+  T: number;
+  r: number;
+  b: number;
+  sigma: number;
+}
+
+/**
+ * phi(S, T, gamma, H, I) of Bjerksund-Stensland:
+ *   e^{lambda} S^gamma [N(-d) - (I/S)^kappa N(-d - 2 ln(I/S) / (sigma sqrt(T)))]
+ */
+function bsPhi(S: number, T: number, g: number, H: number, I: number, c: BSCarry): number {
+  const { r, b, sigma } = c;
+  const sigma2 = sigma * sigma;
+  const sqrtT = Math.sqrt(T);
+  const lambda = (-r + g * b + 0.5 * g * (g - 1) * sigma2) * T;
+  const d = (Math.log(S / H) + (b + (g - 0.5) * sigma2) * T) / (sigma * sqrtT);
+  const kappa = (2 * b) / sigma2 + (2 * g - 1);
+  return (
+    Math.exp(lambda) *
+    Math.pow(S, g) *
+    (normCDF(-d) - Math.pow(I / S, kappa) * normCDF(-d - (2 * Math.log(I / S)) / (sigma * sqrtT)))
+  );
+}
+
+/**
+ * psi(S, T, gamma, H, I2, I1, t1) of Bjerksund-Stensland (2002), built from
+ * bivariate normal probabilities with correlation sqrt(t1/T).
+ */
+function bsPsi(
+  S: number,
+  g: number,
+  H: number,
+  I2: number,
+  I1: number,
+  t1: number,
+  c: BSCarry
+): number {
+  const { T, r, b, sigma } = c;
+  const sigma2 = sigma * sigma;
+  const drift = b + (g - 0.5) * sigma2;
+  const sdT1 = sigma * Math.sqrt(t1);
+  const sdT = sigma * Math.sqrt(T);
+
+  const e1 = (Math.log(S / I1) + drift * t1) / sdT1;
+  const e2 = (Math.log((I2 * I2) / (S * I1)) + drift * t1) / sdT1;
+  const e3 = (Math.log(S / I1) - drift * t1) / sdT1;
+  const e4 = (Math.log((I2 * I2) / (S * I1)) - drift * t1) / sdT1;
+
+  const f1 = (Math.log(S / H) + drift * T) / sdT;
+  const f2 = (Math.log((I2 * I2) / (S * H)) + drift * T) / sdT;
+  const f3 = (Math.log((I1 * I1) / (S * H)) + drift * T) / sdT;
+  const f4 = (Math.log((S * I1 * I1) / (H * I2 * I2)) + drift * T) / sdT;
+
+  const rho = Math.sqrt(t1 / T);
+  const lambda = -r + g * b + 0.5 * g * (g - 1) * sigma2;
+  const kappa = (2 * b) / sigma2 + (2 * g - 1);
+
+  return (
+    Math.exp(lambda * T) *
+    Math.pow(S, g) *
+    (bivariateNormCDF(-e1, -f1, rho) -
+      Math.pow(I2 / S, kappa) * bivariateNormCDF(-e2, -f2, rho) -
+      Math.pow(I1 / S, kappa) * bivariateNormCDF(-e3, -f3, -rho) +
+      Math.pow(I1 / I2, kappa) * bivariateNormCDF(-e4, -f4, -rho))
+  );
+}
+
+/**
+ * Bjerksund-Stensland (2002) American call with a two-step flat exercise
+ * boundary (I1 on [0, t1], I2 on [t1, T], t1 = (sqrt(5) - 1) T / 2).
+ */
+function bjsCall(S: number, K: number, T: number, r: number, b: number, sigma: number): number {
+  const european = blackScholes({ S, K, T, r, sigma, q: r - b }).callPrice;
+  if (b >= r) return european;
+
+  const sigma2 = sigma * sigma;
+  const beta =
+    0.5 - b / sigma2 + Math.sqrt(Math.pow(b / sigma2 - 0.5, 2) + (2 * r) / sigma2);
+  const bInf = (beta / (beta - 1)) * K;
+  const b0 = Math.max(K, (r / (r - b)) * K);
+  const t1 = 0.5 * (Math.sqrt(5) - 1) * T;
+
+  const h1 = (-(b * t1 + 2 * sigma * Math.sqrt(t1)) * K * K) / ((bInf - b0) * b0);
+  const h2 = (-(b * T + 2 * sigma * Math.sqrt(T)) * K * K) / ((bInf - b0) * b0);
+  const i1 = b0 + (bInf - b0) * (1 - Math.exp(h1));
+  const i2 = b0 + (bInf - b0) * (1 - Math.exp(h2));
+
+  if (S >= i2) return S - K;
+
+  const alpha1 = (i1 - K) * Math.pow(i1, -beta);
+  const alpha2 = (i2 - K) * Math.pow(i2, -beta);
+  const c: BSCarry = { T, r, b, sigma };
+  const c1: BSCarry = { T: t1, r, b, sigma };
+
+  const price =
+    alpha2 * Math.pow(S, beta) -
+    alpha2 * bsPhi(S, t1, beta, i2, i2, c1) +
+    bsPhi(S, t1, 1, i2, i2, c1) -
+    bsPhi(S, t1, 1, i1, i2, c1) -
+    K * bsPhi(S, t1, 0, i2, i2, c1) +
+    K * bsPhi(S, t1, 0, i1, i2, c1) +
+    alpha1 * bsPhi(S, t1, beta, i1, i2, c1) -
+    alpha1 * bsPsi(S, beta, i1, i2, i1, t1, c) +
+    bsPsi(S, 1, i1, i2, i1, t1, c) -
+    bsPsi(S, 1, K, i2, i1, t1, c) -
+    K * bsPsi(S, 0, i1, i2, i1, t1, c) +
+    K * bsPsi(S, 0, K, i2, i1, t1, c);
+
+  return Math.max(price, european);
+}
+
+/**
+ * Bjerksund-Stensland (2002) approximation.
+ *
+ * Calls use the two-step exercise boundary directly; puts use the
+ * put-call transformation
+ *   P(S, K, T, r, b, sigma) = C(K, S, T, r - b, -b, sigma).
+ */
+export function bjerksundStensland(inputs: BSInputs): BSResult {
+  const { S, K, T, r, sigma, q = 0 } = inputs;
+  if (T <= 0 || sigma <= 0) {
+    return { callPrice: Math.max(S - K, 0), putPrice: Math.max(K - S, 0), d1: 0, d2: 0 };
+  }
+  const b = r - q;
+  const { d1, d2 } = computeD1D2(inputs);
+  return {
+    callPrice: bjsCall(S, K, T, r, b, sigma),
+    putPrice: bjsCall(K, S, T, r - b, -b, sigma),
+    d1,
+    d2,
+  };
+}
+
+// ─── American Implied Volatility ─────────────────────────────────────────────
+
+/**
+ * Price an American option with the chosen approximation.
+ */
+export function americanPrice(
+  inputs: BSInputs,
+  optionType: "call" | "put",
+  model: AmericanModel = "bjerksund-stensland"
+): number {
+  const result =
+    model === "baw" ? baroneAdesiWhaley(inputs) : bjerksundStensland(inputs);
+  return optionType === "call" ? result.callPrice : result.putPrice;
+}
+
+/**
+ * Implied volatility from an American option quote.
+ *
+ * The approximations have no closed-form vega, so the solver brackets the
+ * root in [0.001, 10] and bisects; the price is monotonic in sigma.
+ *
+ * @returns Implied volatility or NaN if the quote is below intrinsic value
+ *          or outside the bracket
+ */
+export function americanImpliedVolatility(
+  marketPrice: number,
+  inputs: Omit<BSInputs, "sigma">,
+  optionType: "call" | "put",
+  model: AmericanModel = "bjerksund-stensland",
+  maxIter: number = 100,
+  tol: number = 1e-8
+): number {
+  const { S, K, T } = inputs;
+  if (T <= 0 || marketPrice <= 0) return NaN;
+
+  const intrinsic = optionType === "call" ? Math.max(S - K, 0) : Math.max(K - S, 0);
+  if (marketPrice < intrinsic) return NaN;
+
+  let lo = 0.001;
+  let hi = 10;
+  const priceAt = (sigma: number) => americanPrice({ ...inputs, sigma }, optionType, model);
+  if (marketPrice < priceAt(lo) || marketPrice > priceAt(hi)) return NaN;
+
+  for (let i = 0; i < maxIter; i++) {
+    const mid = 0.5 * (lo + hi);
+    const diff = priceAt(mid) - marketPrice;
+    if (Math.abs(diff) < tol) return mid;
+    if (diff > 0) hi = mid;
+    else lo = mid;
+  }
+
+  return 0.5 * (lo + hi);
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { asianMonteCarlo, asianSchedule, geometricAsian, turnbullWakeman } from "./asian";
+import { blackScholes } from "./black-scholes";
+
+describe("Asian options", () => {
+  const inputs = {
+    S: 100,
+    K: 100,
+    T: 1,
+    r: 0.05,
+    q: 0.02,
+    sigma: 0.3,
+    fixingTimes: asianSchedule(1, 12),
+  };
+
+  it("matches Haug's geometric average-rate reference price", () => {
+    // Haug, The Complete Guide to Option Pricing Formulas, sec. 4.20.1:
+    // continuous geometric average, b = 8%, put 4.6922
+    const haug = {
+      S: 80,
+      K: 85,
+      T: 0.25,
+      r: 0.05,
+      q: -0.03,
+      sigma: 0.2,
+      fixingTimes: asianSchedule(0.25, 20000),
+    };
+    expect(geometricAsian(haug, "put")).toBeCloseTo(4.6922, 4);
+  });
+
+  it("reduces to Black-Scholes-Merton with a single fixing at expiry", () => {
+    const single = { ...inputs, K: 95, fixingTimes: [1] };
+    const closed = blackScholes(single);
+    expect(geometricAsian(single, "call")).toBeCloseTo(closed.callPrice, 10);
+    expect(turnbullWakeman(single, "put")).toBeCloseTo(closed.putPrice, 10);
+  });
+
+  it("satisfies put-call parity on the arithmetic average", () => {
+    const { S, K, r, q, T, fixingTimes } = inputs;
+    const expectedAverage =
+      fixingTimes.reduce((sum, t) => sum + S * Math.exp((r - q) * t), 0) / fixingTimes.length;
+    const parity = turnbullWakeman(inputs, "call") - turnbullWakeman(inputs, "put");
+    expect(parity).toBeCloseTo(Math.exp(-r * T) * (expectedAverage - K), 10);
+  });
+
+  it("agrees with Monte Carlo on the arithmetic average", () => {
+    for (const optionType of ["call", "put"] as const) {
+      const controlled = asianMonteCarlo(inputs, optionType, { paths: 40000 });
+      const plain = asianMonteCarlo(inputs, optionType, { paths: 40000, controlVariate: false });
+      expect(controlled.stdError).toBeLessThan(plain.stdError / 10);
+      expect(Math.abs(plain.price - controlled.price)).toBeLessThan(4 * plain.stdError);
+      // Turnbull-Wakeman is an approximation, good to about half a percent here
+      expect(Math.abs(turnbullWakeman(inputs, optionType) / controlled.price - 1)).toBeLessThan(
+        0.01
+      );
+    }
+    // The arithmetic mean dominates the geometric one
+    expect(asianMonteCarlo(inputs, "call", { paths: 40000 }).price).toBeGreaterThan(
+      geometricAsian(inputs, "call")
+    );
+  });
+
+  it("prices partly and fully fixed schedules", () => {
+    const partly = { ...inputs, fixingTimes: [0.5, 1], pastFixings: [90, 110] };
+    const mc = asianMonteCarlo(partly, "call", { paths: 40000 });
+    expect(Math.abs(turnbullWakeman(partly, "call") / mc.price - 1)).toBeLessThan(0.025);
+
+    const fixed = { ...inputs, fixingTimes: [], pastFixings: [90, 100, 120] };
+    const discount = Math.exp(-inputs.r * inputs.T);
+    expect(turnbullWakeman(fixed, "call")).toBeCloseTo(discount * (310 / 3 - 100), 10);
+    expect(geometricAsian(fixed, "call")).toBeCloseTo(
+      discount * (Math.cbrt(90 * 100 * 120) - 100),
+      10
+    );
+  });
+});
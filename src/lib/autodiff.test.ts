@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { differentiate, div, exp, log, mul, normCDF, pow, sqrt, type HyperDual } from "./autodiff";
+import { normCDF as phi, normPDF } from "./black-scholes";
+import { adGreeksCheck } from "./numerics";
+
+describe("hyper-dual differentiation", () => {
+  it("gives exact first, second and mixed derivatives", () => {
+    const cube = (x: Record<"x", HyperDual>) => mul(x.x, mul(x.x, x.x));
+    expect(differentiate(cube, { x: 2 }, "x")).toEqual({ value: 8, da: 12, db: 12, dab: 12 });
+
+    // f(x, y) = e^x log(y) / sqrt(y): df/dx = f, d2f/dxdy = e^x (1 - log(y)/2) / y^{3/2}
+    const f = ({ x, y }: Record<"x" | "y", HyperDual>) => div(mul(exp(x), log(y)), sqrt(y));
+    const { value, da, dab } = differentiate(f, { x: 0.5, y: 3 }, "x", "y");
+    expect(da).toBeCloseTo(value, 15);
+    expect(dab).toBeCloseTo((Math.exp(0.5) * (1 - Math.log(3) / 2)) / Math.pow(3, 1.5), 15);
+
+    const g = ({ x }: Record<"x", HyperDual>) => normCDF(pow(x, 2));
+    // g(x) = N(x^2): g' = 2x n(x^2), g'' = n(x^2) (2 - 4x^4)
+    const derivatives = differentiate(g, { x: 0.7 }, "x");
+    const u = 0.7 ** 2;
+    expect(derivatives.value).toBe(phi(u));
+    expect(derivatives.da).toBeCloseTo(normPDF(u) * 1.4, 15);
+    expect(derivatives.dab).toBeCloseTo(normPDF(u) * (2 - 4 * u * u), 15);
+  });
+});
+
+describe("adGreeksCheck", () => {
+  it("matches the analytic Greeks across a spot grid", () => {
+    for (let S = 40; S <= 200; S += 5) {
+      for (const T of [0.05, 0.5, 2]) {
+        for (const q of [0, 0.03]) {
+          for (const optionType of ["call", "put"] as const) {
+            const inputs = { S, K: 100, T, r: 0.04, sigma: 0.25, q };
+            for (const { name, analytic, absError } of adGreeksCheck(inputs, optionType)) {
+              // Rounding only: relative where the Greek is sizeable, absolute near zero
+              expect(absError, `${name} at S = ${S}`).toBeLessThan(
+                1e-12 + 1e-10 * Math.abs(analytic)
+              );
+            }
+          }
+        }
+      }
+    }
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Forward-Mode Automatic Differentiation
+ *
+ * Hyper-dual numbers x = a + b e1 + c e2 + d e1e2 with e1^2 = e2^2 = 0 and
+ * e1e2 != 0. Evaluating a function on
+ *
+ *   x = x0 + e1 (seeded in input i) + e2 (seeded in input j)
+ *
+ * gives f(x0) + f_i e1 + f_j e2 + f_ij e1e2 exactly: first and mixed
+ * second derivatives with no step size and no truncation error, only
+ * rounding. A dual number is the special case with e2 = e1e2 = 0 and
+ * carries first derivatives alone.
+ *
+ * A pricer written once against these operations yields every Greek by
+ * seeding the inputs: delta and gamma from (S, S), vega and volga from
+ * (sigma, sigma), vanna from (S, sigma), and rho, theta and psi from
+ * single seeds. Branches (max, comparisons) are taken on the real part, so
+ * derivatives at a kink are one-sided.
+ *
+ * Reference: Fike, J. & Alonso, J. (2011). "The Development of Hyper-Dual
+ * Numbers for Exact Second-Derivative Calculations." AIAA 2011-886.
+ */
+
+import { normCDF as normCDFReal, normPDF as normPDFReal, type Greeks } from "./black-scholes";
+
+export interface HyperDual {
+  re: number; // Value
+  e1: number; // Derivative along the first seed
+  e2: number; // Derivative along the second seed
+  e12: number; // Mixed second derivative
+}
+
+export type Real = HyperDual | number;
+
+/** Inputs a Black-Scholes-shaped pricer is differentiated with respect to. */
+export type ADInput = "S" | "K" | "T" | "r" | "sigma" | "q";
+
+export type ADPricer<K extends string = ADInput> = (inputs: Record<K, HyperDual>) => HyperDual;
+
+export interface ADDerivatives {
+  value: number;
+  da: number; // d f / d a
+  db: number; // d f / d b
+  dab: number; // d^2 f / da db
+}
+
+export interface ADGreeks extends Greeks {
+  vanna: number; // d(delta)/d(sigma), per 1% move in vol
+  volga: number; // d(vega)/d(sigma), per 1% move in vol, vega per 1%
+}
+
+// ─── Construction ───────────────────────────────────────────────────────────
+
+export function constant(x: number): HyperDual {
+  return { re: x, e1: 0, e2: 0, e12: 0 };
+}
+
+/** Dual number x + dx e1, for first derivatives only. */
+export function dual(x: number, dx: number = 1): HyperDual {
+  return { re: x, e1: dx, e2: 0, e12: 0 };
+}
+
+/** Hyper-dual number seeded in both directions. */
+export function hyperDual(x: number, d1: number = 1, d2: number = 1): HyperDual {
+  return { re: x, e1: d1, e2: d2, e12: 0 };
+}
+
+function lift(x: Real): HyperDual {
+  return typeof x === "number" ? constant(x) : x;
+}
+
+// ─── Arithmetic ─────────────────────────────────────────────────────────────
+
+export function add(a: Real, b: Real): HyperDual {
+  const x = lift(a);
+  const y = lift(b);
+  return { re: x.re + y.re, e1: x.e1 + y.e1, e2: x.e2 + y.e2, e12: x.e12 + y.e12 };
+}
+
+export function sub(a: Real, b: Real): HyperDual {
+  const x = lift(a);
+  const y = lift(b);
+  return { re: x.re - y.re, e1: x.e1 - y.e1, e2: x.e2 - y.e2, e12: x.e12 - y.e12 };
+}
+
+export function neg(a: Real): HyperDual {
+  const x = lift(a);
+  return { re: -x.re, e1: -x.e1, e2: -x.e2, e12: -x.e12 };
+}
+
+export function mul(a: Real, b: Real): HyperDual {
+  const x = lift(a);
+  const y = lift(b);
+  return {
+    re: x.re * y.re,
+    e1: x.re * y.e1 + x.e1 * y.re,
+    e2: x.re * y.e2 + x.e2 * y.re,
+    e12: x.re * y.e12 + x.e1 * y.e2 + x.e2 * y.e1 + x.e12 * y.re,
+  };
+}
+
+export function div(a: Real, b: Real): HyperDual {
+  const y = lift(b);
+  return mul(a, chain(y, 1 / y.re, -1 / (y.re * y.re), 2 / (y.re * y.re * y.re)));
+}
+
+// ─── Elementary Functions ───────────────────────────────────────────────────
+
+/**
+ * Apply a scalar function with value f, slope f' and curvature f'' at the
+ * real part:
+ *
+ *   g(x) = f + f' (b e1 + c e2 + d e1e2) + f'' b c e1e2
+ */
+export function chain(a: Real, f: number, df: number, d2f: number): HyperDual {
+  const x = lift(a);
+  return {
+    re: f,
+    e1: df * x.e1,
+    e2: df * x.e2,
+    e12: df * x.e12 + d2f * x.e1 * x.e2,
+  };
+}
+
+export function exp(a: Real): HyperDual {
+  const value = Math.exp(lift(a).re);
+  return chain(a, value, value, value);
+}
+
+export function log(a: Real): HyperDual {
+  const x = lift(a).re;
+  return chain(a, Math.log(x), 1 / x, -1 / (x * x));
+}
+
+export function sqrt(a: Real): HyperDual {
+  const root = Math.sqrt(lift(a).re);
+  return chain(a, root, 0.5 / root, -0.25 / (root * root * root));
+}
+
+/** x^p for a constant exponent p. */
+export function pow(a: Real, p: number): HyperDual {
+  const x = lift(a).re;
+  return chain(a, Math.pow(x, p), p * Math.pow(x, p - 1), p * (p - 1) * Math.pow(x, p - 2));
+}
+
+export function normCDF(a: Real): HyperDual {
+  const x = lift(a).re;
+  const density = normPDFReal(x);
+  return chain(a, normCDFReal(x), density, -x * density);
+}
+
+export function normPDF(a: Real): HyperDual {
+  const x = lift(a).re;
+  const density = normPDFReal(x);
+  return chain(a, density, -x * density, (x * x - 1) * density);
+}
+
+/** Larger of two values, chosen on the real part. */
+export function max(a: Real, b: Real): HyperDual {
+  const x = lift(a);
+  const y = lift(b);
+  return x.re >= y.re ? x : y;
+}
+
+// ─── Differentiation ────────────────────────────────────────────────────────
+
+/**
+ * Value, first derivatives in inputs a and b and the mixed second
+ * derivative of a pricer at a point, from one hyper-dual evaluation. With
+ * a = b this is the pure second derivative.
+ */
+export function differentiate<K extends string>(
+  pricer: ADPricer<K>,
+  point: Record<K, number>,
+  a: K,
+  b: K = a
+): ADDerivatives {
+  const inputs = {} as Record<K, HyperDual>;
+  for (const key of Object.keys(point) as K[]) {
+    inputs[key] = {
+      re: point[key],
+      e1: key === a ? 1 : 0,
+      e2: key === b ? 1 : 0,
+      e12: 0,
+    };
+  }
+  const result = pricer(inputs);
+  return { value: result.re, da: result.e1, db: result.e2, dab: result.e12 };
+}
+
+/**
+ * Greeks of any pricer in the inputs of `BSInputs`, in the units of
+ * `Greeks` and `ExtendedGreeks`: theta is -dV/dT per calendar day, vega,
+ * rho and psi are per 1%, vanna per 1% of vol and volga per 1% of vol
+ * squared. Five hyper-dual evaluations: (S, S), (sigma, sigma), (S, sigma),
+ * and r, T and q each seeded once.
+ */
+export function adGreeks(pricer: ADPricer, point: Record<ADInput, number>): ADGreeks {
+  const spot = differentiate(pricer, point, "S");
+  const vol = differentiate(pricer, point, "sigma");
+  const cross = differentiate(pricer, point, "S", "sigma");
+  const rate = differentiate(pricer, point, "r", "T");
+  const carry = differentiate(pricer, point, "q");
+
+  return {
+    delta: spot.da,
+    gamma: spot.dab,
+    theta: -rate.db / 365,
+    vega: vol.da / 100,
+    rho: rate.da / 100,
+    psi: carry.da / 100,
+    vanna: cross.dab / 100,
+    volga: vol.dab / 1e4,
+  };
+}
+
+// ─── Pricers ────────────────────────────────────────────────────────────────
+
+/**
+ * Black-Scholes-Merton written against the hyper-dual operations, the same
+ * formula as `blackScholes` without the displacement:
+ *
+ *   d1 = [ln(S/K) + (r - q + sigma^2/2) T] / (sigma sqrt(T)),  d2 = d1 - sigma sqrt(T)
+ *   Call = S e^{-qT} N(d1) - K e^{-rT} N(d2)
+ *   Put  = K e^{-rT} N(-d2) - S e^{-qT} N(-d1)
+ */
+export function blackScholesAD(
+  inputs: Record<ADInput, HyperDual>,
+  optionType: "call" | "put"
+): HyperDual {
+  const { S, K, T, r, sigma, q } = inputs;
+  const volT = mul(sigma, sqrt(T));
+  const drift = mul(add(sub(r, q), mul(0.5, mul(sigma, sigma))), T);
+  const d1 = div(add(log(div(S, K)), drift), volT);
+  const d2 = sub(d1, volT);
+  const spotLeg = mul(S, exp(neg(mul(q, T))));
+  const strikeLeg = mul(K, exp(neg(mul(r, T))));
+
+  return optionType === "call"
+    ? sub(mul(spotLeg, normCDF(d1)), mul(strikeLeg, normCDF(d2)))
+    : sub(mul(strikeLeg, normCDF(neg(d2))), mul(spotLeg, normCDF(neg(d1))));
+}
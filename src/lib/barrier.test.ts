@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { barrierOption, type BarrierType } from "./barrier";
+import { blackScholes } from "./black-scholes";
+import { monteCarlo } from "./monte-carlo";
+
+describe("barrierOption", () => {
+  it("matches Haug's reference table", () => {
+    // Haug, The Complete Guide to Option Pricing Formulas, table 4-13:
+    // S = 100, T = 0.5, r = 8%, b = 4%, sigma = 25%, rebate 3, K = 90/100/110
+    const table: ["call" | "put", BarrierType, number, number[]][] = [
+      ["call", "down-and-out", 95, [9.0246, 6.7924, 4.8759]],
+      ["call", "down-and-out", 100, [3, 3, 3]],
+      ["call", "up-and-out", 105, [2.6789, 2.358, 2.3453]],
+      ["call", "down-and-in", 95, [7.7627, 4.0109, 2.0576]],
+      ["call", "down-and-in", 100, [13.8333, 7.8494, 3.9795]],
+      ["call", "up-and-in", 105, [14.1112, 8.4482, 4.591]],
+      ["put", "down-and-in", 95, [2.9586, 6.5677, 11.9752]],
+      ["put", "down-and-in", 100, [2.2845, 5.9085, 11.6465]],
+      ["put", "up-and-in", 105, [1.4653, 3.3721, 7.0846]],
+      ["put", "down-and-out", 95, [2.2798, 2.2947, 2.6252]],
+      ["put", "down-and-out", 100, [3, 3, 3]],
+      ["put", "up-and-out", 105, [3.776, 5.4932, 7.5187]],
+    ];
+    for (const [optionType, barrierType, H, prices] of table) {
+      [90, 100, 110].forEach((K, i) => {
+        const inputs = { S: 100, K, T: 0.5, r: 0.08, q: 0.04, sigma: 0.25, H, rebate: 3 };
+        expect(barrierOption(inputs, optionType, barrierType)).toBeCloseTo(prices[i], 4);
+      });
+    }
+  });
+
+  it("splits the vanilla into knock-in and knock-out without a rebate", () => {
+    for (const [direction, H] of [
+      ["down", 85],
+      ["up", 120],
+    ] as const) {
+      for (const K of [90, 105]) {
+        const inputs = { S: 100, K, T: 1, r: 0.05, q: 0.02, sigma: 0.3, H };
+        const vanilla = blackScholes(inputs);
+        for (const optionType of ["call", "put"] as const) {
+          const knockIn = barrierOption(inputs, optionType, `${direction}-and-in`);
+          const knockOut = barrierOption(inputs, optionType, `${direction}-and-out`);
+          const price = optionType === "call" ? vanilla.callPrice : vanilla.putPrice;
+          expect(knockIn + knockOut).toBeCloseTo(price, 10);
+        }
+      }
+    }
+  });
+
+  it("agrees with a continuity-corrected Monte Carlo", () => {
+    // Broadie, Glasserman & Kou (1997): monitoring a discrete barrier moved
+    // away from spot by e^{0.5826 sigma sqrt(dt)} matches the continuous one
+    const steps = 100;
+    const shift = (sigma: number, T: number) => Math.exp(0.5826 * sigma * Math.sqrt(T / steps));
+
+    const down = { S: 100, K: 100, T: 0.5, r: 0.08, q: 0.04, sigma: 0.25, H: 90 };
+    const downBarrier = down.H * shift(down.sigma, down.T);
+    const downOut = monteCarlo(
+      down,
+      (path) => (path.some((s) => s <= downBarrier) ? 0 : Math.max(path[steps] - down.K, 0)),
+      { paths: 40000, steps, antithetic: true }
+    );
+    const downClosed = barrierOption(down, "call", "down-and-out");
+    expect(Math.abs(downOut.price - downClosed)).toBeLessThan(4 * downOut.stdError);
+
+    const up = { ...down, K: 95, H: 115 };
+    const upBarrier = up.H / shift(up.sigma, up.T);
+    const upOut = monteCarlo(
+      up,
+      (path) => (path.some((s) => s >= upBarrier) ? 0 : Math.max(up.K - path[steps], 0)),
+      { paths: 40000, steps, antithetic: true }
+    );
+    const upClosed = barrierOption(up, "put", "up-and-out");
+    expect(Math.abs(upOut.price - upClosed)).toBeLessThan(4 * upOut.stdError);
+  });
+});
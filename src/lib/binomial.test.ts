@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { allGreeks, blackScholes } from "./black-scholes";
+import { binomialTree, earlyExercisePremium } from "./binomial";
+
+describe("binomialTree", () => {
+  it("matches Hull's American put benchmark", () => {
+    // Hull, Options, Futures and Other Derivatives, section 21.1: 4.284
+    const inputs = { S: 50, K: 50, T: 5 / 12, r: 0.1, sigma: 0.4 };
+    expect(binomialTree(inputs, "put", "american", 1000).price).toBeCloseTo(4.284, 2);
+  });
+
+  it("converges to Black-Scholes-Merton for European exercise", () => {
+    const inputs = { S: 100, K: 100, T: 1, r: 0.05, sigma: 0.2, q: 0.02 };
+    for (const optionType of ["call", "put"] as const) {
+      const tree = binomialTree(inputs, optionType, "european", 1000);
+      const closed = blackScholes(inputs);
+      const greeks = allGreeks(inputs, optionType);
+      expect(tree.price).toBeCloseTo(
+        optionType === "call" ? closed.callPrice : closed.putPrice,
+        2
+      );
+      expect(tree.delta).toBeCloseTo(greeks.delta, 3);
+      expect(tree.gamma).toBeCloseTo(greeks.gamma, 4);
+      expect(tree.theta).toBeCloseTo(greeks.theta, 4);
+    }
+  });
+
+  it("never exercises a call early without dividends", () => {
+    const inputs = { S: 110, K: 100, T: 2, r: 0.06, sigma: 0.3 };
+    expect(earlyExercisePremium(inputs, "call", 500)).toBeCloseTo(0, 12);
+    expect(earlyExercisePremium(inputs, "put", 500)).toBeGreaterThan(0);
+    expect(earlyExercisePremium({ ...inputs, q: 0.08 }, "call", 500)).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,513 @@
+import { describe, expect, it } from "vitest";
+import {
+  allGreeks,
+  bachelier,
+  bachelierImpliedVolatility,
+  black76,
+  black76Greeks,
+  black76ImpliedVolatility,
+  blackScholes,
+  digitalGreeks,
+  digitalOption,
+  dividendsPV,
+  extendedGreeks,
+  garmanKohlhagen,
+  gkDeltas,
+  gkPremium,
+  impliedVolatility,
+  lognormalDomainError,
+  lognormalToNormalVol,
+  mertonDensity,
+  mertonJumpDiffusion,
+  normalToLognormalVol,
+  solveImpliedVolatility,
+  type BSInputs,
+  type DigitalType,
+  type ExtendedGreeks,
+  type Greeks,
+} from "./black-scholes";
+
+/** Central difference of a price in one input, for checking analytic Greeks. */
+function sensitivity(
+  price: (inputs: BSInputs) => number,
+  inputs: BSInputs,
+  key: "S" | "K" | "T" | "r" | "sigma" | "q",
+  h: number
+): number {
+  const at = (value: number) => price({ ...inputs, [key]: value });
+  const x = inputs[key] ?? 0;
+  return (at(x + h) - at(x - h)) / (2 * h);
+}
+
+/** Relative agreement of an analytic Greek with its finite difference, floored near zero. */
+function agree(analytic: number, numeric: number) {
+  expect(Math.abs(analytic - numeric)).toBeLessThan(1e-6 * Math.abs(numeric) + 1e-12);
+}
+
+describe("blackScholes", () => {
+  it("matches Hull's reference prices", () => {
+    // Hull, Options, Futures and Other Derivatives, example 15.6
+    const result = blackScholes({ S: 42, K: 40, T: 0.5, r: 0.1, sigma: 0.2 });
+    expect(result.callPrice).toBeCloseTo(4.7594, 4);
+    expect(result.putPrice).toBeCloseTo(0.8086, 4);
+  });
+
+  it("matches Haug's Merton (1973) reference price with a dividend yield", () => {
+    // Haug, The Complete Guide to Option Pricing Formulas, section 1.1.2
+    const result = blackScholes({ S: 100, K: 95, T: 0.5, r: 0.1, sigma: 0.2, q: 0.05 });
+    expect(result.putPrice).toBeCloseTo(2.4648, 4);
+  });
+
+  it("satisfies put-call parity with a dividend yield", () => {
+    for (const K of [60, 90, 100, 110, 160]) {
+      const inputs = { S: 100, K, T: 1.5, r: 0.04, sigma: 0.3, q: 0.025 };
+      const { callPrice, putPrice } = blackScholes(inputs);
+      const forwardValue = 100 * Math.exp(-0.025 * 1.5) - K * Math.exp(-0.04 * 1.5);
+      expect(callPrice - putPrice).toBeCloseTo(forwardValue, 10);
+    }
+  });
+});
+
+describe("allGreeks", () => {
+  it("matches Hull's reference Greeks", () => {
+    // Hull, examples 19.1-19.6: theta per year and vega, rho per unit
+    const greeks = allGreeks({ S: 49, K: 50, T: 0.3846, r: 0.05, sigma: 0.2 }, "call");
+    expect(greeks.delta).toBeCloseTo(0.522, 3);
+    expect(greeks.gamma).toBeCloseTo(0.066, 3);
+    expect(greeks.theta * 365).toBeCloseTo(-4.31, 2);
+    expect(greeks.vega * 100).toBeCloseTo(12.1, 1);
+    expect(greeks.rho * 100).toBeCloseTo(8.91, 2);
+  });
+
+  it("carries the dividend yield through delta and psi", () => {
+    const inputs = { S: 100, K: 100, T: 1, r: 0.05, sigma: 0.2, q: 0.03 };
+    const call = allGreeks(inputs, "call");
+    const put = allGreeks(inputs, "put");
+    expect(call.delta - put.delta).toBeCloseTo(Math.exp(-0.03), 12);
+    expect(call.psi - put.psi).toBeCloseTo(-Math.exp(-0.03), 12);
+  });
+});
+
+describe("discrete cash dividends", () => {
+  const dividends = [
+    { amount: 0.5, time: 2 / 12 },
+    { amount: 0.5, time: 5 / 12 },
+  ];
+  const inputs = { S: 40, K: 40, T: 0.5, r: 0.09, sigma: 0.3 };
+
+  it("matches Hull's escrowed-dividend reference price", () => {
+    // Hull, example 15.10: PV(dividends) = 0.974, call = 3.67
+    expect(dividendsPV(dividends, inputs.T, inputs.r)).toBeCloseTo(0.974, 3);
+    expect(blackScholes(inputs, dividends).callPrice).toBeCloseTo(3.67, 2);
+  });
+
+  it("ignores dividends going ex after expiry", () => {
+    const late = [{ amount: 2, time: 0.75 }];
+    expect(blackScholes(inputs, late).callPrice).toBe(blackScholes(inputs).callPrice);
+  });
+
+  it("gives theta and rho that include the drift of PV(dividends)", () => {
+    for (const optionType of ["call", "put"] as const) {
+      const price = (x: BSInputs, schedule = dividends) => {
+        const result = blackScholes(x, schedule);
+        return optionType === "call" ? result.callPrice : result.putPrice;
+      };
+      // Theta lets calendar time pass: expiry and ex-dates move together
+      const h = 1e-5;
+      const elapsed = (dt: number) =>
+        price(
+          { ...inputs, T: inputs.T - dt },
+          dividends.map((d) => ({ ...d, time: d.time - dt }))
+        );
+      const greeks = allGreeks(inputs, optionType, dividends);
+      expect(greeks.delta).toBeCloseTo(sensitivity(price, inputs, "S", 1e-4), 7);
+      expect(greeks.theta).toBeCloseTo((elapsed(h) - elapsed(-h)) / (2 * h) / 365, 7);
+      expect(greeks.rho).toBeCloseTo(sensitivity(price, inputs, "r", 1e-6) / 100, 7);
+    }
+  });
+});
+
+describe("black76", () => {
+  it("matches Haug's reference price", () => {
+    // Haug, section 1.1.3: at the money, call = put
+    const result = black76({ F: 19, K: 19, T: 0.75, r: 0.1, sigma: 0.28 });
+    expect(result.callPrice).toBeCloseTo(1.7011, 4);
+    expect(result.putPrice).toBeCloseTo(1.7011, 4);
+  });
+
+  it("equals Black-Scholes-Merton on the futures price with q = r", () => {
+    for (const K of [70, 100, 130]) {
+      const futures = black76({ F: 100, K, T: 0.6, r: 0.03, sigma: 0.35 });
+      const spot = blackScholes({ S: 100, K, T: 0.6, r: 0.03, sigma: 0.35, q: 0.03 });
+      expect(futures.callPrice).toBeCloseTo(spot.callPrice, 12);
+      expect(futures.putPrice).toBeCloseTo(spot.putPrice, 12);
+    }
+  });
+
+  it("gives Greeks that match finite differences with F held fixed", () => {
+    const inputs = { F: 105, K: 100, T: 0.9, r: 0.04, sigma: 0.25 };
+    const call = (x: typeof inputs) => black76(x).callPrice;
+    const bumped = (key: keyof typeof inputs, h: number) =>
+      (call({ ...inputs, [key]: inputs[key] + h }) - call({ ...inputs, [key]: inputs[key] - h })) /
+      (2 * h);
+    const greeks = black76Greeks(inputs, "call");
+    expect(greeks.delta).toBeCloseTo(bumped("F", 1e-4), 7);
+    expect(greeks.theta).toBeCloseTo(-bumped("T", 1e-5) / 365, 7);
+    expect(greeks.vega).toBeCloseTo(bumped("sigma", 1e-6) / 100, 7);
+    expect(greeks.rho).toBeCloseTo(bumped("r", 1e-6) / 100, 7);
+  });
+
+  it("recovers the volatility from its own prices", () => {
+    for (const K of [60, 90, 100, 110, 150]) {
+      for (const optionType of ["call", "put"] as const) {
+        const inputs = { F: 100, K, T: 0.5, r: 0.02 };
+        const result = black76({ ...inputs, sigma: 0.3 });
+        const price = optionType === "call" ? result.callPrice : result.putPrice;
+        expect(black76ImpliedVolatility(price, inputs, optionType)).toBeCloseTo(0.3, 6);
+      }
+    }
+  });
+});
+
+describe("garmanKohlhagen", () => {
+  const inputs = { S: 1.56, K: 1.6, T: 0.5, rd: 0.06, rf: 0.08, sigma: 0.12 };
+
+  it("matches Haug's reference price", () => {
+    // Haug, section 1.1.6
+    expect(garmanKohlhagen(inputs).callPrice).toBeCloseTo(0.0291, 4);
+  });
+
+  it("satisfies FX put-call parity", () => {
+    const { callPrice, putPrice } = garmanKohlhagen(inputs);
+    const forwardValue = 1.56 * Math.exp(-0.08 * 0.5) - 1.6 * Math.exp(-0.06 * 0.5);
+    expect(callPrice - putPrice).toBeCloseTo(forwardValue, 12);
+  });
+
+  it("converts the premium between quoting conventions", () => {
+    const v = garmanKohlhagen(inputs).putPrice;
+    expect(gkPremium(inputs, "put", "domestic-pips")).toBe(v);
+    expect(gkPremium(inputs, "put", "foreign-pips")).toBeCloseTo(v / (1.56 * 1.6), 14);
+    expect(gkPremium(inputs, "put", "percent-foreign")).toBeCloseTo((100 * v) / 1.56, 12);
+    expect(gkPremium(inputs, "put", "percent-domestic")).toBeCloseTo((100 * v) / 1.6, 12);
+  });
+
+  it("relates the spot, forward and premium-adjusted deltas", () => {
+    for (const optionType of ["call", "put"] as const) {
+      const result = garmanKohlhagen(inputs);
+      const v = optionType === "call" ? result.callPrice : result.putPrice;
+      const deltas = gkDeltas(inputs, optionType);
+      const foreignDiscount = Math.exp(-0.08 * 0.5);
+      expect(deltas.forward).toBeCloseTo(deltas.spot / foreignDiscount, 12);
+      expect(deltas.spotPremiumAdjusted).toBeCloseTo(deltas.spot - v / 1.56, 12);
+      expect(deltas.forwardPremiumAdjusted).toBeCloseTo(
+        deltas.forward - v / (1.56 * foreignDiscount),
+        12
+      );
+    }
+  });
+});
+
+describe("bachelier", () => {
+  it("prices at the money as the discounted sigma sqrt(T / 2 pi)", () => {
+    const result = bachelier({ F: 0.01, K: 0.01, T: 2, r: 0.03, sigma: 0.008 });
+    const atm = Math.exp(-0.06) * 0.008 * Math.sqrt(2 / (2 * Math.PI));
+    expect(result.callPrice).toBeCloseTo(atm, 15);
+    expect(result.putPrice).toBeCloseTo(atm, 15);
+  });
+
+  it("satisfies put-call parity at negative forwards and strikes", () => {
+    for (const [F, K] of [
+      [-0.005, 0.002],
+      [0.01, -0.01],
+      [-0.02, -0.03],
+    ]) {
+      const { callPrice, putPrice } = bachelier({ F, K, T: 1, r: 0.01, sigma: 0.01 });
+      expect(callPrice - putPrice).toBeCloseTo(Math.exp(-0.01) * (F - K), 15);
+    }
+  });
+
+  it("recovers the normal vol from its own prices, or returns NaN", () => {
+    for (const F of [-0.02, 0, 0.02, 1, 100]) {
+      for (const K of [-0.02, 0, 0.02, 1, 100]) {
+        for (const T of [0.1, 1, 10]) {
+          for (const sigma of [0.002, 0.02, 0.2, 20]) {
+            for (const optionType of ["call", "put"] as const) {
+              const inputs = { F, K, T, r: 0.03 };
+              const result = bachelier({ ...inputs, sigma });
+              const price = optionType === "call" ? result.callPrice : result.putPrice;
+              const iv = bachelierImpliedVolatility(price, inputs, optionType);
+              if (!Number.isNaN(iv)) expect(Math.abs(iv / sigma - 1)).toBeLessThan(1e-7);
+              // Out of the money the whole price is time value and must invert
+              const outOfTheMoney = optionType === "call" ? F <= K : F >= K;
+              if (outOfTheMoney && price > 1e-300) expect(iv).not.toBeNaN();
+            }
+          }
+        }
+      }
+    }
+  });
+
+  it("does not mistake a sub-tolerance quote for a solution", () => {
+    // The put is worth 1e-13; its vol is 0.02, not the initial guess
+    const inputs = { F: 0.02, K: -0.02, T: 0.1, r: 0 };
+    const put = bachelier({ ...inputs, sigma: 0.02 }).putPrice;
+    expect(bachelierImpliedVolatility(put, inputs, "put")).toBeCloseTo(0.02, 12);
+    // The call's time value is below the rounding of its intrinsic value
+    const call = bachelier({ ...inputs, sigma: 0.02 }).callPrice;
+    expect(bachelierImpliedVolatility(call, inputs, "call")).toBeNaN();
+  });
+
+  it("round-trips lognormal and normal vols", () => {
+    let unresolved = 0;
+    for (const K of [30, 50, 70, 80, 90, 100, 110, 120, 150, 200]) {
+      for (const T of [0.1, 0.5, 1, 5]) {
+        for (const sigma of [0.05, 0.1, 0.2, 0.5]) {
+          const normal = lognormalToNormalVol(100, K, T, sigma);
+          const back = normalToLognormalVol(100, K, T, normal);
+          // NaN only where the lognormal price underflows or nearly so
+          if (Number.isNaN(back)) {
+            unresolved++;
+            continue;
+          }
+          expect(Math.abs(back / sigma - 1)).toBeLessThan(1e-6);
+        }
+      }
+    }
+    expect(unresolved).toBeLessThanOrEqual(5);
+    // At the money sigma_N ~ sigma F (1 - sigma^2 T / 24) (Hagan et al., 2002)
+    expect(lognormalToNormalVol(100, 100, 1, 0.2)).toBeCloseTo(20 * (1 - 0.04 / 24), 3);
+    expect(lognormalToNormalVol(100, 30, 0.1, 0.2)).toBeGreaterThan(10);
+  });
+});
+
+describe("shifted lognormal", () => {
+  const inputs = { S: 0.005, K: -0.004, T: 2, r: 0.01, sigma: 0.2, shift: 0.03 };
+
+  it("reduces to Black-Scholes-Merton without a shift", () => {
+    const plain = { S: 100, K: 95, T: 1, r: 0.05, sigma: 0.2, q: 0.01 };
+    expect(blackScholes({ ...plain, shift: 0 })).toEqual(blackScholes(plain));
+  });
+
+  it("prices negative strikes and satisfies put-call parity", () => {
+    const { callPrice, putPrice } = blackScholes(inputs);
+    const forwardValue = 0.005 - -0.004 * Math.exp(-0.02);
+    expect(callPrice - putPrice).toBeCloseTo(forwardValue, 14);
+    expect(lognormalDomainError(inputs)).toBeNull();
+    expect(lognormalDomainError({ ...inputs, shift: 0.001 })).not.toBeNull();
+  });
+
+  it("gives Greeks that match finite differences", () => {
+    for (const optionType of ["call", "put"] as const) {
+      const price = (x: BSInputs) => {
+        const result = blackScholes(x);
+        return optionType === "call" ? result.callPrice : result.putPrice;
+      };
+      const greeks = allGreeks(inputs, optionType);
+      expect(greeks.delta).toBeCloseTo(sensitivity(price, inputs, "S", 1e-6), 8);
+      expect(greeks.theta).toBeCloseTo(-sensitivity(price, inputs, "T", 1e-5) / 365, 10);
+      expect(greeks.vega).toBeCloseTo(sensitivity(price, inputs, "sigma", 1e-6) / 100, 10);
+      expect(greeks.rho).toBeCloseTo(sensitivity(price, inputs, "r", 1e-6) / 100, 10);
+    }
+  });
+
+  it("recovers the shifted volatility from its own prices", () => {
+    for (const K of [-0.01, -0.004, 0, 0.005, 0.02]) {
+      const { putPrice } = blackScholes({ ...inputs, K });
+      const { S, T, r, shift } = inputs;
+      expect(impliedVolatility(putPrice, { S, K, T, r, shift }, "put", 100, 1e-14)).toBeCloseTo(
+        0.2,
+        6
+      );
+    }
+  });
+});
+
+describe("mertonJumpDiffusion", () => {
+  const inputs = { S: 100, K: 95, T: 0.5, r: 0.04, sigma: 0.2, q: 0.01 };
+  const jumps = { lambda: 1.5, muJ: -0.1, sigmaJ: 0.15 };
+
+  it("reduces to Black-Scholes-Merton without jumps", () => {
+    const noJumps = mertonJumpDiffusion(inputs, { ...jumps, lambda: 0 });
+    const closed = blackScholes(inputs);
+    expect(noJumps.callPrice).toBeCloseTo(closed.callPrice, 12);
+    expect(noJumps.putPrice).toBeCloseTo(closed.putPrice, 12);
+  });
+
+  it("satisfies put-call parity", () => {
+    const { S, K, T, r, q } = inputs;
+    const { callPrice, putPrice } = mertonJumpDiffusion(inputs, jumps);
+    // Up to the 1e-12 of Poisson mass left out of the series
+    expect(callPrice - putPrice).toBeCloseTo(S * Math.exp(-q * T) - K * Math.exp(-r * T), 8);
+  });
+
+  it("prices off its own risk-neutral density", () => {
+    // Midpoint rule over the density: total mass, forward and call payoff
+    const { S, K, T, r, q } = inputs;
+    const h = 0.01;
+    let mass = 0;
+    let mean = 0;
+    let call = 0;
+    for (let sT = h / 2; sT < 6 * S; sT += h) {
+      const f = mertonDensity(sT, inputs, jumps) * h;
+      mass += f;
+      mean += sT * f;
+      call += Math.max(sT - K, 0) * f;
+    }
+    expect(mass).toBeCloseTo(1, 8);
+    expect(mean).toBeCloseTo(S * Math.exp((r - q) * T), 6);
+    expect(Math.exp(-r * T) * call).toBeCloseTo(mertonJumpDiffusion(inputs, jumps).callPrice, 5);
+  });
+});
+
+describe("digitalOption", () => {
+  it("matches Haug's reference prices", () => {
+    // Haug, The Complete Guide to Option Pricing Formulas, sec. 4.19.2-4.19.3
+    const cash = { S: 100, K: 80, T: 0.75, r: 0.06, q: 0.06, sigma: 0.35 };
+    expect(digitalOption(cash, "put", "cash-or-nothing", 10)).toBeCloseTo(2.671, 4);
+    const asset = { S: 70, K: 65, T: 0.5, r: 0.07, q: 0.05, sigma: 0.27 };
+    expect(digitalOption(asset, "put", "asset-or-nothing")).toBeCloseTo(20.2069, 4);
+  });
+
+  it("replicates the vanilla, with and without a shift", () => {
+    const cases: BSInputs[] = [
+      { S: 100, K: 95, T: 1, r: 0.05, sigma: 0.25, q: 0.02 },
+      { S: 0.01, K: -0.005, T: 2, r: 0.02, sigma: 0.2, q: 0.01, shift: 0.03 },
+    ];
+    for (const inputs of cases) {
+      const { S, K, T, r, q = 0 } = inputs;
+      const vanilla = blackScholes(inputs);
+      const digital = (optionType: "call" | "put", type: DigitalType) =>
+        digitalOption(inputs, optionType, type);
+      const call = digital("call", "asset-or-nothing") - K * digital("call", "cash-or-nothing");
+      const put = K * digital("put", "cash-or-nothing") - digital("put", "asset-or-nothing");
+      expect(call).toBeCloseTo(vanilla.callPrice, 12);
+      expect(put).toBeCloseTo(vanilla.putPrice, 12);
+      // Calls and puts together pay the bond and the asset
+      const cashSum = digital("call", "cash-or-nothing") + digital("put", "cash-or-nothing");
+      const assetSum = digital("call", "asset-or-nothing") + digital("put", "asset-or-nothing");
+      expect(cashSum).toBeCloseTo(Math.exp(-r * T), 14);
+      expect(assetSum).toBeCloseTo(S * Math.exp(-q * T), 12);
+    }
+  });
+
+  it("gives Greeks that match finite differences, with and without a shift", () => {
+    const cases: BSInputs[] = [
+      { S: 100, K: 105, T: 0.75, r: 0.04, sigma: 0.3, q: 0.015 },
+      { S: 0.01, K: -0.005, T: 2, r: 0.02, sigma: 0.2, q: 0.01, shift: 0.03 },
+    ];
+    for (const inputs of cases) {
+      const h = inputs.S * 1e-6;
+      for (const optionType of ["call", "put"] as const) {
+        for (const type of ["cash-or-nothing", "asset-or-nothing"] as const) {
+          const price = (x: BSInputs) => digitalOption(x, optionType, type);
+          const greeks = digitalGreeks(inputs, optionType, type);
+          const delta = (x: BSInputs) => digitalGreeks(x, optionType, type).delta;
+          agree(greeks.delta, sensitivity(price, inputs, "S", h));
+          agree(greeks.gamma, sensitivity(delta, inputs, "S", h));
+          agree(greeks.theta, -sensitivity(price, inputs, "T", 1e-5) / 365);
+          agree(greeks.vega, sensitivity(price, inputs, "sigma", 1e-6) / 100);
+          agree(greeks.rho, sensitivity(price, inputs, "r", 1e-6) / 100);
+          agree(greeks.psi, sensitivity(price, inputs, "q", 1e-6) / 100);
+        }
+      }
+    }
+  });
+});
+
+describe("extendedGreeks", () => {
+  it("differentiate the lower-order Greeks, with and without a shift", () => {
+    const cases: BSInputs[] = [
+      { S: 100, K: 105, T: 0.75, r: 0.04, sigma: 0.3, q: 0.015 },
+      { S: 0.01, K: -0.005, T: 2, r: 0.02, sigma: 0.2, q: 0.01, shift: 0.03 },
+    ];
+    for (const inputs of cases) {
+      const h = inputs.S * 1e-5;
+      for (const optionType of ["call", "put"] as const) {
+        const first = (key: keyof Greeks) => (x: BSInputs) => allGreeks(x, optionType)[key];
+        const higher = (key: keyof ExtendedGreeks) => (x: BSInputs) =>
+          extendedGreeks(x, optionType)[key];
+        const price = (x: BSInputs) => {
+          const result = blackScholes(x);
+          return optionType === "call" ? result.callPrice : result.putPrice;
+        };
+        const greeks = extendedGreeks(inputs, optionType);
+
+        // Vol sensitivities are per 1% move, decays per calendar day
+        agree(greeks.vanna, sensitivity(first("delta"), inputs, "sigma", 1e-5) / 100);
+        agree(greeks.volga, sensitivity(first("vega"), inputs, "sigma", 1e-5) / 100);
+        agree(greeks.zomma, sensitivity(first("gamma"), inputs, "sigma", 1e-5) / 100);
+        agree(greeks.ultima, sensitivity(higher("volga"), inputs, "sigma", 1e-5) / 100);
+        agree(greeks.speed, sensitivity(first("gamma"), inputs, "S", h));
+        agree(greeks.charm, -sensitivity(first("delta"), inputs, "T", 1e-5) / 365);
+        agree(greeks.color, -sensitivity(first("gamma"), inputs, "T", 1e-5) / 365);
+        agree(greeks.veta, -sensitivity(first("vega"), inputs, "T", 1e-5) / 365);
+        agree(greeks.dualDelta, sensitivity(price, inputs, "K", h));
+        agree(greeks.dualGamma, sensitivity(higher("dualDelta"), inputs, "K", h));
+      }
+    }
+  });
+});
+
+describe("solveImpliedVolatility", () => {
+  it("round-trips prices across strikes, maturities and vols", () => {
+    for (const K of [20, 50, 80, 95, 100, 105, 120, 200, 500]) {
+      for (const T of [0.02, 0.25, 1, 5, 30]) {
+        for (const sigma of [0.01, 0.05, 0.2, 0.5, 1.5, 4]) {
+          for (const optionType of ["call", "put"] as const) {
+            const inputs = { S: 100, K, T, r: 0.03, q: 0.01 };
+            const prices = blackScholes({ ...inputs, sigma });
+            const price = optionType === "call" ? prices.callPrice : prices.putPrice;
+            const result = solveImpliedVolatility(price, inputs, optionType);
+            if (allGreeks({ ...inputs, sigma }, optionType).vega > 1e-3) {
+              // Enough vega for the 1e-8 price tolerance to pin down the vol
+              expect(result.reason).toBe("converged");
+              expect(Math.abs(result.iv - sigma)).toBeLessThan(1e-5);
+            } else {
+              // Otherwise the price may round onto one of its no-arbitrage bounds
+              expect(["converged", "below-intrinsic", "above-upper-bound"]).toContain(
+                result.reason
+              );
+            }
+            if (result.reason === "converged") {
+              expect(Math.abs(result.priceError)).toBeLessThan(1e-8);
+            }
+          }
+        }
+      }
+    }
+  });
+
+  it("falls back to Brent when Newton leaves the bracket", () => {
+    const inputs = { S: 100, K: 14, T: 20, r: 0.03, q: 0.01 };
+    const { putPrice } = blackScholes({ ...inputs, sigma: 0.56 });
+    const result = solveImpliedVolatility(putPrice, inputs, "put");
+    expect(result.fallback).toBe(true);
+    expect(result.reason).toBe("converged");
+    expect(result.iv).toBeCloseTo(0.56, 8);
+  });
+
+  it("inverts prices under a cash dividend schedule", () => {
+    const inputs = { S: 100, K: 100, T: 1, r: 0.05 };
+    const dividends = [
+      { time: 0.25, amount: 1.5 },
+      { time: 0.75, amount: 1.5 },
+    ];
+    const { putPrice } = blackScholes({ ...inputs, sigma: 0.3 }, dividends);
+    const result = solveImpliedVolatility(putPrice, inputs, "put", 100, 1e-10, dividends);
+    expect(result.iv).toBeCloseTo(0.3, 8);
+  });
+
+  it("reports why a quote has no implied volatility", () => {
+    const inputs = { S: 100, K: 100, T: 1, r: 0 };
+    const reason = (...args: Parameters<typeof solveImpliedVolatility>) =>
+      solveImpliedVolatility(...args).reason;
+    expect(reason(5, { ...inputs, T: 0 }, "call")).toBe("invalid-input");
+    expect(reason(NaN, inputs, "call")).toBe("invalid-input");
+    expect(reason(0.001, { S: -0.01, K: 0.01, T: 1, r: 0, shift: 0.005 }, "call")).toBe(
+      "invalid-input"
+    );
+    expect(reason(0, inputs, "put")).toBe("below-intrinsic");
+    expect(reason(101, inputs, "call")).toBe("above-upper-bound");
+    expect(reason(8, inputs, "call", 1)).toBe("no-convergence");
+  });
+});
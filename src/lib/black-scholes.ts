@@ -3,7 +3,16 @@
  *
  * Implements the Black-Scholes-Merton model for European option pricing,
  * including all first- and second-order Greeks, implied volatility via
- * Newton-Raphson, and the cumulative normal distribution function.
+ * Newton-Raphson, and the cumulative normal distribution function and its
+ * inverse.
+ * An optional continuous dividend yield q gives Merton's (1973) extension;
+ * discrete cash dividends are handled with the escrowed-dividend model.
+ * Options on futures and forwards are priced with Black's (1976) model,
+ * and FX options with Garman-Kohlhagen (1983). Bachelier's (1900) normal
+ * model covers underlyings quoted in normal (absolute) volatility. A
+ * displacement (shifted-lognormal) parameter extends the lognormal model to
+ * low or negative underlyings and strikes. Merton's (1976) jump-diffusion
+ * series adds lognormal jumps to the diffusion.
  *
  * Reference: Black, F. & Scholes, M. (1973). "The Pricing of Options
  * and Corporate Liabilities." Journal of Political Economy, 81(3), 637-654.
@@ -18,12 +27,149 @@ export function normPDF(x: number): number {
   return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
 }
 
+// Cody's rational approximations for the normal CDF, as in ACM TOMS
+// Algorithm 715 (ANORM): central region |x| <= 0.67448975
+const CODY_A = [
+  2.2352520354606839287, 161.02823106855587881, 1067.6894854603709582,
+  18154.981253343561249, 0.065682337918207449113,
+];
+const CODY_B = [
+  47.20258190468824187, 976.09855173777669322, 10260.932208618978205,
+  45507.789335026729956,
+];
+// 0.67448975 < |x| <= sqrt(32)
+const CODY_C = [
+  0.39894151208813466764, 8.8831497943883759412, 93.506656132177855979,
+  597.27027639480026226, 2494.5375852903726711, 6848.1904505362823326,
+  11602.651437647350124, 9842.7148383839780218, 1.0765576773720192317e-8,
+];
+const CODY_D = [
+  22.266688044328115691, 235.38790178262499861, 1519.377599407554805,
+  6485.558298266760755, 18615.571640885098091, 34900.952721145977266,
+  38912.003286093271411, 19685.429676859990727,
+];
+// |x| > sqrt(32)
+const CODY_P = [
+  0.21589853405795699, 0.1274011611602473639, 0.022235277870649807,
+  0.001421619193227893466, 2.9112874951168792e-5, 0.02307344176494017303,
+];
+const CODY_Q = [
+  1.28426009614491121, 0.468238212480865118, 0.0659881378689285515,
+  0.00378239633202758244, 7.29751555083966205e-5,
+];
+
 /**
- * Cumulative standard normal distribution function.
- * Uses the Abramowitz & Stegun rational approximation (formula 26.2.17)
- * with maximum error < 7.5e-8.
+ * Lower tail Phi(-|x|) = phi(x) R(|x|) for |x| > 0.67448975, where R is the
+ * Mills ratio from Cody's rational approximations. exp(-x^2/2) is split as
+ * exp(-x0^2/2) exp(-(x - x0)(x + x0)/2) with x0 = |x| rounded down to a
+ * multiple of 1/16, so no precision is lost to rounding x^2.
+ */
+function normTail(absX: number): number {
+  let ratio: number;
+  if (absX <= Math.sqrt(32)) {
+    let num = CODY_C[8] * absX;
+    let den = absX;
+    for (let i = 0; i < 7; i++) {
+      num = (num + CODY_C[i]) * absX;
+      den = (den + CODY_D[i]) * absX;
+    }
+    ratio = (num + CODY_C[7]) / (den + CODY_D[7]);
+  } else {
+    const inv = 1 / (absX * absX);
+    let num = CODY_P[5] * inv;
+    let den = inv;
+    for (let i = 0; i < 4; i++) {
+      num = (num + CODY_P[i]) * inv;
+      den = (den + CODY_Q[i]) * inv;
+    }
+    ratio = (1 / Math.sqrt(2 * Math.PI) - (inv * (num + CODY_P[4])) / (den + CODY_Q[4])) / absX;
+  }
+  const rounded = Math.trunc(absX * 16) / 16;
+  const remainder = (absX - rounded) * (absX + rounded);
+  return Math.exp(-0.5 * rounded * rounded) * Math.exp(-0.5 * remainder) * ratio;
+}
+
+/**
+ * Cumulative standard normal distribution function, to double precision.
+ *
+ * Cody's algorithm (ACM TOMS 715): a rational approximation of Phi around
+ * zero and, beyond |x| = 0.67448975, of the tail Phi(-|x|) itself, the
+ * erfc side of the function. The tail is never formed as 1 - Phi, so
+ * deep out-of-the-money probabilities keep full relative accuracy down to
+ * underflow near x = -38.
+ *
+ * Reference: Cody, W. J. (1993). "Algorithm 715: SPECFUN." ACM
+ * Transactions on Mathematical Software, 19(1), 22-32.
  */
 export function normCDF(x: number): number {
+  if (Number.isNaN(x)) return NaN;
+  const absX = Math.abs(x);
+  if (absX <= 0.67448975) {
+    const xsq = x * x;
+    let num = CODY_A[4] * xsq;
+    let den = xsq;
+    for (let i = 0; i < 3; i++) {
+      num = (num + CODY_A[i]) * xsq;
+      den = (den + CODY_B[i]) * xsq;
+    }
+    return 0.5 + (x * (num + CODY_A[3])) / (den + CODY_B[3]);
+  }
+  const tail = normTail(absX);
+  return x < 0 ? tail : 1 - tail;
+}
+
+/**
+ * Complementary error function, erfc(x) = 2 Phi(-x sqrt(2)), with the
+ * same relative accuracy in the tail as `normCDF`.
+ */
+export function erfc(x: number): number {
+  return 2 * normCDF(-x * Math.SQRT2);
+}
+
+/**
+ * The Abramowitz & Stegun 7.1.26 erf approximation as it should have been
+ * implemented, kept for comparison: |error| < 7.5e-8 in Phi, clamped to 0
+ * and 1 beyond |x| = 10. Its absolute error is small but its relative
+ * error in the lower tail is not. Unlike `normCDFBaseline` it scales erf's
+ * argument by 1/sqrt(2).
+ */
+export function normCDFAbramowitzStegun(x: number): number {
+  if (x < -10) return 0;
+  if (x > 10) return 1;
+
+  const a1 = 0.254829592;
+  const a2 = -0.284496736;
+  const a3 = 1.421413741;
+  const a4 = -1.453152027;
+  const a5 = 1.061405429;
+  const p = 0.3275911;
+
+  const sign = x < 0 ? -1 : 1;
+  const absX = Math.abs(x) / Math.SQRT2;
+  const t = 1.0 / (1.0 + p * absX);
+  const t2 = t * t;
+  const t3 = t2 * t;
+  const t4 = t3 * t;
+  const t5 = t4 * t;
+
+  const y =
+    1.0 -
+    (a1 * t + a2 * t2 + a3 * t3 + a4 * t4 + a5 * t5) *
+      Math.exp(-absX * absX);
+
+  return 0.5 * (1.0 + sign * y);
+}
+
+/**
+ * The cumulative normal this library shipped before `normCDF` was replaced,
+ * kept verbatim so its error can be measured. It forms the A&S 7.1.26
+ * polynomial variable as t = 1/(1 + p|x|) where erf(x/sqrt(2)) needs
+ * t = 1/(1 + p|x|/sqrt(2)), so it is not the standard normal CDF: Phi(1)
+ * comes out as 0.870 instead of 0.841, and the worst absolute error is
+ * about 3.7e-2 near x = 0.57. Every price computed with it moves once the
+ * correct `normCDF` is used.
+ */
+export function normCDFBaseline(x: number): number {
   if (x < -10) return 0;
   if (x > 10) return 1;
 
@@ -50,6 +196,192 @@ export function normCDF(x: number): number {
   return 0.5 * (1.0 + sign * y);
 }
 
+// Acklam's rational approximations for the inverse normal CDF
+const ACKLAM_A = [
+  -3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2,
+  1.38357751867269e2, -3.066479806614716e1, 2.506628277459239,
+];
+const ACKLAM_B = [
+  -5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2,
+  6.680131188771972e1, -1.328068155288572e1,
+];
+const ACKLAM_C = [
+  -7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838,
+  -2.549732539343734, 4.374664141464968, 2.938163982698783,
+];
+const ACKLAM_D = [
+  7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996,
+  3.754408661907416,
+];
+const ACKLAM_P_LOW = 0.02425;
+
+/**
+ * Inverse cumulative standard normal, x = Phi^{-1}(p), e.g. for strikes
+ * from deltas and for quantiles.
+ *
+ * Acklam's algorithm: a rational approximation in p - 1/2 for
+ * 0.02425 <= p <= 0.97575 and in sqrt(-2 ln p) in the tails (relative
+ * error < 1.15e-9), then one Halley step on Phi(x) - p, which brings it
+ * to full double precision. Tails are evaluated on min(p, 1 - p) so small
+ * probabilities keep their relative accuracy.
+ *
+ * @param refine - Apply the Halley correction (default true)
+ * @returns -Infinity at p = 0, Infinity at p = 1, NaN outside [0, 1]
+ */
+export function inverseNormCDF(p: number, refine: boolean = true): number {
+  if (!(p >= 0 && p <= 1)) return NaN;
+  if (p === 0) return -Infinity;
+  if (p === 1) return Infinity;
+
+  let x: number;
+  if (p < ACKLAM_P_LOW || p > 1 - ACKLAM_P_LOW) {
+    const tail = Math.min(p, 1 - p);
+    const u = Math.sqrt(-2 * Math.log(tail));
+    const c = ACKLAM_C;
+    const d = ACKLAM_D;
+    x =
+      (((((c[0] * u + c[1]) * u + c[2]) * u + c[3]) * u + c[4]) * u + c[5]) /
+      ((((d[0] * u + d[1]) * u + d[2]) * u + d[3]) * u + 1);
+    if (p > 0.5) x = -x;
+  } else {
+    const u = p - 0.5;
+    const v = u * u;
+    const a = ACKLAM_A;
+    const b = ACKLAM_B;
+    x =
+      ((((((a[0] * v + a[1]) * v + a[2]) * v + a[3]) * v + a[4]) * v + a[5]) * u) /
+      (((((b[0] * v + b[1]) * v + b[2]) * v + b[3]) * v + b[4]) * v + 1);
+  }
+
+  if (refine) {
+    // Halley's method; Phi(x) - p is formed from the smaller tail
+    const error = x < 0 ? normCDF(x) - p : 1 - p - normCDF(-x);
+    const u = error * Math.sqrt(2 * Math.PI) * Math.exp(0.5 * x * x);
+    x -= u / (1 + (x * u) / 2);
+  }
+  return x;
+}
+
+// Gauss-Legendre abscissae (negative half) and weights used by Genz's
+// bivariate normal algorithm, for 6, 12 and 20 point rules.
+const GL_POINTS: { x: number[]; w: number[] }[] = [
+  {
+    x: [-0.9324695142031522, -0.6612093864662647, -0.238619186083197],
+    w: [0.1713244923791705, 0.3607615730481384, 0.4679139345726904],
+  },
+  {
+    x: [
+      -0.9815606342467191, -0.904117256370475, -0.769902674194305,
+      -0.5873179542866171, -0.3678314989981802, -0.1252334085114692,
+    ],
+    w: [
+      0.04717533638651177, 0.1069393259953183, 0.1600783285433464,
+      0.2031674267230659, 0.2334925365383547, 0.2491470458134029,
+    ],
+  },
+  {
+    x: [
+      -0.9931285991850949, -0.9639719272779138, -0.9122344282513259,
+      -0.8391169718222188, -0.7463319064601508, -0.636053680726515,
+      -0.5108670019508271, -0.3737060887154196, -0.2277858511416451,
+      -0.07652652113349733,
+    ],
+    w: [
+      0.01761400713915212, 0.04060142980038694, 0.06267204833410906,
+      0.08327674157670475, 0.1019301198172404, 0.1181945319615184,
+      0.1316886384491766, 0.1420961093183821, 0.1491729864726037,
+      0.1527533871307259,
+    ],
+  },
+];
+
+/**
+ * Cumulative bivariate standard normal distribution
+ *   M(a, b; rho) = P(X <= a, Y <= b),  corr(X, Y) = rho
+ *
+ * Genz's (2004) algorithm: Gauss-Legendre quadrature of the Plackett/Drezner
+ * integral for |rho| < 0.925, and an asymptotic expansion plus quadrature
+ * of the remainder for higher correlations. Accurate to the precision of
+ * `normCDF`.
+ *
+ * Reference: Genz, A. (2004). "Numerical Computation of Rectangular
+ * Bivariate and Trivariate Normal and t Probabilities." Statistics and
+ * Computing, 14(3), 251-260.
+ */
+export function bivariateNormCDF(a: number, b: number, rho: number): number {
+  const absRho = Math.abs(rho);
+  const { x, w } = GL_POINTS[absRho < 0.3 ? 0 : absRho < 0.75 ? 1 : 2];
+
+  // Genz works with upper-tail limits: P(X > h, Y > k)
+  const h = -a;
+  let k = -b;
+  let hk = h * k;
+  let bvn = 0;
+
+  if (absRho < 0.925) {
+    const hs = (h * h + k * k) / 2;
+    const asr = Math.asin(rho);
+    for (let i = 0; i < x.length; i++) {
+      for (const sign of [-1, 1]) {
+        const sn = Math.sin((asr * (sign * x[i] + 1)) / 2);
+        bvn += w[i] * Math.exp((sn * hk - hs) / (1 - sn * sn));
+      }
+    }
+    return (bvn * asr) / (4 * Math.PI) + normCDF(-h) * normCDF(-k);
+  }
+
+  if (rho < 0) {
+    k = -k;
+    hk = -hk;
+  }
+
+  if (absRho < 1) {
+    const as = (1 - rho) * (1 + rho);
+    let aa = Math.sqrt(as);
+    const bs = (h - k) * (h - k);
+    const c = (4 - hk) / 8;
+    const d = (12 - hk) / 16;
+    let asr = -(bs / as + hk) / 2;
+    if (asr > -100) {
+      bvn =
+        aa *
+        Math.exp(asr) *
+        (1 - (c * (bs - as) * (1 - (d * bs) / 5)) / 3 + (c * d * as * as) / 5);
+    }
+    if (-hk < 100) {
+      const bb = Math.sqrt(bs);
+      bvn -=
+        Math.exp(-hk / 2) *
+        Math.sqrt(2 * Math.PI) *
+        normCDF(-bb / aa) *
+        bb *
+        (1 - (c * bs * (1 - (d * bs) / 5)) / 3);
+    }
+    aa /= 2;
+    for (let i = 0; i < x.length; i++) {
+      for (const sign of [-1, 1]) {
+        const xs = Math.pow(aa * (sign * x[i] + 1), 2);
+        const rs = Math.sqrt(1 - xs);
+        asr = -(bs / xs + hk) / 2;
+        if (asr > -100) {
+          bvn +=
+            aa *
+            w[i] *
+            Math.exp(asr) *
+            (Math.exp((-hk * (1 - rs)) / (2 * (1 + rs))) / rs -
+              (1 + c * xs * (1 + d * xs)));
+        }
+      }
+    }
+    bvn = -bvn / (2 * Math.PI);
+  }
+
+  if (rho > 0) return bvn + normCDF(-Math.max(h, k));
+  bvn = -bvn;
+  if (k > h) bvn += normCDF(k) - normCDF(h);
+  return bvn;
+}
+
 // ─── Black-Scholes Model ─────────────────────────────────────────────────────
 
 export interface BSInputs {
@@ -58,6 +390,8 @@ export interface BSInputs {
   T: number; // Time to expiration (years)
   r: number; // Risk-free rate (decimal, e.g. 0.05 for 5%)
   sigma: number; // Volatility (decimal, e.g. 0.20 for 20%)
+  q?: number; // Continuous dividend yield (decimal, default 0)
+  shift?: number; // Displacement added to forward and strike (default 0)
 }
 
 export interface BSResult {
@@ -73,34 +407,92 @@ export interface Greeks {
   theta: number; // per calendar day
   vega: number; // per 1% move in vol
   rho: number; // per 1% move in rate
+  psi: number; // per 1% move in dividend yield
+}
+
+/**
+ * Check that the inputs lie inside the (shifted) lognormal model's domain:
+ * the shifted forward F + shift and the shifted strike K + shift must both
+ * be positive, where F = S * e^{(r-q)T}.
+ *
+ * @returns A description of the violation, or null if the inputs are valid
+ */
+export function lognormalDomainError(inputs: BSInputs): string | null {
+  const { S, K, T, r, q = 0, shift = 0 } = inputs;
+  const shiftedForward = S * Math.exp((r - q) * Math.max(T, 0)) + shift;
+  if (shiftedForward <= 0) {
+    return `Shifted forward F + shift = ${shiftedForward.toFixed(4)} must be positive`;
+  }
+  if (K + shift <= 0) {
+    return `Shifted strike K + shift = ${(K + shift).toFixed(4)} must be positive`;
+  }
+  return null;
 }
 
 /**
  * Compute d1 and d2 parameters of the Black-Scholes formula.
  *
- *   d1 = [ln(S/K) + (r + sigma^2/2)*T] / (sigma * sqrt(T))
+ *   d1 = [ln(S/K) + (r - q + sigma^2/2)*T] / (sigma * sqrt(T))
  *   d2 = d1 - sigma * sqrt(T)
+ *
+ * With a displacement the shifted forward F + shift is lognormal:
+ *   d1 = [ln((F + shift)/(K + shift)) + sigma^2*T/2] / (sigma * sqrt(T))
+ * which reduces to the above when shift = 0. Inputs outside the model's
+ * domain (see `lognormalDomainError`) give NaN.
  */
 export function computeD1D2(inputs: BSInputs): { d1: number; d2: number } {
-  const { S, K, T, r, sigma } = inputs;
-  if (T <= 0 || sigma <= 0 || S <= 0 || K <= 0) {
+  const { S, K, T, r, sigma, q = 0, shift = 0 } = inputs;
+  if (T <= 0 || sigma <= 0) {
     return { d1: 0, d2: 0 };
   }
+  if (lognormalDomainError(inputs) !== null) {
+    return { d1: NaN, d2: NaN };
+  }
   const sqrtT = Math.sqrt(T);
   const d1 =
-    (Math.log(S / K) + (r + 0.5 * sigma * sigma) * T) / (sigma * sqrtT);
+    shift === 0
+      ? (Math.log(S / K) + (r - q + 0.5 * sigma * sigma) * T) / (sigma * sqrtT)
+      : (Math.log((S * Math.exp((r - q) * T) + shift) / (K + shift)) +
+          0.5 * sigma * sigma * T) /
+        (sigma * sqrtT);
   const d2 = d1 - sigma * sqrtT;
   return { d1, d2 };
 }
 
+/**
+ * Discounted shifted forward and strike, e^{-rT}(F + shift) and
+ * e^{-rT}(K + shift). With no shift these are S e^{-qT} and K e^{-rT}.
+ */
+function shiftedLegs(inputs: BSInputs): { spotLeg: number; strikeLeg: number } {
+  const { S, K, T, r, q = 0, shift = 0 } = inputs;
+  const discount = Math.exp(-r * T);
+  return {
+    spotLeg: S * Math.exp(-q * T) + shift * discount,
+    strikeLeg: (K + shift) * discount,
+  };
+}
+
 /**
  * Black-Scholes European option pricing.
  *
- *   Call = S * N(d1) - K * e^{-rT} * N(d2)
- *   Put  = K * e^{-rT} * N(-d2) - S * N(-d1)
+ *   Call = S * e^{-qT} * N(d1) - K * e^{-rT} * N(d2)
+ *   Put  = K * e^{-rT} * N(-d2) - S * e^{-qT} * N(-d1)
+ *
+ * With a displacement, S e^{-qT} and K e^{-rT} become e^{-rT}(F + shift) and
+ * e^{-rT}(K + shift).
+ *
+ * When a cash dividend schedule is given, S is replaced by the escrowed
+ * spot S - PV(dividends paid before expiry).
  */
-export function blackScholes(inputs: BSInputs): BSResult {
-  const { S, K, T, r } = inputs;
+export function blackScholes(
+  inputs: BSInputs,
+  dividends: DividendSchedule = []
+): BSResult {
+  if (dividends.length > 0) {
+    return blackScholes(escrowedInputs(inputs, dividends));
+  }
+
+  const { S, K, T } = inputs;
 
   if (T <= 0) {
     // At expiration
@@ -110,10 +502,10 @@ export function blackScholes(inputs: BSInputs): BSResult {
   }
 
   const { d1, d2 } = computeD1D2(inputs);
-  const discount = Math.exp(-r * T);
+  const { spotLeg, strikeLeg } = shiftedLegs(inputs);
 
-  const callPrice = S * normCDF(d1) - K * discount * normCDF(d2);
-  const putPrice = K * discount * normCDF(-d2) - S * normCDF(-d1);
+  const callPrice = spotLeg * normCDF(d1) - strikeLeg * normCDF(d2);
+  const putPrice = strikeLeg * normCDF(-d2) - spotLeg * normCDF(-d1);
 
   return {
     callPrice: Math.max(callPrice, 0),
@@ -123,11 +515,48 @@ export function blackScholes(inputs: BSInputs): BSResult {
   };
 }
 
+// ─── Discrete Cash Dividends ─────────────────────────────────────────────────
+
+export interface CashDividend {
+  amount: number; // Cash amount per share
+  time: number; // Ex-dividend date, in years from today
+}
+
+export type DividendSchedule = CashDividend[];
+
+/**
+ * Present value of the dividends going ex within the option's life:
+ *   PV = sum_{0 < t_i <= T} D_i * e^{-r * t_i}
+ */
+export function dividendsPV(
+  dividends: DividendSchedule,
+  T: number,
+  r: number
+): number {
+  let pv = 0;
+  for (const { amount, time } of dividends) {
+    if (time > 0 && time <= T) pv += amount * Math.exp(-r * time);
+  }
+  return pv;
+}
+
+/**
+ * Escrowed-dividend model: the dividends paid before expiry are known with
+ * certainty, so only S - PV(dividends) is lognormal and is priced by
+ * Black-Scholes in place of S.
+ */
+export function escrowedInputs<T extends Pick<BSInputs, "S" | "T" | "r">>(
+  inputs: T,
+  dividends: DividendSchedule
+): T {
+  return { ...inputs, S: inputs.S - dividendsPV(dividends, inputs.T, inputs.r) };
+}
+
 // ─── Greeks ──────────────────────────────────────────────────────────────────
 
 /**
- * Call Delta = N(d1)
- * Put Delta  = N(d1) - 1
+ * Call Delta = e^{-qT} * N(d1)
+ * Put Delta  = e^{-qT} * (N(d1) - 1)
  */
 export function delta(inputs: BSInputs, optionType: "call" | "put"): number {
   if (inputs.T <= 0) {
@@ -135,153 +564,547 @@ export function delta(inputs: BSInputs, optionType: "call" | "put"): number {
     return inputs.S < inputs.K ? -1 : 0;
   }
   const { d1 } = computeD1D2(inputs);
-  return optionType === "call" ? normCDF(d1) : normCDF(d1) - 1;
+  const divDiscount = Math.exp(-(inputs.q ?? 0) * inputs.T);
+  return optionType === "call"
+    ? divDiscount * normCDF(d1)
+    : divDiscount * (normCDF(d1) - 1);
 }
 
 /**
- * Gamma = phi(d1) / (S * sigma * sqrt(T))
- * Same for calls and puts.
+ * Gamma = e^{-qT} * phi(d1) / (S * sigma * sqrt(T))
+ * Same for calls and puts. With a displacement, S e^{-qT} in the
+ * denominator becomes e^{-rT}(F + shift) and gains a further e^{-qT}.
  */
 export function gamma(inputs: BSInputs): number {
-  const { S, T, sigma } = inputs;
+  const { T, sigma, q = 0 } = inputs;
   if (T <= 0 || sigma <= 0) return 0;
   const { d1 } = computeD1D2(inputs);
-  return normPDF(d1) / (S * sigma * Math.sqrt(T));
+  const { spotLeg } = shiftedLegs(inputs);
+  return (Math.exp(-2 * q * T) * normPDF(d1)) / (spotLeg * sigma * Math.sqrt(T));
 }
 
 /**
  * Theta (per calendar day):
- *   Call: [-S*phi(d1)*sigma/(2*sqrt(T)) - r*K*e^{-rT}*N(d2)] / 365
- *   Put:  [-S*phi(d1)*sigma/(2*sqrt(T)) + r*K*e^{-rT}*N(-d2)] / 365
+ *   Call: [-S*e^{-qT}*phi(d1)*sigma/(2*sqrt(T)) - r*K*e^{-rT}*N(d2) + q*S*e^{-qT}*N(d1)] / 365
+ *   Put:  [-S*e^{-qT}*phi(d1)*sigma/(2*sqrt(T)) + r*K*e^{-rT}*N(-d2) - q*S*e^{-qT}*N(-d1)] / 365
+ *
+ * With a displacement the first term uses e^{-rT}(F + shift) in place of
+ * S*e^{-qT}, K becomes K + shift, and the call (put) gains
+ * +r*shift*e^{-rT}*N(d1) (-r*shift*e^{-rT}*N(-d1)).
  */
 export function theta(inputs: BSInputs, optionType: "call" | "put"): number {
-  const { S, K, T, r, sigma } = inputs;
+  const { S, T, r, sigma, q = 0, shift = 0 } = inputs;
   if (T <= 0) return 0;
   const { d1, d2 } = computeD1D2(inputs);
   const sqrtT = Math.sqrt(T);
   const discount = Math.exp(-r * T);
-  const term1 = (-S * normPDF(d1) * sigma) / (2 * sqrtT);
+  const divDiscount = Math.exp(-q * T);
+  const { spotLeg, strikeLeg } = shiftedLegs(inputs);
+  const term1 = (-spotLeg * normPDF(d1) * sigma) / (2 * sqrtT);
 
   if (optionType === "call") {
-    return (term1 - r * K * discount * normCDF(d2)) / 365;
+    return (
+      (term1 -
+        r * strikeLeg * normCDF(d2) +
+        q * S * divDiscount * normCDF(d1) +
+        r * shift * discount * normCDF(d1)) /
+      365
+    );
   } else {
-    return (term1 + r * K * discount * normCDF(-d2)) / 365;
+    return (
+      (term1 +
+        r * strikeLeg * normCDF(-d2) -
+        q * S * divDiscount * normCDF(-d1) -
+        r * shift * discount * normCDF(-d1)) /
+      365
+    );
   }
 }
 
 /**
- * Vega = S * phi(d1) * sqrt(T)
+ * Vega = S * e^{-qT} * phi(d1) * sqrt(T)
  * Returned per 1% change in volatility (i.e., divided by 100).
- * Same for calls and puts.
+ * Same for calls and puts. With a displacement, S e^{-qT} becomes
+ * e^{-rT}(F + shift).
  */
 export function vega(inputs: BSInputs): number {
-  const { S, T } = inputs;
+  const { T } = inputs;
   if (T <= 0) return 0;
   const { d1 } = computeD1D2(inputs);
-  return (S * normPDF(d1) * Math.sqrt(T)) / 100;
+  const { spotLeg } = shiftedLegs(inputs);
+  return (spotLeg * normPDF(d1) * Math.sqrt(T)) / 100;
 }
 
 /**
  * Rho (per 1% change in rate):
  *   Call: K * T * e^{-rT} * N(d2) / 100
  *   Put:  -K * T * e^{-rT} * N(-d2) / 100
+ *
+ * With a displacement:
+ *   Call: T * e^{-rT} * [(K + shift) * N(d2) - shift * N(d1)] / 100
+ *   Put:  -T * e^{-rT} * [(K + shift) * N(-d2) - shift * N(-d1)] / 100
  */
 export function rho(inputs: BSInputs, optionType: "call" | "put"): number {
-  const { K, T, r } = inputs;
+  const { K, T, r, shift = 0 } = inputs;
   if (T <= 0) return 0;
-  const { d2 } = computeD1D2(inputs);
+  const { d1, d2 } = computeD1D2(inputs);
   const discount = Math.exp(-r * T);
 
   if (optionType === "call") {
-    return (K * T * discount * normCDF(d2)) / 100;
+    return (T * discount * ((K + shift) * normCDF(d2) - shift * normCDF(d1))) / 100;
   } else {
-    return (-K * T * discount * normCDF(-d2)) / 100;
+    return (-T * discount * ((K + shift) * normCDF(-d2) - shift * normCDF(-d1))) / 100;
+  }
+}
+
+/**
+ * Psi, the dividend-yield sensitivity (per 1% change in q):
+ *   Call: -S * T * e^{-qT} * N(d1) / 100
+ *   Put:   S * T * e^{-qT} * N(-d1) / 100
+ */
+export function psi(inputs: BSInputs, optionType: "call" | "put"): number {
+  const { S, T, q = 0 } = inputs;
+  if (T <= 0) return 0;
+  const { d1 } = computeD1D2(inputs);
+  const divDiscount = Math.exp(-q * T);
+
+  if (optionType === "call") {
+    return (-S * T * divDiscount * normCDF(d1)) / 100;
+  } else {
+    return (S * T * divDiscount * normCDF(-d1)) / 100;
   }
 }
 
 /**
  * Compute all Greeks for a given option.
+ *
+ * With a cash dividend schedule the Greeks are taken on the escrowed spot.
+ * Delta, gamma and vega carry over unchanged (the escrowed spot moves
+ * one-for-one with S); theta and rho pick up the drift of PV(dividends)
+ * through delta:
+ *   theta += -delta * r * sum D_i e^{-r t_i} / 365
+ *   rho   += delta * sum D_i t_i e^{-r t_i} / 100
  */
-export function allGreeks(inputs: BSInputs, optionType: "call" | "put"): Greeks {
+export function allGreeks(
+  inputs: BSInputs,
+  optionType: "call" | "put",
+  dividends: DividendSchedule = []
+): Greeks {
+  if (dividends.length > 0) {
+    const escrowed = escrowedInputs(inputs, dividends);
+    const greeks = allGreeks(escrowed, optionType);
+    let pvDividends = 0;
+    let pvTimeWeighted = 0;
+    for (const { amount, time } of dividends) {
+      if (time <= 0 || time > inputs.T) continue;
+      const pv = amount * Math.exp(-inputs.r * time);
+      pvDividends += pv;
+      pvTimeWeighted += pv * time;
+    }
+    return {
+      ...greeks,
+      theta: greeks.theta - (greeks.delta * inputs.r * pvDividends) / 365,
+      rho: greeks.rho + (greeks.delta * pvTimeWeighted) / 100,
+    };
+  }
+
   return {
     delta: delta(inputs, optionType),
     gamma: gamma(inputs),
     theta: theta(inputs, optionType),
     vega: vega(inputs),
     rho: rho(inputs, optionType),
+    psi: psi(inputs, optionType),
+  };
+}
+
+// ─── Higher-Order Greeks ─────────────────────────────────────────────────────
+
+export interface ExtendedGreeks extends Greeks {
+  vanna: number; // d(delta)/d(sigma), per 1% move in vol
+  volga: number; // d(vega)/d(sigma) (vomma), per 1% move in vol, vega per 1%
+  charm: number; // delta decay, per calendar day
+  speed: number; // d(gamma)/dS
+  color: number; // gamma decay, per calendar day
+  zomma: number; // d(gamma)/d(sigma), per 1% move in vol
+  veta: number; // vega decay, vega per 1% per calendar day
+  ultima: number; // d(volga)/d(sigma), per 1% move in vol, volga per 1%
+  lambda: number; // elasticity, delta * S / V
+  dualDelta: number; // dV/dK
+  dualGamma: number; // d^2V/dK^2
+}
+
+/**
+ * First-order Greeks plus the higher-order and strike sensitivities, all
+ * analytic. With D = e^{-qT}, b = r - q, phi = phi(d1) and
+ * dd1/dT = b/(sigma sqrt(T)) - d2/(2T):
+ *
+ *   Vanna  = -D phi d2 / sigma
+ *   Volga  = Vega d1 d2 / sigma                       (Vega = S D phi sqrt(T))
+ *   Charm  = -dDelta/dT = +/-q D N(+/-d1) - D phi dd1/dT   (call +, put -)
+ *   Speed  = -Gamma / S * (d1 / (sigma sqrt(T)) + 1)
+ *   Color  = -dGamma/dT = Gamma [q + 1/(2T) + d1 dd1/dT]
+ *   Zomma  = Gamma (d1 d2 - 1) / sigma
+ *   Veta   = -dVega/dT = Vega [q - 1/(2T) + d1 dd1/dT]
+ *   Ultima = -Vega / sigma^2 * [d1 d2 (1 - d1 d2) + d1^2 + d2^2]
+ *   Lambda = Delta S / V
+ *   Dual delta: Call = -e^{-rT} N(d2),  Put = e^{-rT} N(-d2)
+ *   Dual gamma = e^{-rT} phi(d2) / (K sigma sqrt(T))
+ *
+ * Scaling follows the first-order functions: each vol derivative is per 1%
+ * (divided by 100 per order), each time derivative per calendar day
+ * (divided by 365).
+ *
+ * With a displacement d1 and d2 are the shifted ones, S D becomes
+ * e^{-rT}(F + shift) (so S is S + shift e^{-(r-q)T} in Speed) and K becomes
+ * K + shift in dual gamma. The forward's share of F + shift,
+ * w = F / (F + shift), scales b in dd1/dT, and in Color and Veta the yield
+ * q of the spot leg becomes its decay rate
+ * y = (q S D + r shift e^{-rT}) / (e^{-rT}(F + shift)), with Color taking
+ * 2q - y in place of q.
+ */
+export function extendedGreeks(
+  inputs: BSInputs,
+  optionType: "call" | "put"
+): ExtendedGreeks {
+  const first = allGreeks(inputs, optionType);
+  const { S, K, T, r, sigma, q = 0, shift = 0 } = inputs;
+  const bs = blackScholes(inputs);
+  const value = optionType === "call" ? bs.callPrice : bs.putPrice;
+  const lambda = value > 0 ? (first.delta * S) / value : 0;
+
+  if (T <= 0 || sigma <= 0) {
+    const inTheMoney = optionType === "call" ? S > K : S < K;
+    return {
+      ...first,
+      vanna: 0,
+      volga: 0,
+      charm: 0,
+      speed: 0,
+      color: 0,
+      zomma: 0,
+      veta: 0,
+      ultima: 0,
+      lambda,
+      dualDelta: inTheMoney ? (optionType === "call" ? -1 : 1) : 0,
+      dualGamma: 0,
+    };
+  }
+
+  const { d1, d2 } = computeD1D2(inputs);
+  const { spotLeg } = shiftedLegs(inputs);
+  const sqrtT = Math.sqrt(T);
+  const divDiscount = Math.exp(-q * T);
+  const discount = Math.exp(-r * T);
+  const pdf = normPDF(d1);
+  const forward = S * Math.exp((r - q) * T);
+  const weight = forward / (forward + shift);
+  const spot = spotLeg / divDiscount;
+  const spotLegDecay = (q * S * divDiscount + r * shift * discount) / spotLeg;
+  const rawGamma = (divDiscount * pdf) / (spot * sigma * sqrtT);
+  const rawVega = spotLeg * pdf * sqrtT;
+  const dd1dT = ((r - q) * weight) / (sigma * sqrtT) - d2 / (2 * T);
+  const carryTerm =
+    optionType === "call" ? q * divDiscount * normCDF(d1) : -q * divDiscount * normCDF(-d1);
+
+  return {
+    ...first,
+    vanna: (-divDiscount * pdf * d2) / sigma / 100,
+    volga: (rawVega * d1 * d2) / sigma / 1e4,
+    charm: (carryTerm - divDiscount * pdf * dd1dT) / 365,
+    speed: (-rawGamma / spot) * (d1 / (sigma * sqrtT) + 1),
+    color: (rawGamma * (2 * q - spotLegDecay + 1 / (2 * T) + d1 * dd1dT)) / 365,
+    zomma: (rawGamma * (d1 * d2 - 1)) / sigma / 100,
+    veta: (rawVega * (spotLegDecay - 1 / (2 * T) + d1 * dd1dT)) / 100 / 365,
+    ultima: ((-rawVega / (sigma * sigma)) * (d1 * d2 * (1 - d1 * d2) + d1 * d1 + d2 * d2)) / 1e6,
+    lambda,
+    dualDelta: optionType === "call" ? -discount * normCDF(d2) : discount * normCDF(-d2),
+    dualGamma: (discount * normPDF(d2)) / ((K + shift) * sigma * sqrtT),
   };
 }
 
 // ─── Implied Volatility ──────────────────────────────────────────────────────
 
 /**
- * Newton-Raphson implied volatility solver.
+ * Outcome of an implied-volatility solve. Only "converged" carries a usable
+ * vol; the bound violations mean no volatility reproduces the price.
+ */
+export type IVReason =
+  | "converged"
+  | "below-intrinsic" // At or below the discounted intrinsic value
+  | "above-upper-bound" // At or above the discounted forward (call) or strike (put)
+  | "no-convergence" // Iteration budget spent before reaching the tolerance
+  | "invalid-input"; // T <= 0, non-finite price or outside the lognormal domain
+
+export interface IVResult {
+  iv: number; // Implied vol; last iterate when not converged, NaN outside the bounds
+  reason: IVReason;
+  iterations: number; // Pricing evaluations, Newton and Brent combined
+  priceError: number; // Model price at iv minus the market price
+  initialGuess: number; // Corrado-Miller starting point
+  fallback: boolean; // True when Brent took over from Newton
+  lowerBound: number; // No-arbitrage price bounds the quote was checked against
+  upperBound: number;
+}
+
+/**
+ * Closed-form starting point for the IV iteration: Corrado & Miller's
+ * quadratic approximation, which reduces to Brenner & Subrahmanyam's
+ * sigma = C sqrt(2 pi / T) / S at the money. With S' = S e^{-qT} and
+ * K' = K e^{-rT}, and the call price C (puts through parity),
+ *
+ *   sigma sqrt(T) = sqrt(2 pi) / (S' + K') *
+ *     [C - (S' - K')/2 + sqrt((C - (S' - K')/2)^2 - (S' - K')^2 / pi)]
+ *
+ * A negative discriminant (far from the money) is floored at zero.
+ */
+function corradoMillerGuess(callPrice: number, spotLeg: number, strikeLeg: number, T: number): number {
+  const half = callPrice - 0.5 * (spotLeg - strikeLeg);
+  const discriminant = half * half - ((spotLeg - strikeLeg) ** 2) / Math.PI;
+  const totalVol =
+    (Math.sqrt(2 * Math.PI) / (spotLeg + strikeLeg)) * (half + Math.sqrt(Math.max(discriminant, 0)));
+  const guess = totalVol / Math.sqrt(T);
+  return Number.isFinite(guess) && guess > 0 ? guess : 0.3;
+}
+
+/**
+ * Implied volatility with diagnostics.
  *
- * Given a market price, solves for the volatility sigma such that
- * BS(S, K, T, r, sigma) = marketPrice.
+ * 1. The quote is checked against the no-arbitrage bounds on the shifted
+ *    forward and strike, discounted: max(S' - K', 0) < C < S' for a call
+ *    and max(K' - S', 0) < P < K' for a put.
+ * 2. Newton-Raphson with the raw vega starts from the Corrado-Miller guess,
  *
- * Uses vega as the derivative for Newton's method:
- *   sigma_{n+1} = sigma_n - (BS(sigma_n) - marketPrice) / vega(sigma_n)
+ *      sigma_{n+1} = sigma_n - (BS(sigma_n) - marketPrice) / vega(sigma_n)
+ *
+ *    while every iterate tightens a bracket [lo, hi] around the root (the
+ *    price is increasing in sigma, from the lower bound at sigma = 0).
+ * 3. If a Newton step leaves the bracket or vega vanishes, Brent's method
+ *    finishes on the bracket, which is guaranteed to converge.
+ *
+ * Convergence is |BS(sigma) - marketPrice| < tol in price.
+ *
+ * References:
+ *   Brenner, M. & Subrahmanyam, M. (1988). "A Simple Formula to Compute
+ *   the Implied Standard Deviation." Financial Analysts Journal, 44(5).
+ *   Corrado, C. & Miller, T. (1996). "A Note on a Simple, Accurate Formula
+ *   to Compute Implied Standard Deviations." Journal of Banking & Finance,
+ *   20(3), 595-603.
+ *   Brent, R. (1973). Algorithms for Minimization without Derivatives,
+ *   Prentice-Hall, ch. 4.
  *
  * @param marketPrice - Observed option price
- * @param inputs - BS inputs (sigma is the initial guess, or use 0.3 default)
+ * @param inputs - BS inputs without sigma
  * @param optionType - 'call' or 'put'
- * @param maxIter - Maximum iterations (default 100)
- * @param tol - Convergence tolerance (default 1e-8)
- * @returns Implied volatility or NaN if not converged
+ * @param maxIter - Maximum pricing evaluations (default 100)
+ * @param tol - Price tolerance (default 1e-8)
+ * @param dividends - Optional cash dividend schedule (escrowed model)
  */
-export function impliedVolatility(
+export function solveImpliedVolatility(
   marketPrice: number,
   inputs: Omit<BSInputs, "sigma">,
   optionType: "call" | "put",
   maxIter: number = 100,
-  tol: number = 1e-8
-): number {
-  const { S, K, T, r } = inputs;
+  tol: number = 1e-8,
+  dividends: DividendSchedule = []
+): IVResult {
+  if (dividends.length > 0) {
+    return solveImpliedVolatility(
+      marketPrice,
+      escrowedInputs(inputs, dividends),
+      optionType,
+      maxIter,
+      tol
+    );
+  }
 
-  // Bounds check
-  if (T <= 0 || marketPrice <= 0) return NaN;
+  const { T } = inputs;
+  const { spotLeg, strikeLeg } = shiftedLegs({ ...inputs, sigma: 0 });
+  const lowerBound = Math.max(optionType === "call" ? spotLeg - strikeLeg : strikeLeg - spotLeg, 0);
+  const upperBound = optionType === "call" ? spotLeg : strikeLeg;
+  const result = (reason: IVReason, iv: number = NaN): IVResult => ({
+    iv,
+    reason,
+    iterations: 0,
+    priceError: NaN,
+    initialGuess: NaN,
+    fallback: false,
+    lowerBound,
+    upperBound,
+  });
 
-  // Intrinsic value check
-  const discount = Math.exp(-r * T);
-  if (optionType === "call") {
-    const intrinsic = Math.max(S - K * discount, 0);
-    if (marketPrice < intrinsic) return NaN;
-    if (marketPrice >= S) return NaN;
-  } else {
-    const intrinsic = Math.max(K * discount - S, 0);
-    if (marketPrice < intrinsic) return NaN;
-    if (marketPrice >= K * discount) return NaN;
-  }
+  if (T <= 0 || !Number.isFinite(marketPrice)) return result("invalid-input");
+  if (lognormalDomainError({ ...inputs, sigma: 0 }) !== null) return result("invalid-input");
+  if (marketPrice <= lowerBound) return result("below-intrinsic");
+  if (marketPrice >= upperBound) return result("above-upper-bound");
+
+  const sqrtT = Math.sqrt(T);
+  let iterations = 0;
+  const errorAt = (sigma: number) => {
+    iterations++;
+    const prices = blackScholes({ ...inputs, sigma });
+    return (optionType === "call" ? prices.callPrice : prices.putPrice) - marketPrice;
+  };
+  const callPrice = optionType === "call" ? marketPrice : marketPrice + spotLeg - strikeLeg;
+  const initialGuess = corradoMillerGuess(callPrice, spotLeg, strikeLeg, T);
+  const finish = (reason: IVReason, iv: number, priceError: number, fallback: boolean): IVResult => ({
+    iv,
+    reason,
+    iterations,
+    priceError,
+    initialGuess,
+    fallback,
+    lowerBound,
+    upperBound,
+  });
 
-  let sigma = 0.3; // Initial guess
+  // Safeguarded Newton; the error at sigma = 0 is known without pricing
+  let lo = 0;
+  let errorLo = lowerBound - marketPrice;
+  let hi = Infinity;
+  let errorHi = NaN;
+  let sigma = initialGuess;
+  let error = NaN;
+  while (iterations < maxIter) {
+    error = errorAt(sigma);
+    if (Math.abs(error) < tol) return finish("converged", sigma, error, false);
+    if (error > 0) {
+      hi = sigma;
+      errorHi = error;
+    } else {
+      lo = sigma;
+      errorLo = error;
+    }
 
-  for (let i = 0; i < maxIter; i++) {
-    const bsInputs: BSInputs = { S, K, T, r, sigma };
-    const result = blackScholes(bsInputs);
-    const price = optionType === "call" ? result.callPrice : result.putPrice;
-    const diff = price - marketPrice;
+    const { d1 } = computeD1D2({ ...inputs, sigma });
+    const vegaRaw = spotLeg * normPDF(d1) * sqrtT;
+    const next = sigma - error / vegaRaw;
+    if (!(vegaRaw > 1e-12) || !(next > lo && next < hi)) break;
+    sigma = next;
+  }
+  if (iterations >= maxIter) return finish("no-convergence", sigma, error, false);
 
-    if (Math.abs(diff) < tol) return sigma;
+  // Bracket the root from above by doubling, then hand over to Brent
+  while (hi === Infinity && iterations < maxIter) {
+    const trial = Math.max(2 * lo, 1);
+    const trialError = errorAt(trial);
+    if (trialError > 0) {
+      hi = trial;
+      errorHi = trialError;
+    } else {
+      lo = trial;
+      errorLo = trialError;
+    }
+  }
+  if (hi === Infinity) return finish("no-convergence", lo, errorLo, true);
 
-    // Vega (not scaled by 100 for Newton-Raphson)
-    const { d1 } = computeD1D2(bsInputs);
-    const vegaRaw = S * normPDF(d1) * Math.sqrt(T);
+  const root = brentRoot(errorAt, lo, hi, errorLo, errorHi, tol, () => iterations < maxIter);
+  return finish(Math.abs(root.error) < tol ? "converged" : "no-convergence", root.x, root.error, true);
+}
 
-    if (vegaRaw < 1e-12) {
-      // Vega too small, try bisection step
-      sigma = diff > 0 ? sigma * 0.5 : sigma * 1.5;
-      continue;
+/**
+ * Brent's root finder on a bracket [a, b] with f(a) and f(b) of opposite
+ * signs: inverse quadratic interpolation or secant steps, falling back to
+ * bisection whenever they would not shrink the bracket fast enough. Stops
+ * when |f| < tol, the bracket collapses to rounding, or `proceed` fails.
+ */
+function brentRoot(
+  f: (x: number) => number,
+  a: number,
+  b: number,
+  fa: number,
+  fb: number,
+  tol: number,
+  proceed: () => boolean
+): { x: number; error: number } {
+  if (Math.abs(fa) < Math.abs(fb)) {
+    [a, b] = [b, a];
+    [fa, fb] = [fb, fa];
+  }
+  let c = a;
+  let fc = fa;
+  let d = b - a;
+  let e = d;
+
+  while (Math.abs(fb) >= tol && proceed()) {
+    if (fb * fc > 0) {
+      c = a;
+      fc = fa;
+      d = b - a;
+      e = d;
+    }
+    if (Math.abs(fc) < Math.abs(fb)) {
+      a = b;
+      b = c;
+      c = a;
+      fa = fb;
+      fb = fc;
+      fc = fa;
     }
 
-    sigma = sigma - diff / vegaRaw;
+    const xTol = 2 * Number.EPSILON * Math.abs(b);
+    const midpoint = 0.5 * (c - b);
+    if (Math.abs(midpoint) <= xTol) break;
+
+    if (Math.abs(e) >= xTol && Math.abs(fa) > Math.abs(fb)) {
+      // Inverse quadratic interpolation, or the secant when a = c
+      const s = fb / fa;
+      let p: number;
+      let q: number;
+      if (a === c) {
+        p = 2 * midpoint * s;
+        q = 1 - s;
+      } else {
+        const t = fa / fc;
+        const u = fb / fc;
+        p = s * (2 * midpoint * t * (t - u) - (b - a) * (u - 1));
+        q = (t - 1) * (u - 1) * (s - 1);
+      }
+      if (p > 0) q = -q;
+      else p = -p;
+      if (2 * p < Math.min(3 * midpoint * q - Math.abs(xTol * q), Math.abs(e * q))) {
+        e = d;
+        d = p / q;
+      } else {
+        d = midpoint;
+        e = d;
+      }
+    } else {
+      d = midpoint;
+      e = d;
+    }
 
-    // Keep sigma in reasonable bounds
-    if (sigma <= 0.001) sigma = 0.001;
-    if (sigma > 10) sigma = 10;
+    a = b;
+    fa = fb;
+    b += Math.abs(d) > xTol ? d : midpoint > 0 ? xTol : -xTol;
+    fb = f(b);
   }
+  return { x: b, error: fb };
+}
 
-  return sigma; // Best estimate even if not fully converged
+/**
+ * Implied volatility as a number: `solveImpliedVolatility` reduced to its
+ * vol, NaN unless the solve converged (price outside the arbitrage bounds,
+ * invalid inputs or iteration budget exhausted).
+ *
+ * @param marketPrice - Observed option price
+ * @param inputs - BS inputs without sigma
+ * @param optionType - 'call' or 'put'
+ * @param maxIter - Maximum pricing evaluations (default 100)
+ * @param tol - Price tolerance (default 1e-8)
+ * @param dividends - Optional cash dividend schedule (escrowed model)
+ * @returns Implied volatility or NaN if there is none or it was not found
+ */
+export function impliedVolatility(
+  marketPrice: number,
+  inputs: Omit<BSInputs, "sigma">,
+  optionType: "call" | "put",
+  maxIter: number = 100,
+  tol: number = 1e-8,
+  dividends: DividendSchedule = []
+): number {
+  const result = solveImpliedVolatility(marketPrice, inputs, optionType, maxIter, tol, dividends);
+  return result.reason === "converged" ? result.iv : NaN;
 }
 
 /**
@@ -292,25 +1115,782 @@ export function volatilitySmile(
   S: number,
   T: number,
   r: number,
-  optionType: "call" | "put"
+  optionType: "call" | "put",
+  q: number = 0
 ): { strike: number; iv: number }[] {
   return marketPrices
     .map(({ strike, price }) => ({
       strike,
-      iv: impliedVolatility(price, { S, K: strike, T, r }, optionType),
+      iv: impliedVolatility(price, { S, K: strike, T, r, q }, optionType),
     }))
     .filter(({ iv }) => !isNaN(iv) && isFinite(iv));
 }
 
+/**
+ * Risk-neutral density of S_T implied by a smile (Breeden-Litzenberger):
+ *   f(K) = e^{rT} d^2 C / dK^2
+ * with C(K) the Black-Scholes call priced at the smile vol ivFn(K), and the
+ * second derivative taken by central differences with a relative step.
+ * Negative values flag butterfly arbitrage in the smile.
+ */
+export function impliedDensity(
+  K: number,
+  S: number,
+  T: number,
+  r: number,
+  ivFn: (strike: number) => number,
+  q: number = 0,
+  relStep: number = 1e-3
+): number {
+  if (K <= 0 || T <= 0) return 0;
+  const h = K * relStep;
+  const call = (strike: number) =>
+    blackScholes({ S, K: strike, T, r, sigma: ivFn(strike), q }).callPrice;
+  const secondDiff = (call(K + h) - 2 * call(K) + call(K - h)) / (h * h);
+  return Math.exp(r * T) * secondDiff;
+}
+
+// ─── Black-76 (Options on Futures / Forwards) ────────────────────────────────
+
+export type Underlying = "spot" | "future" | "fx";
+
+export interface Black76Inputs {
+  F: number; // Futures or forward price
+  K: number; // Strike price
+  T: number; // Time to expiration (years)
+  r: number; // Discount rate (decimal)
+  sigma: number; // Volatility of the forward (decimal)
+}
+
+/**
+ * Compute d1 and d2 of the Black-76 formula.
+ *
+ *   d1 = [ln(F/K) + (sigma^2/2)*T] / (sigma * sqrt(T))
+ *   d2 = d1 - sigma * sqrt(T)
+ */
+export function black76D1D2(inputs: Black76Inputs): { d1: number; d2: number } {
+  const { F, K, T, sigma } = inputs;
+  if (T <= 0 || sigma <= 0 || F <= 0 || K <= 0) {
+    return { d1: 0, d2: 0 };
+  }
+  const sqrtT = Math.sqrt(T);
+  const d1 = (Math.log(F / K) + 0.5 * sigma * sigma * T) / (sigma * sqrtT);
+  const d2 = d1 - sigma * sqrtT;
+  return { d1, d2 };
+}
+
+/**
+ * Black-76 European option on a futures or forward price.
+ *
+ *   Call = e^{-rT} * [F * N(d1) - K * N(d2)]
+ *   Put  = e^{-rT} * [K * N(-d2) - F * N(-d1)]
+ *
+ * Equivalent to Black-Scholes-Merton with S = F and q = r.
+ */
+export function black76(inputs: Black76Inputs): BSResult {
+  const { F, K, T, r } = inputs;
+
+  if (T <= 0) {
+    return {
+      callPrice: Math.max(F - K, 0),
+      putPrice: Math.max(K - F, 0),
+      d1: 0,
+      d2: 0,
+    };
+  }
+
+  const { d1, d2 } = black76D1D2(inputs);
+  const discount = Math.exp(-r * T);
+
+  const callPrice = discount * (F * normCDF(d1) - K * normCDF(d2));
+  const putPrice = discount * (K * normCDF(-d2) - F * normCDF(-d1));
+
+  return {
+    callPrice: Math.max(callPrice, 0),
+    putPrice: Math.max(putPrice, 0),
+    d1,
+    d2,
+  };
+}
+
+/**
+ * Black-76 Greeks, with the same scaling as `allGreeks`:
+ *   Delta (w.r.t. F): call e^{-rT} N(d1), put -e^{-rT} N(-d1)
+ *   Gamma = e^{-rT} phi(d1) / (F sigma sqrt(T))
+ *   Theta = [-F e^{-rT} phi(d1) sigma / (2 sqrt(T)) + r * V] / 365
+ *   Vega  = F e^{-rT} phi(d1) sqrt(T) / 100
+ *   Rho   = -T * V / 100
+ * where V is the option value. Psi is zero: a future carries no yield.
+ */
+export function black76Greeks(
+  inputs: Black76Inputs,
+  optionType: "call" | "put"
+): Greeks {
+  const { F, K, T, r, sigma } = inputs;
+
+  if (T <= 0) {
+    const itm = optionType === "call" ? F > K : F < K;
+    return {
+      delta: itm ? (optionType === "call" ? 1 : -1) : 0,
+      gamma: 0,
+      theta: 0,
+      vega: 0,
+      rho: 0,
+      psi: 0,
+    };
+  }
+
+  const { d1 } = black76D1D2(inputs);
+  const sqrtT = Math.sqrt(T);
+  const discount = Math.exp(-r * T);
+  const result = black76(inputs);
+  const price = optionType === "call" ? result.callPrice : result.putPrice;
+  const pdf = normPDF(d1);
+
+  return {
+    delta:
+      optionType === "call"
+        ? discount * normCDF(d1)
+        : -discount * normCDF(-d1),
+    gamma: sigma > 0 ? (discount * pdf) / (F * sigma * sqrtT) : 0,
+    theta: ((-F * discount * pdf * sigma) / (2 * sqrtT) + r * price) / 365,
+    vega: (F * discount * pdf * sqrtT) / 100,
+    rho: (-T * price) / 100,
+    psi: 0,
+  };
+}
+
+/**
+ * Implied volatility for Black-76. Black-76 is Black-Scholes-Merton on the
+ * futures price with q = r, so this is `solveImpliedVolatility` with those
+ * inputs: bounds e^{-rT} * max(F - K, 0) below and e^{-rT} * F (call) or
+ * e^{-rT} * K (put) above.
+ *
+ * @returns Implied volatility or NaN if there is none or it was not found
+ */
+export function black76ImpliedVolatility(
+  marketPrice: number,
+  inputs: Omit<Black76Inputs, "sigma">,
+  optionType: "call" | "put",
+  maxIter: number = 100,
+  tol: number = 1e-8
+): number {
+  const { F, K, T, r } = inputs;
+  return impliedVolatility(marketPrice, { S: F, K, T, r, q: r }, optionType, maxIter, tol);
+}
+
+// ─── Garman-Kohlhagen (FX Options) ───────────────────────────────────────────
+
+export interface GKInputs {
+  S: number; // FX spot, domestic units per unit of foreign currency
+  K: number; // Strike, same quotation as S
+  T: number; // Time to expiration (years)
+  rd: number; // Domestic risk-free rate (decimal)
+  rf: number; // Foreign risk-free rate (decimal)
+  sigma: number; // Volatility of the exchange rate (decimal)
+}
+
+export type FXPremiumConvention =
+  | "domestic-pips" // domestic currency per unit of foreign notional
+  | "foreign-pips" // foreign currency per unit of domestic notional
+  | "percent-foreign" // % of foreign notional
+  | "percent-domestic"; // % of domestic notional
+
+export interface FXDeltas {
+  spot: number;
+  forward: number;
+  spotPremiumAdjusted: number;
+  forwardPremiumAdjusted: number;
+}
+
+function gkAsBSInputs({ S, K, T, rd, rf, sigma }: GKInputs): BSInputs {
+  return { S, K, T, r: rd, sigma, q: rf };
+}
+
+/**
+ * Garman-Kohlhagen FX option pricing, in domestic pips.
+ *
+ *   Call = S * e^{-rf*T} * N(d1) - K * e^{-rd*T} * N(d2)
+ *   Put  = K * e^{-rd*T} * N(-d2) - S * e^{-rf*T} * N(-d1)
+ *
+ * The foreign rate plays the role of a continuous dividend yield.
+ */
+export function garmanKohlhagen(inputs: GKInputs): BSResult {
+  return blackScholes(gkAsBSInputs(inputs));
+}
+
+/**
+ * Garman-Kohlhagen Greeks with the `allGreeks` scaling. Rho is the
+ * domestic-rate sensitivity; psi is the foreign-rate sensitivity.
+ */
+export function gkGreeks(inputs: GKInputs, optionType: "call" | "put"): Greeks {
+  return allGreeks(gkAsBSInputs(inputs), optionType);
+}
+
+/**
+ * Convert a domestic-pips premium into another quoting convention.
+ *
+ *   foreign pips = V / (S * K)
+ *   % foreign    = 100 * V / S
+ *   % domestic   = 100 * V / K
+ */
+export function gkPremium(
+  inputs: GKInputs,
+  optionType: "call" | "put",
+  convention: FXPremiumConvention
+): number {
+  const result = garmanKohlhagen(inputs);
+  const v = optionType === "call" ? result.callPrice : result.putPrice;
+  const { S, K } = inputs;
+
+  switch (convention) {
+    case "domestic-pips":
+      return v;
+    case "foreign-pips":
+      return v / (S * K);
+    case "percent-foreign":
+      return (100 * v) / S;
+    case "percent-domestic":
+      return (100 * v) / K;
+  }
+}
+
+/**
+ * FX delta conventions:
+ *   Spot delta        = ±e^{-rf*T} * N(±d1)
+ *   Forward delta     = ±N(±d1)
+ *   Spot PA delta     = spot delta - V / S            (= ±(K/S) e^{-rd*T} N(±d2))
+ *   Forward PA delta  = forward delta - V / (S e^{-rf*T}) (= ±(K/F) N(±d2))
+ * Premium-adjusted deltas apply when the premium is paid in foreign currency.
+ */
+export function gkDeltas(inputs: GKInputs, optionType: "call" | "put"): FXDeltas {
+  const { S, K, T, rd, rf } = inputs;
+  const sign = optionType === "call" ? 1 : -1;
+
+  if (T <= 0) {
+    const itm = sign * (S - K) > 0 ? sign : 0;
+    return { spot: itm, forward: itm, spotPremiumAdjusted: itm, forwardPremiumAdjusted: itm };
+  }
+
+  const { d1, d2 } = computeD1D2(gkAsBSInputs(inputs));
+  const forward = S * Math.exp((rd - rf) * T);
+  const forwardDelta = sign * normCDF(sign * d1);
+  const forwardPA = sign * (K / forward) * normCDF(sign * d2);
+  const foreignDiscount = Math.exp(-rf * T);
+
+  return {
+    spot: foreignDiscount * forwardDelta,
+    forward: forwardDelta,
+    spotPremiumAdjusted: foreignDiscount * forwardPA,
+    forwardPremiumAdjusted: forwardPA,
+  };
+}
+
+// ─── Bachelier (Normal) Model ────────────────────────────────────────────────
+
+export interface BachelierInputs {
+  F: number; // Forward price (may be zero or negative)
+  K: number; // Strike price
+  T: number; // Time to expiration (years)
+  r: number; // Discount rate (decimal)
+  sigma: number; // Normal volatility, in price units per sqrt(year)
+}
+
+/**
+ * Bachelier European option on a forward.
+ *
+ *   d    = (F - K) / (sigma * sqrt(T))
+ *   Call = e^{-rT} * [(F - K) * N(d) + sigma * sqrt(T) * phi(d)]
+ *   Put  = e^{-rT} * [(K - F) * N(-d) + sigma * sqrt(T) * phi(d)]
+ *
+ * d is reported in both d1 and d2 of the result.
+ */
+export function bachelier(inputs: BachelierInputs): BSResult {
+  const { F, K, T, r, sigma } = inputs;
+
+  if (T <= 0 || sigma <= 0) {
+    const discount = Math.exp(-r * Math.max(T, 0));
+    return {
+      callPrice: discount * Math.max(F - K, 0),
+      putPrice: discount * Math.max(K - F, 0),
+      d1: 0,
+      d2: 0,
+    };
+  }
+
+  const stdDev = sigma * Math.sqrt(T);
+  const d = (F - K) / stdDev;
+  const discount = Math.exp(-r * T);
+  const timeValue = stdDev * normPDF(d);
+
+  return {
+    callPrice: discount * ((F - K) * normCDF(d) + timeValue),
+    putPrice: discount * ((K - F) * normCDF(-d) + timeValue),
+    d1: d,
+    d2: d,
+  };
+}
+
+/**
+ * Bachelier Greeks, with the `allGreeks` scaling (vega per 0.01 of normal vol):
+ *   Delta: call e^{-rT} N(d), put -e^{-rT} N(-d)
+ *   Gamma = e^{-rT} phi(d) / (sigma sqrt(T))
+ *   Theta = [-e^{-rT} sigma phi(d) / (2 sqrt(T)) + r * V] / 365
+ *   Vega  = e^{-rT} sqrt(T) phi(d) / 100
+ *   Rho   = -T * V / 100
+ */
+export function bachelierGreeks(
+  inputs: BachelierInputs,
+  optionType: "call" | "put"
+): Greeks {
+  const { F, K, T, r, sigma } = inputs;
+
+  if (T <= 0 || sigma <= 0) {
+    const itm = optionType === "call" ? F > K : F < K;
+    return {
+      delta: itm ? (optionType === "call" ? 1 : -1) : 0,
+      gamma: 0,
+      theta: 0,
+      vega: 0,
+      rho: 0,
+      psi: 0,
+    };
+  }
+
+  const sqrtT = Math.sqrt(T);
+  const result = bachelier(inputs);
+  const d = result.d1;
+  const discount = Math.exp(-r * T);
+  const price = optionType === "call" ? result.callPrice : result.putPrice;
+  const pdf = normPDF(d);
+
+  return {
+    delta: optionType === "call" ? discount * normCDF(d) : -discount * normCDF(-d),
+    gamma: (discount * pdf) / (sigma * sqrtT),
+    theta: ((-discount * sigma * pdf) / (2 * sqrtT) + r * price) / 365,
+    vega: (discount * sqrtT * pdf) / 100,
+    rho: (-T * price) / 100,
+    psi: 0,
+  };
+}
+
+/**
+ * Normal implied volatility.
+ *
+ * Put-call parity leaves the call and the put with the same undiscounted
+ * time value, so the quote is reduced to
+ *
+ *   v = marketPrice e^{rT} - max(+-(F - K), 0)
+ *
+ * and matched against the out-of-the-money Bachelier price, which has no
+ * intrinsic value to cancel. v(sigma) increases from 0 at sigma = 0 and
+ * never exceeds sigma sqrt(T) phi(0), so sigma_0 = v sqrt(2 pi / T) is a
+ * lower bound on the root. Starting from the larger of sigma_0 and the
+ * vol at d = 1, the bracket is doubled until it holds the root, and
+ * Brent's method (as in `solveImpliedVolatility`) finishes on it.
+ * Convergence is |v(sigma) / v - 1| < tol, relative to the time value.
+ *
+ * @param marketPrice - Observed option price
+ * @param inputs - Bachelier inputs without sigma
+ * @param optionType - 'call' or 'put'
+ * @param maxIter - Maximum pricing evaluations (default 100)
+ * @param tol - Relative tolerance on the time value (default 1e-10)
+ * @returns Normal implied volatility, or NaN if the price is at or below
+ *   intrinsic, its time value is lost in rounding against the intrinsic
+ *   value, or the solve did not converge
+ */
+export function bachelierImpliedVolatility(
+  marketPrice: number,
+  inputs: Omit<BachelierInputs, "sigma">,
+  optionType: "call" | "put",
+  maxIter: number = 100,
+  tol: number = 1e-10
+): number {
+  const { F, K, T, r } = inputs;
+
+  if (T <= 0 || !(marketPrice > 0)) return NaN;
+
+  const forwardPrice = marketPrice * Math.exp(r * T);
+  const intrinsic = Math.max(optionType === "call" ? F - K : K - F, 0);
+  const timeValue = forwardPrice - intrinsic;
+  // Below this the time value is rounding noise on the intrinsic value
+  if (!(timeValue > 1e-10 * forwardPrice)) return NaN;
+
+  const otmType = F >= K ? "put" : "call";
+  let iterations = 0;
+  const errorAt = (sigma: number) => {
+    iterations++;
+    const result = bachelier({ F, K, T, r: 0, sigma });
+    return (otmType === "call" ? result.callPrice : result.putPrice) / timeValue - 1;
+  };
+
+  // The error at sigma = 0 is -1 without pricing
+  const sqrtT = Math.sqrt(T);
+  let lo = 0;
+  let errorLo = -1;
+  let hi = Math.max(timeValue * Math.sqrt(2 * Math.PI) / sqrtT, Math.abs(F - K) / sqrtT);
+  let errorHi = errorAt(hi);
+  while (errorHi <= -tol && iterations < maxIter) {
+    lo = hi;
+    errorLo = errorHi;
+    hi *= 2;
+    errorHi = errorAt(hi);
+  }
+  if (!(errorHi > -tol)) return NaN;
+
+  const root = brentRoot(errorAt, lo, hi, errorLo, errorHi, tol, () => iterations < maxIter);
+  return Math.abs(root.error) < tol ? root.x : NaN;
+}
+
+/**
+ * Normal vol that gives the same undiscounted price as a lognormal
+ * (Black-76) vol, found by pricing the out-of-the-money option and inverting
+ * the Bachelier formula. NaN when that inversion fails (see
+ * `bachelierImpliedVolatility`).
+ */
+export function lognormalToNormalVol(
+  F: number,
+  K: number,
+  T: number,
+  sigmaLN: number
+): number {
+  const optionType = K >= F ? "call" : "put";
+  const result = black76({ F, K, T, r: 0, sigma: sigmaLN });
+  const price = optionType === "call" ? result.callPrice : result.putPrice;
+  return bachelierImpliedVolatility(price, { F, K, T, r: 0 }, optionType);
+}
+
+/**
+ * Lognormal (Black-76) vol that matches a normal vol's price. Requires
+ * F > 0 and K > 0. The out-of-the-money price can be far below the default
+ * price tolerance, so the solve is run to a tolerance relative to it.
+ */
+export function normalToLognormalVol(
+  F: number,
+  K: number,
+  T: number,
+  sigmaN: number
+): number {
+  if (F <= 0 || K <= 0) return NaN;
+  const optionType = K >= F ? "call" : "put";
+  const result = bachelier({ F, K, T, r: 0, sigma: sigmaN });
+  const price = optionType === "call" ? result.callPrice : result.putPrice;
+  return black76ImpliedVolatility(price, { F, K, T, r: 0 }, optionType, 100, 1e-10 * price);
+}
+
+// ─── Merton Jump-Diffusion ───────────────────────────────────────────────────
+
+export interface JumpParams {
+  lambda: number; // Jump intensity (expected jumps per year)
+  muJ: number; // Mean of the log jump size
+  sigmaJ: number; // Volatility of the log jump size
+}
+
+/**
+ * Poisson-weighted mixture terms of the Merton model: with n jumps by T
+ * the log return is normal with
+ *   sigma_n^2 = sigma^2 + n sigmaJ^2 / T
+ *   r_n       = r - lambda k + n ln(1 + k) / T,   k = e^{muJ + sigmaJ^2/2} - 1
+ * and the count has intensity lambda' = lambda (1 + k). Terms are generated
+ * until the remaining Poisson mass is negligible.
+ */
+function mertonTerms(
+  inputs: BSInputs,
+  jumps: JumpParams,
+  maxTerms: number
+): { weight: number; sigma: number; r: number }[] {
+  const { T, r, sigma } = inputs;
+  const { lambda, muJ, sigmaJ } = jumps;
+  const k = Math.exp(muJ + 0.5 * sigmaJ * sigmaJ) - 1;
+  const lambdaPrime = lambda * (1 + k);
+
+  const terms: { weight: number; sigma: number; r: number }[] = [];
+  let weight = Math.exp(-lambdaPrime * T);
+  let mass = 0;
+  for (let n = 0; n < maxTerms; n++) {
+    if (n > 0) weight *= (lambdaPrime * T) / n;
+    terms.push({
+      weight,
+      sigma: Math.sqrt(sigma * sigma + (n * sigmaJ * sigmaJ) / T),
+      r: r - lambda * k + (n * Math.log(1 + k)) / T,
+    });
+    mass += weight;
+    if (n > lambdaPrime * T && 1 - mass < 1e-12) break;
+  }
+  return terms;
+}
+
+/**
+ * Merton (1976) jump-diffusion price as a Poisson-weighted series of
+ * Black-Scholes prices:
+ *   C = sum_n e^{-lambda' T} (lambda' T)^n / n! * BS(S, K, T, r_n, sigma_n, q)
+ * Jumps are lognormal, ln J ~ N(muJ, sigmaJ^2); with lambda = 0 this is
+ * `blackScholes`.
+ *
+ * @param maxTerms - Cap on the number of series terms (default 100)
+ */
+export function mertonJumpDiffusion(
+  inputs: BSInputs,
+  jumps: JumpParams,
+  maxTerms: number = 100
+): Pick<BSResult, "callPrice" | "putPrice"> {
+  const { S, K, T } = inputs;
+
+  if (T <= 0) {
+    return { callPrice: Math.max(S - K, 0), putPrice: Math.max(K - S, 0) };
+  }
+
+  let callPrice = 0;
+  let putPrice = 0;
+  for (const term of mertonTerms(inputs, jumps, maxTerms)) {
+    const bs = blackScholes({ ...inputs, r: term.r, sigma: term.sigma });
+    callPrice += term.weight * bs.callPrice;
+    putPrice += term.weight * bs.putPrice;
+  }
+  return { callPrice, putPrice };
+}
+
+/**
+ * Risk-neutral density of S_T under Black-Scholes (lognormal):
+ *   f(s) = phi((ln(s/S) - (r - q - sigma^2/2)T) / (sigma sqrt(T))) / (s sigma sqrt(T))
+ */
+export function lognormalDensity(sT: number, inputs: BSInputs): number {
+  const { S, T, r, sigma, q = 0 } = inputs;
+  if (sT <= 0 || T <= 0 || sigma <= 0) return 0;
+  const stdDev = sigma * Math.sqrt(T);
+  const z = (Math.log(sT / S) - (r - q - 0.5 * sigma * sigma) * T) / stdDev;
+  return normPDF(z) / (sT * stdDev);
+}
+
+/**
+ * Risk-neutral density of S_T under Merton jump-diffusion, a Poisson(lambda T)
+ * mixture of lognormals: given n jumps, ln S_T is normal with
+ *   mean     = ln S + (r - q - lambda k - sigma^2/2) T + n muJ
+ *   variance = sigma^2 T + n sigmaJ^2
+ */
+export function mertonDensity(
+  sT: number,
+  inputs: BSInputs,
+  jumps: JumpParams,
+  maxTerms: number = 100
+): number {
+  const { S, T, r, sigma, q = 0 } = inputs;
+  const { lambda, muJ, sigmaJ } = jumps;
+  if (sT <= 0 || T <= 0) return 0;
+
+  const k = Math.exp(muJ + 0.5 * sigmaJ * sigmaJ) - 1;
+  const drift = Math.log(S) + (r - q - lambda * k - 0.5 * sigma * sigma) * T;
+  let weight = Math.exp(-lambda * T);
+  let mass = 0;
+  let density = 0;
+  for (let n = 0; n < maxTerms; n++) {
+    if (n > 0) weight *= (lambda * T) / n;
+    const stdDev = Math.sqrt(sigma * sigma * T + n * sigmaJ * sigmaJ);
+    if (stdDev > 0) {
+      density += (weight * normPDF((Math.log(sT) - drift - n * muJ) / stdDev)) / (sT * stdDev);
+    }
+    mass += weight;
+    if (n > lambda * T && 1 - mass < 1e-12) break;
+  }
+  return density;
+}
+
+// ─── Digital (Binary) Options ────────────────────────────────────────────────
+
+export type DigitalType = "cash-or-nothing" | "asset-or-nothing";
+
+/**
+ * European digital options, which pay a fixed cash amount Q or the asset
+ * itself if they finish in the money:
+ *
+ *   Cash-or-nothing:  Call = Q e^{-rT} N(d2)    Put = Q e^{-rT} N(-d2)
+ *   Asset-or-nothing: Call = S e^{-qT} N(d1)    Put = S e^{-qT} N(-d1)
+ *
+ * A vanilla call is an asset-or-nothing call less K cash-or-nothing calls
+ * paying 1. With a displacement, d1 and d2 are the shifted ones of
+ * `computeD1D2`, and since S_T = (S_T + shift) - shift the asset leg becomes
+ *
+ *   Asset-or-nothing: e^{-rT} [(F + shift) N(phi d1) - shift N(phi d2)]
+ *
+ * so the decomposition of the shifted vanilla still holds.
+ *
+ * @param cash - Payout Q of a cash-or-nothing option (default 1)
+ */
+export function digitalOption(
+  inputs: BSInputs,
+  optionType: "call" | "put",
+  digitalType: DigitalType,
+  cash: number = 1
+): number {
+  const { S, K, T, r, shift = 0 } = inputs;
+  if (T <= 0) {
+    const inTheMoney = optionType === "call" ? S > K : S < K;
+    if (!inTheMoney) return 0;
+    return digitalType === "cash-or-nothing" ? cash : S;
+  }
+  const { d1, d2 } = computeD1D2(inputs);
+  const { spotLeg } = shiftedLegs(inputs);
+  const discount = Math.exp(-r * T);
+  const phi = optionType === "call" ? 1 : -1;
+  return digitalType === "cash-or-nothing"
+    ? cash * discount * normCDF(phi * d2)
+    : spotLeg * normCDF(phi * d1) - shift * discount * normCDF(phi * d2);
+}
+
+/**
+ * Analytic digital Greeks in the units of `Greeks`. Writing both prices as
+ * A N(phi d), with A = Q e^{-rT} and d = d2 for cash-or-nothing and
+ * A = S e^{-qT} and d = d1 for asset-or-nothing, d' the other of d1 and
+ * d2 and phi = +1 for calls / -1 for puts:
+ *
+ *   Delta = phi A phi(d) / (S sigma sqrt(T))    [+ e^{-qT} N(phi d1) for asset]
+ *   Gamma = -phi A phi(d) d' / (S^2 sigma^2 T)
+ *   Vega  = -phi A phi(d) d' / sigma
+ *   Rho   =  phi A phi(d) sqrt(T) / sigma       [- T A N(phi d2) for cash]
+ *   Psi   = -phi A phi(d) sqrt(T) / sigma       [- T A N(phi d1) for asset]
+ *   dV/dT = A [-rate N(phi d) + phi phi(d) dd/dT],  rate = r (cash) or q (asset)
+ *
+ * where dd/dT = (r - q +/- sigma^2/2) / (sigma sqrt(T)) - d / (2T) with + for
+ * d1 and - for d2. Near expiry at the strike the delta and gamma spike, as
+ * the payoff is a step.
+ *
+ * With a displacement d moves with F + shift rather than F: S becomes
+ * S + shift e^{-(r-q)T} in delta and gamma, and the rate terms of rho, psi
+ * and dd/dT are scaled by w = F / (F + shift). The asset leg is
+ * A = e^{-rT}(F + shift), whose derivatives in S, r, q and T add the
+ * N(phi d1) terms, less shift cash-or-nothing digitals paying 1.
+ */
+export function digitalGreeks(
+  inputs: BSInputs,
+  optionType: "call" | "put",
+  digitalType: DigitalType,
+  cash: number = 1
+): Greeks {
+  const { S, T, r, sigma, q = 0, shift = 0 } = inputs;
+  if (T <= 0 || sigma <= 0) {
+    const value = digitalOption(inputs, optionType, digitalType, cash);
+    const assetDelta = digitalType === "asset-or-nothing" && value > 0 ? 1 : 0;
+    return { delta: assetDelta, gamma: 0, theta: 0, vega: 0, rho: 0, psi: 0 };
+  }
+
+  const { d1, d2 } = computeD1D2(inputs);
+  const { spotLeg } = shiftedLegs(inputs);
+  const phi = optionType === "call" ? 1 : -1;
+  const sqrtT = Math.sqrt(T);
+  const discount = Math.exp(-r * T);
+  const carry = Math.exp(-q * T);
+  const forward = S * Math.exp((r - q) * T);
+  const weight = forward / (forward + shift);
+  const spot = S + shift * Math.exp(-(r - q) * T);
+  const drift = ((r - q) * weight) / (sigma * sqrtT);
+  const volDrift = (0.5 * sigma) / sqrtT;
+
+  // Raw sensitivities of A N(phi d), given A's own derivatives in S, r, q, T
+  const leg = (
+    A: number,
+    d: number,
+    other: number,
+    dDdT: number,
+    dA: { S: number; r: number; q: number; T: number }
+  ) => {
+    const probability = normCDF(phi * d);
+    const density = phi * A * normPDF(d);
+    return {
+      delta: density / (spot * sigma * sqrtT) + dA.S * probability,
+      gamma: (-density * other) / (spot * spot * sigma * sigma * T),
+      dVdT: dA.T * probability + density * dDdT,
+      vega: (-density * other) / sigma,
+      rho: (density * sqrtT * weight) / sigma + dA.r * probability,
+      psi: (-density * sqrtT * weight) / sigma + dA.q * probability,
+    };
+  };
+  const cashLeg = (payout: number) =>
+    leg(payout * discount, d2, d1, drift - volDrift - d2 / (2 * T), {
+      S: 0,
+      r: -T * payout * discount,
+      q: 0,
+      T: -r * payout * discount,
+    });
+
+  let raw = cashLeg(cash);
+  if (digitalType === "asset-or-nothing") {
+    const asset = leg(spotLeg, d1, d2, drift + volDrift - d1 / (2 * T), {
+      S: carry,
+      r: -T * shift * discount,
+      q: -T * S * carry,
+      T: -q * S * carry - r * shift * discount,
+    });
+    const unit = cashLeg(shift);
+    raw = {
+      delta: asset.delta - unit.delta,
+      gamma: asset.gamma - unit.gamma,
+      dVdT: asset.dVdT - unit.dVdT,
+      vega: asset.vega - unit.vega,
+      rho: asset.rho - unit.rho,
+      psi: asset.psi - unit.psi,
+    };
+  }
+
+  return {
+    delta: raw.delta,
+    gamma: raw.gamma,
+    theta: -raw.dVdT / 365,
+    vega: raw.vega / 100,
+    rho: raw.rho / 100,
+    psi: raw.psi / 100,
+  };
+}
+
 // ─── Payoff Functions ────────────────────────────────────────────────────────
 
+export type PayoffStyle = "vanilla" | DigitalType;
+
 export type OptionLeg = {
   type: "call" | "put";
   strike: number;
   premium: number;
   quantity: number; // positive = long, negative = short
+  style?: PayoffStyle; // default "vanilla"
+  cash?: number; // payout of a cash-or-nothing leg (default 1)
 };
 
+/**
+ * Value of one unit of a leg at expiration, before premium.
+ */
+export function legPayoff(leg: OptionLeg, spotAtExpiry: number): number {
+  const { type, strike, style = "vanilla", cash = 1 } = leg;
+  if (style === "vanilla") {
+    return type === "call"
+      ? Math.max(spotAtExpiry - strike, 0)
+      : Math.max(strike - spotAtExpiry, 0);
+  }
+  const inTheMoney = type === "call" ? spotAtExpiry > strike : spotAtExpiry < strike;
+  if (!inTheMoney) return 0;
+  return style === "cash-or-nothing" ? cash : spotAtExpiry;
+}
+
+/**
+ * European value of one unit of a leg before expiry (its payoff at T <= 0).
+ */
+export function legValue(leg: OptionLeg, inputs: Omit<BSInputs, "K">): number {
+  const { type, strike, style = "vanilla", cash = 1 } = leg;
+  const legInputs = { ...inputs, K: strike };
+  if (style !== "vanilla") return digitalOption(legInputs, type, style, cash);
+  const bs = blackScholes(legInputs);
+  return type === "call" ? bs.callPrice : bs.putPrice;
+}
+
+/**
+ * European Greeks of one unit of a leg.
+ */
+export function legGreeks(leg: OptionLeg, inputs: Omit<BSInputs, "K">): Greeks {
+  const { type, strike, style = "vanilla", cash = 1 } = leg;
+  const legInputs = { ...inputs, K: strike };
+  return style === "vanilla"
+    ? allGreeks(legInputs, type)
+    : digitalGreeks(legInputs, type, style, cash);
+}
+
 /**
  * Compute total P&L of a multi-leg option strategy at expiration.
  */
@@ -320,17 +1900,15 @@ export function strategyPayoff(
 ): number {
   let total = 0;
   for (const leg of legs) {
-    const intrinsic =
-      leg.type === "call"
-        ? Math.max(spotAtExpiry - leg.strike, 0)
-        : Math.max(leg.strike - spotAtExpiry, 0);
-    total += leg.quantity * (intrinsic - leg.premium);
+    total += leg.quantity * (legPayoff(leg, spotAtExpiry) - leg.premium);
   }
   return total;
 }
 
 /**
- * Generate payoff curve data across a range of spot prices.
+ * Generate payoff curve data across a range of spot prices. Digital legs
+ * add a sample just above their strike, so the jump plots as a vertical
+ * step rather than a slope across one grid cell.
  */
 export function payoffCurve(
   legs: OptionLeg[],
@@ -338,29 +1916,36 @@ export function payoffCurve(
   spotMax: number,
   steps: number = 200
 ): { spot: number; pnl: number }[] {
-  const result: { spot: number; pnl: number }[] = [];
   const stepSize = (spotMax - spotMin) / steps;
+  const spots: number[] = [];
   for (let i = 0; i <= steps; i++) {
-    const spot = spotMin + i * stepSize;
-    result.push({ spot, pnl: strategyPayoff(legs, spot) });
+    spots.push(spotMin + i * stepSize);
   }
-  return result;
+  for (const leg of legs) {
+    if ((leg.style ?? "vanilla") === "vanilla") continue;
+    if (leg.strike <= spotMin || leg.strike >= spotMax) continue;
+    spots.push(leg.strike, leg.strike * (1 + 1e-9));
+  }
+  spots.sort((a, b) => a - b);
+  return spots
+    .filter((spot, i) => i === 0 || spot !== spots[i - 1])
+    .map((spot) => ({ spot, pnl: strategyPayoff(legs, spot) }));
 }
 
 // ─── Pre-built Strategies ────────────────────────────────────────────────────
 
-export function longCall(S: number, K: number, T: number, r: number, sigma: number): OptionLeg[] {
-  const premium = blackScholes({ S, K, T, r, sigma }).callPrice;
+export function longCall(S: number, K: number, T: number, r: number, sigma: number, q: number = 0): OptionLeg[] {
+  const premium = blackScholes({ S, K, T, r, sigma, q }).callPrice;
   return [{ type: "call", strike: K, premium, quantity: 1 }];
 }
 
-export function longPut(S: number, K: number, T: number, r: number, sigma: number): OptionLeg[] {
-  const premium = blackScholes({ S, K, T, r, sigma }).putPrice;
+export function longPut(S: number, K: number, T: number, r: number, sigma: number, q: number = 0): OptionLeg[] {
+  const premium = blackScholes({ S, K, T, r, sigma, q }).putPrice;
   return [{ type: "put", strike: K, premium, quantity: 1 }];
 }
 
-export function longStraddle(S: number, K: number, T: number, r: number, sigma: number): OptionLeg[] {
-  const bs = blackScholes({ S, K, T, r, sigma });
+export function longStraddle(S: number, K: number, T: number, r: number, sigma: number, q: number = 0): OptionLeg[] {
+  const bs = blackScholes({ S, K, T, r, sigma, q });
   return [
     { type: "call", strike: K, premium: bs.callPrice, quantity: 1 },
     { type: "put", strike: K, premium: bs.putPrice, quantity: 1 },
@@ -368,10 +1953,10 @@ export function longStraddle(S: number, K: number, T: number, r: number, sigma:
 }
 
 export function longStrangle(
-  S: number, K1: number, K2: number, T: number, r: number, sigma: number
+  S: number, K1: number, K2: number, T: number, r: number, sigma: number, q: number = 0
 ): OptionLeg[] {
-  const putPremium = blackScholes({ S, K: K1, T, r, sigma }).putPrice;
-  const callPremium = blackScholes({ S, K: K2, T, r, sigma }).callPrice;
+  const putPremium = blackScholes({ S, K: K1, T, r, sigma, q }).putPrice;
+  const callPremium = blackScholes({ S, K: K2, T, r, sigma, q }).callPrice;
   return [
     { type: "put", strike: K1, premium: putPremium, quantity: 1 },
     { type: "call", strike: K2, premium: callPremium, quantity: 1 },
@@ -379,11 +1964,11 @@ export function longStrangle(
 }
 
 export function butterflySpread(
-  S: number, K1: number, K2: number, K3: number, T: number, r: number, sigma: number
+  S: number, K1: number, K2: number, K3: number, T: number, r: number, sigma: number, q: number = 0
 ): OptionLeg[] {
-  const c1 = blackScholes({ S, K: K1, T, r, sigma }).callPrice;
-  const c2 = blackScholes({ S, K: K2, T, r, sigma }).callPrice;
-  const c3 = blackScholes({ S, K: K3, T, r, sigma }).callPrice;
+  const c1 = blackScholes({ S, K: K1, T, r, sigma, q }).callPrice;
+  const c2 = blackScholes({ S, K: K2, T, r, sigma, q }).callPrice;
+  const c3 = blackScholes({ S, K: K3, T, r, sigma, q }).callPrice;
   return [
     { type: "call", strike: K1, premium: c1, quantity: 1 },
     { type: "call", strike: K2, premium: c2, quantity: -2 },
@@ -393,12 +1978,12 @@ export function butterflySpread(
 
 export function ironCondor(
   S: number, K1: number, K2: number, K3: number, K4: number,
-  T: number, r: number, sigma: number
+  T: number, r: number, sigma: number, q: number = 0
 ): OptionLeg[] {
-  const p1 = blackScholes({ S, K: K1, T, r, sigma }).putPrice;
-  const p2 = blackScholes({ S, K: K2, T, r, sigma }).putPrice;
-  const c3 = blackScholes({ S, K: K3, T, r, sigma }).callPrice;
-  const c4 = blackScholes({ S, K: K4, T, r, sigma }).callPrice;
+  const p1 = blackScholes({ S, K: K1, T, r, sigma, q }).putPrice;
+  const p2 = blackScholes({ S, K: K2, T, r, sigma, q }).putPrice;
+  const c3 = blackScholes({ S, K: K3, T, r, sigma, q }).callPrice;
+  const c4 = blackScholes({ S, K: K4, T, r, sigma, q }).callPrice;
   return [
     { type: "put", strike: K1, premium: p1, quantity: 1 },
     { type: "put", strike: K2, premium: p2, quantity: -1 },
@@ -406,3 +1991,38 @@ export function ironCondor(
     { type: "call", strike: K4, premium: c4, quantity: 1 },
   ];
 }
+
+export function cashOrNothingCall(
+  S: number, K: number, T: number, r: number, sigma: number, q: number = 0, cash: number = 1
+): OptionLeg[] {
+  const premium = digitalOption({ S, K, T, r, sigma, q }, "call", "cash-or-nothing", cash);
+  return [{ type: "call", strike: K, premium, quantity: 1, style: "cash-or-nothing", cash }];
+}
+
+export function assetOrNothingCall(
+  S: number, K: number, T: number, r: number, sigma: number, q: number = 0
+): OptionLeg[] {
+  const premium = digitalOption({ S, K, T, r, sigma, q }, "call", "asset-or-nothing");
+  return [{ type: "call", strike: K, premium, quantity: 1, style: "asset-or-nothing" }];
+}
+
+/**
+ * Call spread replicating a cash-or-nothing call: long Q/width calls at
+ * K - width/2, short Q/width calls at K + width/2, against a short digital
+ * paying Q at K. The net payoff is the replication error, which vanishes
+ * outside the spread and shrinks with the width.
+ */
+export function digitalCallSpread(
+  S: number, K: number, width: number, T: number, r: number, sigma: number, q: number = 0, cash: number = 1
+): OptionLeg[] {
+  const K1 = K - width / 2;
+  const K2 = K + width / 2;
+  const c1 = blackScholes({ S, K: K1, T, r, sigma, q }).callPrice;
+  const c2 = blackScholes({ S, K: K2, T, r, sigma, q }).callPrice;
+  const digital = cashOrNothingCall(S, K, T, r, sigma, q, cash)[0];
+  return [
+    { type: "call", strike: K1, premium: c1, quantity: cash / width },
+    { type: "call", strike: K2, premium: c2, quantity: -cash / width },
+    { ...digital, quantity: -1 },
+  ];
+}
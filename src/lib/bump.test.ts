@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+  allGreeks,
+  blackScholes,
+  digitalGreeks,
+  digitalOption,
+  type BSInputs,
+  type DigitalType,
+  type Greeks,
+} from "./black-scholes";
+import { bumpGreeks, differenceQuotient, type BumpOptions } from "./bump";
+
+describe("differenceQuotient", () => {
+  it("converges at the order of its scheme", () => {
+    // Shrinking h tenfold cuts the central error a hundredfold, one-sided ones tenfold
+    const error = (scheme: "central" | "forward" | "backward", h: number) =>
+      Math.abs(differenceQuotient(Math.exp, 1, h, scheme).first - Math.E);
+    expect(error("central", 1e-2) / error("central", 1e-3)).toBeCloseTo(100, 0);
+    expect(error("forward", 1e-2) / error("forward", 1e-3)).toBeCloseTo(10, 0);
+    expect(error("backward", 1e-2) / error("backward", 1e-3)).toBeCloseTo(10, 0);
+  });
+
+  it("switches to the forward scheme instead of crossing the floor", () => {
+    const square = (x: number) => x * x;
+    const { first, second } = differenceQuotient(square, 0.001, 0.01, "central", 0);
+    expect(first).toBeCloseTo(0.002 + 0.01, 14);
+    expect(second).toBeCloseTo(2, 12);
+  });
+});
+
+describe("bumpGreeks", () => {
+  // The flagging rule of the Greek Verification page: a Greek disagrees when
+  // it is off by more than both tolerances
+  const REL_TOLERANCE = 1e-3;
+  const ABS_TOLERANCE = 1e-6;
+  const GREEKS: (keyof Greeks)[] = ["delta", "gamma", "theta", "vega", "rho", "psi"];
+  const products: ("vanilla" | DigitalType)[] = ["vanilla", "cash-or-nothing", "asset-or-nothing"];
+
+  const checkSweep = (T: number, options: BumpOptions = {}) => {
+    for (const style of products) {
+      for (const optionType of ["call", "put"] as const) {
+        const price = (inputs: BSInputs) => {
+          if (style !== "vanilla") return digitalOption(inputs, optionType, style);
+          const result = blackScholes(inputs);
+          return optionType === "call" ? result.callPrice : result.putPrice;
+        };
+        // Spot from half to one and a half times the strike, as on the page
+        for (let i = 0; i <= 120; i++) {
+          const inputs = { S: 100 * (0.5 + i / 120), K: 100, T, r: 0.05, sigma: 0.25, q: 0.02 };
+          const analytic =
+            style === "vanilla"
+              ? allGreeks(inputs, optionType)
+              : digitalGreeks(inputs, optionType, style);
+          const numerical = bumpGreeks(price, inputs, options);
+          for (const name of GREEKS) {
+            const difference = Math.abs(numerical[name] - analytic[name]);
+            const label = `${style} ${optionType} ${name} at S = ${inputs.S}, T = ${T}`;
+            expect(
+              difference <= ABS_TOLERANCE || difference <= REL_TOLERANCE * Math.abs(analytic[name]),
+              label
+            ).toBe(true);
+          }
+        }
+      }
+    }
+  };
+
+  it("agrees with the analytic Greeks across spot with the default bumps", () => {
+    checkSweep(0.5);
+    checkSweep(2);
+  });
+
+  it("agrees near expiry once the bumps are scaled down", () => {
+    // A one-day time bump is a sizeable fraction of an 18-day option
+    checkSweep(0.05, { bumps: { spot: 1e-4, time: 1 / 8760 } });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { blackScholes } from "./black-scholes";
+import {
+  chooserOption,
+  compoundCriticalSpot,
+  compoundOption,
+  fixedLookback,
+  floatingLookback,
+} from "./exotics";
+
+// Reference values are from Haug, The Complete Guide to Option Pricing Formulas
+
+describe("lookback options", () => {
+  it("match Haug's floating-strike reference price", () => {
+    const inputs = { S: 120, K: 0, T: 0.5, r: 0.1, q: 0.06, sigma: 0.3, runningMin: 100 };
+    expect(floatingLookback(inputs, "call")).toBeCloseTo(25.3533, 3);
+  });
+
+  it("match Haug's fixed-strike reference table", () => {
+    // S = running extreme = 100, T = 0.5, r = b = 10%, K = 95/100/105
+    const table: [number, number[], number[]][] = [
+      [0.1, [13.2687, 8.5126, 4.3908], [0.6899, 3.3917, 8.1478]],
+      [0.2, [18.9263, 14.1702, 9.8905], [4.4448, 8.3177, 13.0739]],
+      [0.3, [24.9858, 20.2296, 15.8512], [8.9213, 13.1579, 17.914]],
+    ];
+    for (const [sigma, calls, puts] of table) {
+      [95, 100, 105].forEach((K, i) => {
+        const inputs = { S: 100, K, T: 0.5, r: 0.1, sigma };
+        expect(fixedLookback(inputs, "call")).toBeCloseTo(calls[i], 4);
+        expect(fixedLookback(inputs, "put")).toBeCloseTo(puts[i], 4);
+      });
+    }
+  });
+
+  it("are worth at least the vanilla and pay the realized extreme at expiry", () => {
+    const inputs = { S: 100, K: 100, T: 1, r: 0.05, q: 0.02, sigma: 0.25 };
+    const vanilla = blackScholes(inputs);
+    expect(floatingLookback(inputs, "call")).toBeGreaterThan(vanilla.callPrice);
+    expect(fixedLookback(inputs, "put")).toBeGreaterThan(vanilla.putPrice);
+    const expired = { ...inputs, S: 104, T: 0, runningMin: 90, runningMax: 120 };
+    expect(floatingLookback(expired, "call")).toBe(14);
+    expect(fixedLookback(expired, "call")).toBe(20);
+  });
+});
+
+describe("chooserOption", () => {
+  const inputs = { S: 50, K: 50, T: 0.5, r: 0.08, sigma: 0.25, chooseTime: 0.25 };
+
+  it("matches Haug's simple chooser reference price", () => {
+    expect(chooserOption(inputs)).toBeCloseTo(6.1071, 4);
+  });
+
+  it("lies between the dearer vanilla and the straddle", () => {
+    const { callPrice, putPrice } = blackScholes(inputs);
+    for (const chooseTime of [0, 0.1, 0.25, 0.4, 0.5]) {
+      const price = chooserOption({ ...inputs, chooseTime });
+      expect(price).toBeGreaterThanOrEqual(Math.max(callPrice, putPrice) - 1e-12);
+      expect(price).toBeLessThanOrEqual(callPrice + putPrice + 1e-12);
+    }
+    // Choosing at expiry is the straddle
+    expect(chooserOption({ ...inputs, chooseTime: 0.5 })).toBeCloseTo(callPrice + putPrice, 10);
+  });
+});
+
+describe("compoundOption", () => {
+  const inputs = { S: 500, K: 520, T: 0.5, r: 0.08, q: 0.03, sigma: 0.35, T1: 0.25, K1: 50 };
+
+  it("matches Haug's put-on-call reference price", () => {
+    expect(compoundOption(inputs, "put-on-call")).toBeCloseTo(21.1965, 3);
+  });
+
+  it("satisfies compound put-call parity", () => {
+    const { callPrice, putPrice } = blackScholes(inputs);
+    const strike = inputs.K1 * Math.exp(-inputs.r * inputs.T1);
+    const onCall = compoundOption(inputs, "call-on-call") - compoundOption(inputs, "put-on-call");
+    const onPut = compoundOption(inputs, "call-on-put") - compoundOption(inputs, "put-on-put");
+    expect(onCall).toBeCloseTo(callPrice - strike, 10);
+    expect(onPut).toBeCloseTo(putPrice - strike, 10);
+  });
+
+  it("finds the spot where the underlying is worth the compound strike", () => {
+    const { K, T, r, sigma, q, T1, K1 } = inputs;
+    const critical = compoundCriticalSpot(inputs, "call");
+    const underlying = blackScholes({ S: critical, K, T: T - T1, r, sigma, q }).callPrice;
+    expect(underlying).toBeCloseTo(K1, 8);
+  });
+});
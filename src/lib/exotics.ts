@@ -0,0 +1,297 @@
+/**
+ * Lookback, Chooser and Compound Options
+ *
+ * Closed-form Black-Scholes-Merton prices with cost of carry b = r - q:
+ *
+ * - Floating-strike lookbacks (Goldman-Sosin-Gatto): the call pays
+ *   S_T - min S, the put max S - S_T, over a continuously monitored period
+ *   that may already have started.
+ * - Fixed-strike lookbacks (Conze-Viswanathan): the call pays
+ *   max(max S - K, 0), the put max(K - min S, 0).
+ * - Simple chooser (Rubinstein): at time t1 the holder picks a European
+ *   call or put with strike K expiring at T.
+ * - Compound options (Geske): a call or put, exercisable at T1 for K1, on a
+ *   European call or put with strike K expiring at T. The bivariate normal
+ *   comes from `bivariateNormCDF`.
+ *
+ * References:
+ *   Goldman, M. B., Sosin, H. B. & Gatto, M. A. (1979). "Path Dependent
+ *   Options: Buy at the Low, Sell at the High." Journal of Finance, 34(5).
+ *   Conze, A. & Viswanathan (1991). "Path Dependent Options: The Case of
+ *   Lookback Options." Journal of Finance, 46(5), 1893-1907.
+ *   Rubinstein, M. (1991). "Options for the Undecided." Risk, 4(4), 43.
+ *   Geske, R. (1979). "The Valuation of Compound Options." Journal of
+ *   Financial Economics, 7, 63-81.
+ *   Haug, E. G. (2007). "The Complete Guide to Option Pricing Formulas,"
+ *   2nd ed. McGraw-Hill, sec. 4.5, 4.8, 4.15.
+ */
+
+import { normCDF, bivariateNormCDF, blackScholes, type BSInputs } from "./black-scholes";
+
+export interface LookbackInputs extends BSInputs {
+  runningMin?: number; // lowest spot observed so far (default S)
+  runningMax?: number; // highest spot observed so far (default S)
+}
+
+export interface ChooserInputs extends BSInputs {
+  chooseTime: number; // time t1 at which call or put is chosen, 0 <= t1 <= T
+}
+
+export type CompoundType = "call-on-call" | "put-on-call" | "call-on-put" | "put-on-put";
+
+export interface CompoundInputs extends BSInputs {
+  T1: number; // expiry of the compound option, T1 < T
+  K1: number; // price paid at T1 for the underlying option
+}
+
+// Below this |b| the lookback carry terms sigma^2/(2b) [...] are evaluated
+// at b = +/-CARRY_FLOOR; the bracket vanishes with b, so the limit is finite
+const CARRY_FLOOR = 1e-6;
+
+// ─── Lookbacks ──────────────────────────────────────────────────────────────
+
+/**
+ * Shared lookback term for an extreme M (running min, max or strike):
+ *   S e^{-rT} sigma^2/(2b) [eta (S/M)^{-2b/sigma^2} N(eta (-x + 2b sqrt(T)/sigma)) - eta e^{bT} N(-eta x)]
+ * with x = [ln(S/M) + (b + sigma^2/2) T] / (sigma sqrt(T)), eta = +1 when
+ * the payoff grows as the minimum falls (floating call, fixed put) and -1
+ * when it grows with the maximum (floating put, fixed call).
+ */
+function lookbackCarryTerm(
+  S: number,
+  M: number,
+  T: number,
+  r: number,
+  b: number,
+  sigma: number,
+  eta: 1 | -1
+): number {
+  const carry = Math.abs(b) < CARRY_FLOOR ? (b < 0 ? -CARRY_FLOOR : CARRY_FLOOR) : b;
+  const volT = sigma * Math.sqrt(T);
+  const x = (Math.log(S / M) + (carry + 0.5 * sigma * sigma) * T) / volT;
+  const reflected =
+    Math.pow(S / M, (-2 * carry) / (sigma * sigma)) * normCDF(eta * (-x + (2 * carry * Math.sqrt(T)) / sigma));
+  return (
+    ((S * Math.exp(-r * T) * sigma * sigma) / (2 * carry)) *
+    eta *
+    (reflected - Math.exp(carry * T) * normCDF(-eta * x))
+  );
+}
+
+/**
+ * Lognormal building block S e^{(b-r)T} N(phi x1) - M e^{-rT} N(phi x2)
+ * with x1 = [ln(S/M) + (b + sigma^2/2) T] / (sigma sqrt(T)), x2 = x1 - sigma sqrt(T).
+ */
+function lognormalTerm(
+  S: number,
+  M: number,
+  T: number,
+  r: number,
+  b: number,
+  sigma: number,
+  phi: 1 | -1
+): number {
+  const volT = sigma * Math.sqrt(T);
+  const x1 = (Math.log(S / M) + (b + 0.5 * sigma * sigma) * T) / volT;
+  return phi * (S * Math.exp((b - r) * T) * normCDF(phi * x1) - M * Math.exp(-r * T) * normCDF(phi * (x1 - volT)));
+}
+
+/**
+ * Floating-strike lookback (Goldman-Sosin-Gatto). The call pays
+ * S_T - min S and the put max S - S_T:
+ *
+ *   Call = S e^{(b-r)T} N(a1) - m e^{-rT} N(a2)
+ *          + S e^{-rT} sigma^2/(2b) [(S/m)^{-2b/sigma^2} N(-a1 + 2b sqrt(T)/sigma) - e^{bT} N(-a1)]
+ *   Put  = M e^{-rT} N(-b2) - S e^{(b-r)T} N(-b1)
+ *          + S e^{-rT} sigma^2/(2b) [-(S/M)^{-2b/sigma^2} N(b1 - 2b sqrt(T)/sigma) + e^{bT} N(b1)]
+ *
+ * with m and M the running minimum and maximum, and a1, b1 the usual d1
+ * with m and M as strike. The strike K is ignored.
+ */
+export function floatingLookback(inputs: LookbackInputs, optionType: "call" | "put"): number {
+  const { S, T, r, sigma, q = 0 } = inputs;
+  const runningMin = Math.min(inputs.runningMin ?? S, S);
+  const runningMax = Math.max(inputs.runningMax ?? S, S);
+  if (T <= 0 || sigma <= 0) {
+    return optionType === "call" ? S - runningMin : runningMax - S;
+  }
+  const b = r - q;
+  return optionType === "call"
+    ? lognormalTerm(S, runningMin, T, r, b, sigma, 1) + lookbackCarryTerm(S, runningMin, T, r, b, sigma, 1)
+    : lognormalTerm(S, runningMax, T, r, b, sigma, -1) + lookbackCarryTerm(S, runningMax, T, r, b, sigma, -1);
+}
+
+/**
+ * Fixed-strike lookback (Conze-Viswanathan). The call pays
+ * max(max S - K, 0) and the put max(K - min S, 0). Once the running
+ * extreme is through the strike, the locked-in amount is paid for certain:
+ *
+ *   Call, K > M:  S e^{(b-r)T} N(d1) - K e^{-rT} N(d2)
+ *                 + S e^{-rT} sigma^2/(2b) [-(S/K)^{-2b/sigma^2} N(d1 - 2b sqrt(T)/sigma) + e^{bT} N(d1)]
+ *   Call, K <= M: e^{-rT} (M - K) + the same with M in place of K
+ *   Put,  K < m:  K e^{-rT} N(-d2) - S e^{(b-r)T} N(-d1)
+ *                 + S e^{-rT} sigma^2/(2b) [(S/K)^{-2b/sigma^2} N(-d1 + 2b sqrt(T)/sigma) - e^{bT} N(-d1)]
+ *   Put,  K >= m: e^{-rT} (K - m) + the same with m in place of K
+ */
+export function fixedLookback(inputs: LookbackInputs, optionType: "call" | "put"): number {
+  const { S, K, T, r, sigma, q = 0 } = inputs;
+  const runningMin = Math.min(inputs.runningMin ?? S, S);
+  const runningMax = Math.max(inputs.runningMax ?? S, S);
+  if (T <= 0 || sigma <= 0) {
+    return optionType === "call" ? Math.max(runningMax - K, 0) : Math.max(K - runningMin, 0);
+  }
+  const b = r - q;
+  const discount = Math.exp(-r * T);
+
+  if (optionType === "call") {
+    const level = Math.max(K, runningMax);
+    return (
+      discount * (level - K) +
+      lognormalTerm(S, level, T, r, b, sigma, 1) +
+      lookbackCarryTerm(S, level, T, r, b, sigma, -1)
+    );
+  }
+  const level = Math.min(K, runningMin);
+  return (
+    discount * (K - level) +
+    lognormalTerm(S, level, T, r, b, sigma, -1) +
+    lookbackCarryTerm(S, level, T, r, b, sigma, 1)
+  );
+}
+
+// ─── Chooser ────────────────────────────────────────────────────────────────
+
+/**
+ * Simple chooser (Rubinstein). By put-call parity at t1 the chooser is a
+ * call (K, T) plus a put struck at K e^{-b(T - t1)} expiring at t1:
+ *
+ *   w = S e^{(b-r)T} N(d) - K e^{-rT} N(d - sigma sqrt(T))
+ *       - S e^{(b-r)T} N(-y) + K e^{-rT} N(-y + sigma sqrt(t1))
+ *
+ *   d = [ln(S/K) + (b + sigma^2/2) T] / (sigma sqrt(T))
+ *   y = [ln(S/K) + bT + sigma^2 t1 / 2] / (sigma sqrt(t1))
+ *
+ * At t1 = 0 this is the larger of call and put, at t1 = T a straddle.
+ */
+export function chooserOption(inputs: ChooserInputs): number {
+  const { S, K, T, r, sigma, q = 0 } = inputs;
+  const t1 = Math.min(Math.max(inputs.chooseTime, 0), T);
+  const vanilla = blackScholes(inputs);
+  if (t1 <= 0 || sigma <= 0) return Math.max(vanilla.callPrice, vanilla.putPrice);
+
+  const b = r - q;
+  const volT1 = sigma * Math.sqrt(t1);
+  const y = (Math.log(S / K) + b * T + 0.5 * sigma * sigma * t1) / volT1;
+  return (
+    vanilla.callPrice -
+    S * Math.exp((b - r) * T) * normCDF(-y) +
+    K * Math.exp(-r * T) * normCDF(-y + volT1)
+  );
+}
+
+// ─── Compound ───────────────────────────────────────────────────────────────
+
+/**
+ * Critical spot I at which the underlying option, with T - T1 left, is
+ * worth K1: the compound is exercised at T1 above (calls on calls) or
+ * below (on puts) it. Bisection on the monotone Black-Scholes price.
+ */
+export function compoundCriticalSpot(inputs: CompoundInputs, underlyingType: "call" | "put"): number {
+  const { K, T, r, sigma, q = 0, T1, K1 } = inputs;
+  const tau = T - T1;
+  const value = (spot: number) => {
+    const bs = blackScholes({ S: spot, K, T: tau, r, sigma, q });
+    return (underlyingType === "call" ? bs.callPrice : bs.putPrice) - K1;
+  };
+
+  // A put is worth at most K e^{-r tau}; beyond that there is no root
+  if (underlyingType === "put" && value(1e-8 * K) < 0) return NaN;
+
+  // Bracket [lo, hi] with value(lo) and value(hi) of opposite signs
+  let lo = K * 1e-8;
+  let hi = K;
+  if (underlyingType === "call") {
+    while (value(hi) < 0 && hi < 1e8 * K) hi *= 2;
+  } else {
+    while (value(hi) > 0 && hi < 1e8 * K) hi *= 2;
+  }
+  for (let i = 0; i < 200 && hi - lo > 1e-10 * hi; i++) {
+    const mid = 0.5 * (lo + hi);
+    const sameSideAsLo = underlyingType === "call" ? value(mid) < 0 : value(mid) > 0;
+    if (sameSideAsLo) lo = mid;
+    else hi = mid;
+  }
+  return 0.5 * (lo + hi);
+}
+
+/**
+ * Compound option (Geske): an option expiring at T1 with strike K1 on a
+ * European option with strike K expiring at T. With I the critical spot,
+ * rho = sqrt(T1 / T) and M the bivariate normal CDF,
+ *
+ *   y1 = [ln(S/I) + (b + sigma^2/2) T1] / (sigma sqrt(T1)),  y2 = y1 - sigma sqrt(T1)
+ *   z1 = [ln(S/K) + (b + sigma^2/2) T] / (sigma sqrt(T)),    z2 = z1 - sigma sqrt(T)
+ *
+ *   Call on call = S e^{(b-r)T} M(z1, y1; rho) - K e^{-rT} M(z2, y2; rho) - K1 e^{-rT1} N(y2)
+ *   Put on call  = K e^{-rT} M(z2, -y2; -rho) - S e^{(b-r)T} M(z1, -y1; -rho) + K1 e^{-rT1} N(-y2)
+ *   Call on put  = K e^{-rT} M(-z2, -y2; rho) - S e^{(b-r)T} M(-z1, -y1; rho) - K1 e^{-rT1} N(-y2)
+ *   Put on put   = S e^{(b-r)T} M(-z1, y1; -rho) - K e^{-rT} M(-z2, y2; -rho) + K1 e^{-rT1} N(y2)
+ *
+ * If the underlying put can never be worth K1, the call on it is worthless
+ * and the put on it is K1 e^{-rT1} less the put.
+ */
+export function compoundOption(inputs: CompoundInputs, compoundType: CompoundType): number {
+  const { S, K, T, r, sigma, q = 0, T1, K1 } = inputs;
+  const [outer, , underlyingType] = compoundType.split("-") as ["call" | "put", "on", "call" | "put"];
+
+  if (T1 <= 0) {
+    const bs = blackScholes({ S, K, T: T - Math.max(T1, 0), r, sigma, q });
+    const underlying = underlyingType === "call" ? bs.callPrice : bs.putPrice;
+    return Math.max(outer === "call" ? underlying - K1 : K1 - underlying, 0);
+  }
+
+  const I = compoundCriticalSpot(inputs, underlyingType);
+  if (Number.isNaN(I)) {
+    const put = blackScholes({ S, K, T, r, sigma, q }).putPrice;
+    return outer === "call" ? 0 : K1 * Math.exp(-r * T1) - put;
+  }
+
+  const b = r - q;
+  const rho = Math.sqrt(T1 / T);
+  const volT1 = sigma * Math.sqrt(T1);
+  const volT = sigma * Math.sqrt(T);
+  const y1 = (Math.log(S / I) + (b + 0.5 * sigma * sigma) * T1) / volT1;
+  const y2 = y1 - volT1;
+  const z1 = (Math.log(S / K) + (b + 0.5 * sigma * sigma) * T) / volT;
+  const z2 = z1 - volT;
+  const spotLeg = S * Math.exp((b - r) * T);
+  const strikeLeg = K * Math.exp(-r * T);
+  const premiumLeg = K1 * Math.exp(-r * T1);
+
+  switch (compoundType) {
+    case "call-on-call":
+      return (
+        spotLeg * bivariateNormCDF(z1, y1, rho) -
+        strikeLeg * bivariateNormCDF(z2, y2, rho) -
+        premiumLeg * normCDF(y2)
+      );
+    case "put-on-call":
+      return (
+        strikeLeg * bivariateNormCDF(z2, -y2, -rho) -
+        spotLeg * bivariateNormCDF(z1, -y1, -rho) +
+        premiumLeg * normCDF(-y2)
+      );
+    case "call-on-put":
+      return (
+        strikeLeg * bivariateNormCDF(-z2, -y2, rho) -
+        spotLeg * bivariateNormCDF(-z1, -y1, rho) -
+        premiumLeg * normCDF(-y2)
+      );
+    default: // put-on-put
+      return (
+        spotLeg * bivariateNormCDF(-z1, y1, -rho) -
+        strikeLeg * bivariateNormCDF(-z2, y2, -rho) +
+        premiumLeg * normCDF(y2)
+      );
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { blackScholes } from "./black-scholes";
+import { fellerCondition, heston, hestonEquivalentVol } from "./heston";
+
+describe("heston", () => {
+  it("matches published reference prices", () => {
+    // Fang & Oosterlee (2008), "A Novel Pricing Method for European Options
+    // Based on Fourier-Cosine Series Expansions": Feller-violating case
+    const fang = { kappa: 1.5768, theta: 0.0398, xi: 0.5751, rho: -0.5711, v0: 0.0175 };
+    expect(heston({ S: 100, K: 100, T: 1, r: 0, ...fang }).callPrice).toBeCloseTo(5.785155, 4);
+
+    // Lewis (2001), table of reference values for r = 1%, q = 2%
+    const lewis = { kappa: 4, theta: 0.25, xi: 1, rho: -0.5, v0: 0.04 };
+    const expected: [number, number][] = [
+      [80, 26.774758744],
+      [90, 20.933349001],
+      [100, 16.070154917],
+      [110, 12.132211517],
+      [120, 9.024913483],
+    ];
+    for (const [K, call] of expected) {
+      const inputs = { S: 100, K, T: 1, r: 0.01, q: 0.02, ...lewis };
+      expect(heston(inputs).callPrice).toBeCloseTo(call, 4);
+    }
+  });
+
+  it("satisfies put-call parity", () => {
+    const inputs = {
+      S: 95,
+      K: 100,
+      T: 2,
+      r: 0.04,
+      q: 0.015,
+      kappa: 3,
+      theta: 0.05,
+      xi: 0.6,
+      rho: -0.6,
+      v0: 0.03,
+    };
+    const { callPrice, putPrice } = heston(inputs);
+    const { S, K, T, r, q } = inputs;
+    expect(callPrice - putPrice).toBeCloseTo(S * Math.exp(-q * T) - K * Math.exp(-r * T), 10);
+  });
+
+  it("reduces to Black-Scholes-Merton as the vol of variance vanishes", () => {
+    const params = { kappa: 2, theta: 0.04, xi: 1e-4, rho: -0.7, v0: 0.09 };
+    const inputs = { S: 100, K: 110, T: 0.75, r: 0.03, q: 0.01 };
+    const sigma = hestonEquivalentVol(params, inputs.T);
+    const closed = blackScholes({ ...inputs, sigma });
+    const stochastic = heston({ ...inputs, ...params });
+    expect(stochastic.callPrice).toBeCloseTo(closed.callPrice, 3);
+    expect(stochastic.putPrice).toBeCloseTo(closed.putPrice, 3);
+  });
+
+  it("checks the Feller condition", () => {
+    expect(fellerCondition({ kappa: 2, theta: 0.04, xi: 0.3, rho: 0, v0: 0.04 })).toBe(true);
+    expect(fellerCondition({ kappa: 1.5768, theta: 0.0398, xi: 0.5751, rho: 0, v0: 0.04 })).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Heston Stochastic Volatility Model
+ *
+ * The variance follows a mean-reverting square-root process correlated
+ * with the spot:
+ *
+ *   dS = (r - q) S dt + sqrt(v) S dW1
+ *   dv = kappa (theta - v) dt + xi sqrt(v) dW2,   dW1 dW2 = rho dt
+ *
+ * European prices come from the characteristic function of ln(S_T) by
+ * Lewis's single-integral formula.
+ *
+ * References:
+ *   Heston, S. (1993). "A Closed-Form Solution for Options with Stochastic
+ *   Volatility." Review of Financial Studies, 6(2), 327-343.
+ *   Lewis, A. (2001). "A Simple Option Formula for General Jump-Diffusion
+ *   and Other Exponential Levy Processes." SSRN 282110.
+ *   Albrecher, H. et al. (2007). "The Little Heston Trap." Wilmott, 83-92.
+ */
+
+export interface HestonParams {
+  kappa: number; // Speed of mean reversion of variance
+  theta: number; // Long-run variance
+  xi: number; // Volatility of variance
+  rho: number; // Spot/variance correlation
+  v0: number; // Initial variance
+}
+
+export interface HestonInputs extends HestonParams {
+  S: number; // Spot price
+  K: number; // Strike price
+  T: number; // Time to expiration (years)
+  r: number; // Risk-free rate (decimal)
+  q?: number; // Continuous dividend yield (decimal)
+}
+
+export interface HestonResult {
+  callPrice: number;
+  putPrice: number;
+}
+
+// ─── Complex Arithmetic ─────────────────────────────────────────────────────
+
+interface Complex {
+  re: number;
+  im: number;
+}
+
+const c = (re: number, im: number = 0): Complex => ({ re, im });
+const add = (a: Complex, b: Complex): Complex => c(a.re + b.re, a.im + b.im);
+const sub = (a: Complex, b: Complex): Complex => c(a.re - b.re, a.im - b.im);
+const mul = (a: Complex, b: Complex): Complex =>
+  c(a.re * b.re - a.im * b.im, a.re * b.im + a.im * b.re);
+const div = (a: Complex, b: Complex): Complex => {
+  const d = b.re * b.re + b.im * b.im;
+  return c((a.re * b.re + a.im * b.im) / d, (a.im * b.re - a.re * b.im) / d);
+};
+const cexp = (a: Complex): Complex => {
+  const m = Math.exp(a.re);
+  return c(m * Math.cos(a.im), m * Math.sin(a.im));
+};
+const clog = (a: Complex): Complex => c(Math.log(Math.hypot(a.re, a.im)), Math.atan2(a.im, a.re));
+const csqrt = (a: Complex): Complex => {
+  const m = Math.sqrt(Math.hypot(a.re, a.im));
+  const arg = Math.atan2(a.im, a.re) / 2;
+  return c(m * Math.cos(arg), m * Math.sin(arg));
+};
+
+// ─── Pricing ────────────────────────────────────────────────────────────────
+
+/**
+ * Characteristic function of X_T = ln(S_T / F), F = S e^{(r-q)T}, at a
+ * complex argument u, in the "little trap" form that keeps the complex
+ * logarithm on its principal branch:
+ *   d = sqrt((rho xi iu - kappa)^2 + xi^2 (iu + u^2))
+ *   g = (kappa - rho xi iu - d) / (kappa - rho xi iu + d)
+ *   C = kappa theta / xi^2 [(kappa - rho xi iu - d) T - 2 ln((1 - g e^{-dT}) / (1 - g))]
+ *   D = (kappa - rho xi iu - d) / xi^2 * (1 - e^{-dT}) / (1 - g e^{-dT})
+ *   phi(u) = exp(C + D v0)
+ */
+function hestonCF(u: Complex, T: number, p: HestonParams): Complex {
+  const { kappa, theta, xi, rho, v0 } = p;
+  const iu = c(-u.im, u.re);
+  const beta = sub(c(kappa), mul(c(rho * xi), iu));
+  const d = csqrt(add(mul(beta, beta), mul(c(xi * xi), add(iu, mul(u, u)))));
+  const g = div(sub(beta, d), add(beta, d));
+  const edt = cexp(mul(c(-T), d));
+  const one = c(1);
+  const logTerm = clog(div(sub(one, mul(g, edt)), sub(one, g)));
+  const C = mul(
+    c((kappa * theta) / (xi * xi)),
+    sub(mul(sub(beta, d), c(T)), mul(c(2), logTerm))
+  );
+  const D = mul(
+    div(sub(beta, d), c(xi * xi)),
+    div(sub(one, edt), sub(one, mul(g, edt)))
+  );
+  return cexp(add(C, mul(D, c(v0))));
+}
+
+// Integration grid for the Lewis integral: Simpson's rule on [0, U_MAX]
+const U_MAX = 200;
+const U_INTERVALS = 2000;
+
+/**
+ * Heston price by the Lewis (2001) formula:
+ *   C = S e^{-qT} - sqrt(S K) e^{-(r+q)T/2} / pi
+ *       * Integral_0^inf Re[e^{iuk} phi(u - i/2)] / (u^2 + 1/4) du
+ * with k = ln(S/K) + (r - q)T. The put follows from put-call parity.
+ */
+export function heston(inputs: HestonInputs): HestonResult {
+  const { S, K, T, r, q = 0 } = inputs;
+
+  if (T <= 0) {
+    return { callPrice: Math.max(S - K, 0), putPrice: Math.max(K - S, 0) };
+  }
+
+  const k = Math.log(S / K) + (r - q) * T;
+  const integrand = (u: number) => {
+    const phi = hestonCF(c(u, -0.5), T, inputs);
+    // Re[e^{iuk} phi]
+    return (Math.cos(u * k) * phi.re - Math.sin(u * k) * phi.im) / (u * u + 0.25);
+  };
+
+  const h = U_MAX / U_INTERVALS;
+  let integral = integrand(0) + integrand(U_MAX);
+  for (let i = 1; i < U_INTERVALS; i++) {
+    integral += (i % 2 === 1 ? 4 : 2) * integrand(i * h);
+  }
+  integral *= h / 3;
+
+  const discountedSpot = S * Math.exp(-q * T);
+  const discountedStrike = K * Math.exp(-r * T);
+  const callPrice =
+    discountedSpot - (Math.sqrt(S * K) * Math.exp(-0.5 * (r + q) * T) * integral) / Math.PI;
+  const call = Math.max(callPrice, Math.max(discountedSpot - discountedStrike, 0));
+  return { callPrice: call, putPrice: Math.max(call - discountedSpot + discountedStrike, 0) };
+}
+
+/**
+ * Feller condition 2 kappa theta > xi^2: when it holds the variance
+ * process never touches zero.
+ */
+export function fellerCondition(params: HestonParams): boolean {
+  return 2 * params.kappa * params.theta > params.xi * params.xi;
+}
+
+/**
+ * Variance-matched flat volatility: the square root of the expected
+ * average variance over [0, T],
+ *   sigma^2 = theta + (v0 - theta) (1 - e^{-kappa T}) / (kappa T)
+ */
+export function hestonEquivalentVol(params: HestonParams, T: number): number {
+  const { kappa, theta, v0 } = params;
+  const kT = kappa * T;
+  const weight = kT < 1e-10 ? 1 : (1 - Math.exp(-kT)) / kT;
+  return Math.sqrt(theta + (v0 - theta) * weight);
+}
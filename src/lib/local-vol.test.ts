@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { blackScholes } from "./black-scholes";
+import { dupireLocalVol, volInterpolator, type VolSurface } from "./local-vol";
+import { monteCarloLocalVol } from "./monte-carlo";
+
+function surface(
+  strikes: number[],
+  maturities: number[],
+  iv: (K: number, T: number) => number
+): VolSurface {
+  return { strikes, maturities, vols: maturities.map((T) => strikes.map((K) => iv(K, T))) };
+}
+
+describe("dupireLocalVol", () => {
+  // Evenly spaced strikes but uneven maturities, as quoted in practice
+  const strikes = Array.from({ length: 31 }, (_, i) => 50 + 5 * i);
+  const maturities = [0.25, 0.5, 0.75, 1, 1.5, 2];
+
+  it("returns a flat implied surface unchanged", () => {
+    const local = dupireLocalVol(surface(strikes, maturities, () => 0.2), 100, 0.03, 0.01);
+    expect(local.repaired).toBe(0);
+    for (const v of local.surface.vols.flat()) expect(v).toBeCloseTo(0.2, 12);
+  });
+
+  it("turns a pure term structure into the forward variance", () => {
+    // sigma_imp^2 = 0.04 + 0.02 T, so sigma_loc^2 = d(sigma_imp^2 T)/dT = 0.04 + 0.04 T
+    const implied = surface(strikes, maturities, (_, T) => Math.sqrt(0.04 + 0.02 * T));
+    const local = dupireLocalVol(implied, 100, 0.03, 0.01);
+    maturities.forEach((T, j) => {
+      const forward = Math.sqrt(0.04 + 0.04 * T);
+      for (const v of local.surface.vols[j]) expect(v).toBeCloseTo(forward, 10);
+    });
+  });
+
+  it("reprices the implied smile by simulation", () => {
+    const S = 100;
+    const inputs = { S, T: 1, r: 0.03, q: 0.01 };
+    const iv = (K: number, T: number) => 0.2 - (0.05 * Math.log(K / S)) / Math.sqrt(T) + 0.02 * T;
+    const implied = surface(
+      Array.from({ length: 61 }, (_, i) => S * (0.4 + (i / 60) * 1.6)),
+      Array.from({ length: 31 }, (_, j) => 0.05 + (j / 30) * 2.95),
+      iv
+    );
+    const local = dupireLocalVol(implied, S, inputs.r, inputs.q);
+    expect(local.repaired).toBe(0);
+    const sigma = volInterpolator(local.surface);
+    for (const K of [85, 100, 115]) {
+      const payoff = (path: number[]) => Math.max(path[path.length - 1] - K, 0);
+      const mc = monteCarloLocalVol({ ...inputs, K }, sigma, payoff, {
+        paths: 20000,
+        steps: 50,
+        antithetic: true,
+      });
+      const closed = blackScholes({ ...inputs, K, sigma: iv(K, inputs.T) }).callPrice;
+      expect(Math.abs(mc.price - closed)).toBeLessThan(4 * mc.stdError);
+    }
+  });
+});
+
+describe("volInterpolator", () => {
+  it("hits the nodes and extrapolates flat", () => {
+    const grid = {
+      strikes: [80, 100, 120],
+      maturities: [0.5, 1],
+      vols: [
+        [0.3, 0.25, 0.22],
+        [0.28, 0.24, 0.21],
+      ],
+    };
+    const sigma = volInterpolator(grid);
+    expect(sigma(100, 0.5)).toBeCloseTo(0.25, 14);
+    expect(sigma(120, 1)).toBeCloseTo(0.21, 14);
+    expect(sigma(100, 0.75)).toBeCloseTo(0.245, 14);
+    expect(sigma(50, 0.1)).toBeCloseTo(0.3, 14);
+    expect(sigma(200, 5)).toBeCloseTo(0.21, 14);
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Dupire Local Volatility
+ *
+ * The local volatility sigma(S, t) is the unique diffusion coefficient
+ * that reprices every European option on a given implied-vol surface.
+ * In total implied variance w(y, T) = sigma_imp^2 T, with log-moneyness
+ * y = ln(K / F_T), Dupire's formula reads
+ *
+ *   sigma_loc^2 = (dw/dT)
+ *                 / [1 - (y/w) dw/dy + (1/4)(-1/4 - 1/w + y^2/w^2)(dw/dy)^2
+ *                    + (1/2) d^2w/dy^2]
+ *
+ * Derivatives are taken by finite differences on a strike x maturity grid,
+ * so the input surface is smoothed first and nodes where the formula breaks
+ * down (calendar or butterfly arbitrage, numerical noise) fall back to the
+ * implied vol.
+ *
+ * References:
+ *   Dupire, B. (1994). "Pricing with a Smile." Risk, 7(1), 18-20.
+ *   Gatheral, J. (2006). "The Volatility Surface." Wiley, ch. 1.
+ */
+
+/** Volatility on a strike x maturity grid; vols[j][i] is at (strikes[i], maturities[j]) */
+export interface VolSurface {
+  strikes: number[]; // ascending
+  maturities: number[]; // ascending, > 0
+  vols: number[][];
+}
+
+export interface LocalVolResult {
+  surface: VolSurface; // local vols on the input grid
+  repaired: number; // nodes replaced by the implied vol
+}
+
+// Local vols are clamped to this range
+const LOCAL_VOL_MIN = 0.01;
+const LOCAL_VOL_MAX = 3;
+// Smallest denominator accepted before a node is treated as arbitrageable
+const DENOMINATOR_FLOOR = 1e-4;
+
+// ─── Interpolation ──────────────────────────────────────────────────────────
+
+/** Index i with xs[i] <= x < xs[i + 1], clamped to the grid */
+function bracket(xs: number[], x: number): number {
+  let lo = 0;
+  let hi = xs.length - 1;
+  if (x <= xs[0]) return 0;
+  if (x >= xs[hi]) return hi - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (xs[mid] <= x) lo = mid;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/** Linear interpolation with flat extrapolation */
+function interpolate(xs: number[], ys: number[], x: number): number {
+  if (xs.length === 1 || x <= xs[0]) return ys[0];
+  if (x >= xs[xs.length - 1]) return ys[ys.length - 1];
+  const i = bracket(xs, x);
+  const t = (x - xs[i]) / (xs[i + 1] - xs[i]);
+  return ys[i] + t * (ys[i + 1] - ys[i]);
+}
+
+/**
+ * Bilinear interpolation of a surface in (ln K, T) with flat extrapolation
+ * beyond the grid, e.g. to read sigma(S_t, t) inside a simulation.
+ */
+export function volInterpolator(surface: VolSurface): (K: number, T: number) => number {
+  const { strikes, maturities, vols } = surface;
+  const logStrikes = strikes.map(Math.log);
+  return (K, T) => {
+    const x = Math.log(K);
+    const row = (j: number) => interpolate(logStrikes, vols[j], x);
+    if (maturities.length === 1 || T <= maturities[0]) return row(0);
+    if (T >= maturities[maturities.length - 1]) return row(maturities.length - 1);
+    const j = bracket(maturities, T);
+    const t = (T - maturities[j]) / (maturities[j + 1] - maturities[j]);
+    return row(j) + t * (row(j + 1) - row(j));
+  };
+}
+
+// ─── Dupire ─────────────────────────────────────────────────────────────────
+
+/**
+ * Five-point Savitzky-Golay smoother: each interior value is replaced by a
+ * least-squares cubic through it and its two neighbours on each side,
+ * evaluated at its own abscissa. On an evenly spaced grid these are the
+ * weights (-3, 12, 17, 12, -3) / 35; fitting on the actual abscissae keeps
+ * cubics exact on an uneven grid too, so it damps quote noise without
+ * biasing the curvature that drives the local vol. The two end points on
+ * each side are kept.
+ */
+function savitzkyGolay(xs: number[], values: number[]): number[] {
+  return values.map((v, i) => {
+    if (i < 2 || i > values.length - 3) return v;
+
+    // Normal equations for c0 + c1 u + c2 u^2 + c3 u^3, with u centred on
+    // xs[i] and scaled to the window so the system stays well conditioned
+    const scale = (xs[i + 2] - xs[i - 2]) / 4;
+    const ata = [0, 1, 2, 3].map(() => [0, 0, 0, 0]);
+    const aty = [0, 0, 0, 0];
+    for (let k = i - 2; k <= i + 2; k++) {
+      const u = (xs[k] - xs[i]) / scale;
+      const row = [1, u, u * u, u * u * u];
+      for (let a = 0; a < 4; a++) {
+        aty[a] += row[a] * values[k];
+        for (let b = 0; b < 4; b++) ata[a][b] += row[a] * row[b];
+      }
+    }
+
+    // Gaussian elimination; the fitted value at u = 0 is c0
+    for (let col = 0; col < 4; col++) {
+      for (let r = col + 1; r < 4; r++) {
+        const f = ata[r][col] / ata[col][col];
+        for (let c = col; c < 4; c++) ata[r][c] -= f * ata[col][c];
+        aty[r] -= f * aty[col];
+      }
+    }
+    const coef = [0, 0, 0, 0];
+    for (let r = 3; r >= 0; r--) {
+      let sum = aty[r];
+      for (let c = r + 1; c < 4; c++) sum -= ata[r][c] * coef[c];
+      coef[r] = sum / ata[r][r];
+    }
+    return coef[0];
+  });
+}
+
+/** Smooths a grid across log strikes (each row), then across maturities (each column) */
+function smoothGrid(
+  grid: number[][],
+  logStrikes: number[],
+  maturities: number[],
+  passes: number
+): number[][] {
+  let out = grid.map((row) => row.slice());
+  for (let p = 0; p < passes; p++) {
+    out = out.map((row) => savitzkyGolay(logStrikes, row));
+    const columns = out[0].map((_, i) => savitzkyGolay(maturities, out.map((row) => row[i])));
+    out = out.map((row, j) => row.map((_, i) => columns[i][j]));
+  }
+  return out;
+}
+
+/**
+ * First and second derivatives at xs[i] by three-point differences on a
+ * non-uniform grid (one-sided at the ends, where the second derivative is
+ * taken from the nearest interior point).
+ */
+function derivatives(xs: number[], ys: number[], i: number): { d1: number; d2: number } {
+  const n = xs.length;
+  const c = Math.min(Math.max(i, 1), n - 2);
+  const h0 = xs[c] - xs[c - 1];
+  const h1 = xs[c + 1] - xs[c];
+  const d2 = (2 * (h0 * ys[c + 1] - (h0 + h1) * ys[c] + h1 * ys[c - 1])) / (h0 * h1 * (h0 + h1));
+  if (i === 0) return { d1: (ys[1] - ys[0]) / (xs[1] - xs[0]) - 0.5 * d2 * (xs[1] - xs[0]), d2 };
+  if (i === n - 1) {
+    const h = xs[n - 1] - xs[n - 2];
+    return { d1: (ys[n - 1] - ys[n - 2]) / h + 0.5 * d2 * h, d2 };
+  }
+  const d1 = (h0 * h0 * ys[c + 1] + (h1 * h1 - h0 * h0) * ys[c] - h1 * h1 * ys[c - 1]) / (h0 * h1 * (h0 + h1));
+  return { d1, d2 };
+}
+
+/**
+ * Dupire local volatility on the grid of an implied-vol surface.
+ *
+ * Safeguards: total variance is smoothed across strikes and maturities
+ * (`smoothing` Savitzky-Golay passes), the time derivative is taken at
+ * fixed log-moneyness, and nodes with a non-positive time derivative or a
+ * denominator below a small floor fall back to the implied vol. Results are
+ * clamped to [1%, 300%].
+ *
+ * @param implied - Implied vols on a strike x maturity grid (at least 3 x 2)
+ * @param smoothing - Passes of the smoother (default 1, 0 disables)
+ */
+export function dupireLocalVol(
+  implied: VolSurface,
+  S: number,
+  r: number,
+  q: number = 0,
+  smoothing: number = 1
+): LocalVolResult {
+  const { strikes, maturities, vols } = implied;
+  const logStrikes = strikes.map(Math.log);
+  const logForwards = maturities.map((t) => Math.log(S) + (r - q) * t);
+  const totalVariance = smoothGrid(
+    vols.map((row, j) => row.map((v) => v * v * maturities[j])),
+    logStrikes,
+    maturities,
+    smoothing
+  );
+
+  // w(y, T_j) at an arbitrary log-moneyness, interpolated along the slice
+  const sliceAt = (j: number, y: number) =>
+    interpolate(logStrikes, totalVariance[j], y + logForwards[j]);
+
+  let repaired = 0;
+  const localVols = maturities.map((_, j) => {
+    const ys = logStrikes.map((x) => x - logForwards[j]);
+    return strikes.map((_, i) => {
+      const w = totalVariance[j][i];
+      const y = ys[i];
+      const { d1: wy, d2: wyy } = derivatives(ys, totalVariance[j], i);
+
+      // Time derivative at fixed y, second order on an uneven grid when
+      // there are three or more maturities
+      const slice = maturities.map((_, jj) => sliceAt(jj, y));
+      const wT =
+        maturities.length < 3
+          ? (slice[1] - slice[0]) / (maturities[1] - maturities[0])
+          : derivatives(maturities, slice, j).d1;
+
+      const denominator =
+        1 - (y / w) * wy + 0.25 * (-0.25 - 1 / w + (y * y) / (w * w)) * wy * wy + 0.5 * wyy;
+      const localVariance = wT / denominator;
+
+      if (!(wT > 0) || !(denominator > DENOMINATOR_FLOOR) || !Number.isFinite(localVariance)) {
+        repaired++;
+        return vols[j][i];
+      }
+      return Math.min(Math.max(Math.sqrt(localVariance), LOCAL_VOL_MIN), LOCAL_VOL_MAX);
+    });
+  });
+
+  return { surface: { strikes, maturities, vols: localVols }, repaired };
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { blackScholes } from "./black-scholes";
+import {
+  monteCarlo,
+  monteCarloConvergence,
+  monteCarloEuropean,
+  monteCarloLocalVol,
+  type PathPayoff,
+} from "./monte-carlo";
+
+describe("Monte Carlo", () => {
+  const inputs = { S: 100, K: 105, T: 1, r: 0.05, sigma: 0.25, q: 0.01 };
+  const closed = blackScholes(inputs);
+  const call: PathPayoff = (path) => Math.max(path[path.length - 1] - inputs.K, 0);
+
+  it("brackets the closed form within its confidence interval", () => {
+    const variants = [
+      {},
+      { antithetic: true },
+      { controlVariate: true, controlType: "put" as const },
+    ];
+    for (const options of variants) {
+      for (const optionType of ["call", "put"] as const) {
+        const mc = monteCarloEuropean(inputs, optionType, { paths: 20000, ...options });
+        const price = optionType === "call" ? closed.callPrice : closed.putPrice;
+        // The put control prices the put exactly, with zero standard error
+        expect(Math.abs(mc.price - price)).toBeLessThan(4 * mc.stdError + 1e-9);
+        expect(mc.ciLow).toBeLessThanOrEqual(mc.price);
+        expect(mc.ciHigh).toBeGreaterThanOrEqual(mc.price);
+      }
+    }
+  });
+
+  it("reduces variance with antithetic and control variates", () => {
+    const plain = monteCarloEuropean(inputs, "put", { paths: 20000 });
+    const antithetic = monteCarloEuropean(inputs, "put", { paths: 20000, antithetic: true });
+    const control = monteCarloEuropean(inputs, "put", { paths: 20000, controlVariate: true });
+    expect(antithetic.stdError).toBeLessThan(plain.stdError);
+    expect(control.stdError).toBeLessThan(plain.stdError);
+    // A control on the priced instrument itself returns the closed form
+    const self = monteCarloEuropean(inputs, "call", { paths: 20000, controlVariate: true });
+    expect(self.price).toBeCloseTo(closed.callPrice, 10);
+  });
+
+  it("is reproducible from its seed", () => {
+    const a = monteCarlo(inputs, call, { paths: 5000, steps: 4, seed: 7 });
+    const b = monteCarlo(inputs, call, { paths: 5000, steps: 4, seed: 7 });
+    const c = monteCarlo(inputs, call, { paths: 5000, steps: 4, seed: 8 });
+    expect(a.price).toBe(b.price);
+    expect(a.price).not.toBe(c.price);
+  });
+
+  it("reports a convergence profile ending at the full path count", () => {
+    const profile = monteCarloConvergence(inputs, call, { paths: 20000 }, 10);
+    expect(profile.map((p) => p.paths)).toEqual(
+      [...profile.map((p) => p.paths)].sort((x, y) => x - y)
+    );
+    expect(profile[profile.length - 1].price).toBe(
+      monteCarlo(inputs, call, { paths: 20000 }).price
+    );
+  });
+
+  it("reduces to Black-Scholes-Merton under a flat local volatility", () => {
+    const mc = monteCarloLocalVol(inputs, () => inputs.sigma, call, { paths: 20000, steps: 10 });
+    expect(Math.abs(mc.price - closed.callPrice)).toBeLessThan(4 * mc.stdError);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { inverseNormCDF, normCDF } from "./black-scholes";
+import { compareCDFs, inverseRoundTrip, maxError, normCDFReference } from "./numerics";
+
+describe("normCDF", () => {
+  // Phi(x) to 17 significant digits
+  const published: [number, number][] = [
+    [-20, 2.7536241186062337e-89],
+    [-10, 7.619853024160527e-24],
+    [-5, 2.866515718791939e-7],
+    [-1, 0.15865525393145707],
+    [1.5, 0.9331927987311419],
+  ];
+
+  it("matches published values to double precision", () => {
+    for (const [x, phi] of published) {
+      expect(Math.abs(normCDF(x) / phi - 1)).toBeLessThan(1e-15);
+      expect(Math.abs(normCDFReference(x) / phi - 1)).toBeLessThan(1e-15);
+    }
+  });
+
+  it("stays accurate in the tails where the approximations do not", () => {
+    const xs = Array.from({ length: 153 }, (_, i) => -30 + i * 0.25);
+    const { current, abramowitzStegun, baseline } = compareCDFs(xs);
+    expect(maxError(current)).toBeLessThan(1e-14);
+    // Abramowitz & Stegun 26.2.17 is good to 7.5e-8 absolute, not relative
+    expect(maxError(abramowitzStegun, "absError")).toBeLessThan(7.5e-8);
+    expect(maxError(abramowitzStegun)).toBeGreaterThan(1e-3);
+    // The baseline is off by several percent of probability mass
+    expect(maxError(baseline, "absError")).toBeGreaterThan(1e-2);
+  });
+});
+
+describe("inverseNormCDF", () => {
+  it("inverts normCDF down to the smallest probabilities", () => {
+    const ps = [1e-300, 1e-100, 1e-20, 1e-8, 0.001, 0.3, 0.5, 0.9, 1 - 1e-10];
+    expect(maxError(inverseRoundTrip(ps))).toBeLessThan(1e-13);
+    // Without the Halley step the rational approximation is good to about 1e-7
+    expect(maxError(inverseRoundTrip(ps, false))).toBeLessThan(1e-6);
+    expect(inverseNormCDF(0.975)).toBeCloseTo(1.959963984540054, 14);
+    expect(inverseNormCDF(0.5)).toBe(0);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Numerical Optimization
+ *
+ * Derivative-free minimization used by the model calibrators. Parameters
+ * with bounds are mapped to unconstrained coordinates by the callers (e.g.
+ * exp for positive values, tanh for correlations), so the optimizer itself
+ * works on all of R^n.
+ *
+ * Reference: Nelder, J. & Mead, R. (1965). "A Simplex Method for Function
+ * Minimization." The Computer Journal, 7(4), 308-313.
+ */
+
+export interface MinimizeResult {
+  x: number[];
+  value: number;
+  iterations: number;
+  converged: boolean;
+}
+
+/**
+ * Nelder-Mead downhill simplex with the standard coefficients
+ * (reflection 1, expansion 2, contraction 1/2, shrink 1/2).
+ *
+ * @param step - Initial simplex edge along each coordinate (default 0.1)
+ */
+export function nelderMead(
+  f: (x: number[]) => number,
+  x0: number[],
+  maxIter: number = 500,
+  tol: number = 1e-10,
+  step: number = 0.1
+): MinimizeResult {
+  const n = x0.length;
+  let simplex: number[][] = [x0.slice()];
+  for (let i = 0; i < n; i++) {
+    const vertex = x0.slice();
+    vertex[i] += vertex[i] !== 0 ? step * Math.abs(vertex[i]) : step;
+    simplex.push(vertex);
+  }
+  let values = simplex.map(f);
+
+  const combine = (a: number[], b: number[], t: number) => a.map((ai, i) => ai + t * (b[i] - ai));
+
+  for (let iter = 0; iter < maxIter; iter++) {
+    // Order vertices best to worst
+    const order = values.map((v, i) => i).sort((i, j) => values[i] - values[j]);
+    simplex = order.map((i) => simplex[i]);
+    values = order.map((i) => values[i]);
+
+    if (Math.abs(values[n] - values[0]) <= tol * (Math.abs(values[0]) + tol)) {
+      return { x: simplex[0], value: values[0], iterations: iter, converged: true };
+    }
+
+    const centroid = new Array<number>(n).fill(0);
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) centroid[j] += simplex[i][j] / n;
+    }
+
+    const worst = simplex[n];
+    const reflected = combine(centroid, worst, -1);
+    const fr = f(reflected);
+
+    if (fr < values[0]) {
+      const expanded = combine(centroid, worst, -2);
+      const fe = f(expanded);
+      if (fe < fr) {
+        simplex[n] = expanded;
+        values[n] = fe;
+      } else {
+        simplex[n] = reflected;
+        values[n] = fr;
+      }
+    } else if (fr < values[n - 1]) {
+      simplex[n] = reflected;
+      values[n] = fr;
+    } else {
+      const outside = fr < values[n];
+      const contracted = combine(centroid, outside ? reflected : worst, 0.5);
+      const fc = f(contracted);
+      if (fc < (outside ? fr : values[n])) {
+        simplex[n] = contracted;
+        values[n] = fc;
+      } else {
+        for (let i = 1; i <= n; i++) {
+          simplex[i] = combine(simplex[0], simplex[i], 0.5);
+          values[i] = f(simplex[i]);
+        }
+      }
+    }
+  }
+
+  const best = values.indexOf(Math.min(...values));
+  return { x: simplex[best], value: values[best], iterations: maxIter, converged: false };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { allGreeks, blackScholes } from "./black-scholes";
+import { binomialTree } from "./binomial";
+import { finiteDifference } from "./pde";
+
+describe("finiteDifference", () => {
+  const inputs = { S: 100, K: 100, T: 1, r: 0.05, sigma: 0.2, q: 0.02 };
+
+  it("converges to Black-Scholes-Merton under every scheme", () => {
+    const closed = blackScholes(inputs);
+    for (const scheme of ["explicit", "implicit", "crank-nicolson"] as const) {
+      // The explicit scheme needs small time steps to stay stable
+      const timeSteps = scheme === "explicit" ? 2000 : 200;
+      for (const optionType of ["call", "put"] as const) {
+        const fd = finiteDifference(inputs, optionType, scheme, "european", 200, timeSteps);
+        const greeks = allGreeks(inputs, optionType);
+        const price = optionType === "call" ? closed.callPrice : closed.putPrice;
+        // Fully implicit is only first order in time
+        expect(Math.abs(fd.price - price)).toBeLessThan(scheme === "implicit" ? 1e-2 : 1e-3);
+        expect(fd.delta).toBeCloseTo(greeks.delta, 3);
+        expect(fd.gamma).toBeCloseTo(greeks.gamma, 4);
+        expect(fd.theta).toBeCloseTo(greeks.theta, 4);
+      }
+    }
+  });
+
+  it("flags explicit steps beyond the stability bound", () => {
+    expect(finiteDifference(inputs, "put", "explicit", "european", 200, 2000).stable).toBe(true);
+    expect(finiteDifference(inputs, "put", "explicit", "european", 200, 50).stable).toBe(false);
+  });
+
+  it("agrees with the binomial tree for American exercise", () => {
+    // Hull, Options, Futures and Other Derivatives, section 21.1: 4.284
+    const american = { S: 50, K: 50, T: 5 / 12, r: 0.1, sigma: 0.4 };
+    const fd = finiteDifference(american, "put", "crank-nicolson", "american", 400, 400);
+    expect(fd.price).toBeCloseTo(binomialTree(american, "put", "american", 2000).price, 2);
+    expect(fd.price).toBeCloseTo(4.284, 2);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { bachelier, black76 } from "./black-scholes";
+import { calibrateSABR, sabrLognormalVol, sabrNormalVol } from "./sabr";
+
+describe("SABR", () => {
+  const F = 0.03;
+  const T = 2;
+  const params = { alpha: 0.035, beta: 0.5, rho: -0.3, nu: 0.4 };
+
+  it("matches Hagan's at-the-money formula", () => {
+    // Hagan et al. (2002): the K = F limit of the lognormal expansion
+    const { alpha, beta, rho, nu } = params;
+    const fBeta = Math.pow(F, 1 - beta);
+    const atm =
+      (alpha / fBeta) *
+      (1 +
+        (((1 - beta) ** 2 * alpha ** 2) / (24 * fBeta ** 2) +
+          (rho * alpha * beta * nu) / (4 * fBeta) +
+          ((2 - 3 * rho ** 2) * nu ** 2) / 24) *
+          T);
+    expect(sabrLognormalVol(F, F, T, params)).toBeCloseTo(atm, 14);
+    // The z / x(z) expansion joins the general formula continuously
+    expect(sabrLognormalVol(F, F * (1 + 1e-9), T, params)).toBeCloseTo(atm, 8);
+  });
+
+  it("is flat at alpha for lognormal dynamics without vol of vol", () => {
+    const flat = { alpha: 0.2, beta: 1, rho: 0, nu: 0 };
+    for (const K of [0.01, 0.03, 0.09]) {
+      expect(sabrLognormalVol(F, K, T, flat)).toBeCloseTo(0.2, 14);
+    }
+  });
+
+  it("gives the same prices through its lognormal and normal expansions", () => {
+    for (const K of [0.015, 0.02, 0.03, 0.045, 0.06]) {
+      const lognormal = black76({ F, K, T, r: 0, sigma: sabrLognormalVol(F, K, T, params) });
+      const normal = bachelier({ F, K, T, r: 0, sigma: sabrNormalVol(F, K, T, params) });
+      // The two expansions agree to leading order, within a percent on this smile
+      expect(Math.abs(normal.callPrice / lognormal.callPrice - 1)).toBeLessThan(0.01);
+    }
+  });
+
+  it("recovers the parameters of a smile it generated", () => {
+    const points = [0.015, 0.02, 0.025, 0.03, 0.035, 0.04, 0.05, 0.06].map((strike) => ({
+      strike,
+      iv: sabrLognormalVol(F, strike, T, params),
+    }));
+    const fit = calibrateSABR(F, T, points, params.beta);
+    expect(fit.converged).toBe(true);
+    expect(fit.rmse).toBeLessThan(1e-8);
+    expect(fit.params.alpha).toBeCloseTo(params.alpha, 6);
+    expect(fit.params.rho).toBeCloseTo(params.rho, 4);
+    expect(fit.params.nu).toBeCloseTo(params.nu, 4);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * SABR Stochastic Volatility Model
+ *
+ * The forward and its volatility follow
+ *
+ *   dF     = alpha_t F^beta dW1
+ *   dalpha = nu alpha_t dW2,   dW1 dW2 = rho dt
+ *
+ * Hagan's asymptotic expansions turn the parameters directly into a
+ * lognormal (Black-76) or normal (Bachelier) implied vol per strike, which
+ * makes the model cheap enough to calibrate to a whole smile.
+ *
+ * Reference: Hagan, P., Kumar, D., Lesniewski, A. & Woodward, D. (2002).
+ * "Managing Smile Risk." Wilmott Magazine, September, 84-108.
+ */
+
+import { nelderMead } from "./optimize";
+
+export interface SABRParams {
+  alpha: number; // Initial volatility level
+  beta: number; // CEV exponent in [0, 1]
+  rho: number; // Forward/volatility correlation
+  nu: number; // Volatility of volatility
+}
+
+export interface SABRResidual {
+  strike: number;
+  market: number;
+  model: number;
+  residual: number; // model - market
+}
+
+export interface SABRCalibration {
+  params: SABRParams;
+  residuals: SABRResidual[];
+  rmse: number;
+  iterations: number;
+  converged: boolean;
+}
+
+/**
+ * z / x(z) with x(z) = ln[(sqrt(1 - 2 rho z + z^2) + z - rho) / (1 - rho)],
+ * expanded as 1 - rho z / 2 near z = 0.
+ */
+function zOverX(z: number, rho: number): number {
+  if (Math.abs(z) < 1e-7) return 1 - 0.5 * rho * z;
+  const x = Math.log((Math.sqrt(1 - 2 * rho * z + z * z) + z - rho) / (1 - rho));
+  return z / x;
+}
+
+/**
+ * Hagan's lognormal implied volatility:
+ *   sigma_B = alpha / {(FK)^{(1-beta)/2} [1 + (1-beta)^2/24 L^2 + (1-beta)^4/1920 L^4]}
+ *             * z / x(z)
+ *             * {1 + [(1-beta)^2/24 alpha^2/(FK)^{1-beta}
+ *                     + rho beta nu alpha / (4 (FK)^{(1-beta)/2})
+ *                     + (2 - 3 rho^2)/24 nu^2] T}
+ * with L = ln(F/K) and z = nu/alpha (FK)^{(1-beta)/2} L. Requires F, K > 0.
+ */
+export function sabrLognormalVol(F: number, K: number, T: number, params: SABRParams): number {
+  const { alpha, beta, rho, nu } = params;
+  if (F <= 0 || K <= 0 || alpha <= 0) return NaN;
+
+  const L = Math.log(F / K);
+  const omb = 1 - beta;
+  const fkBeta = Math.pow(F * K, omb / 2);
+  const z = (nu / alpha) * fkBeta * L;
+
+  const denominator =
+    fkBeta * (1 + ((omb * omb) / 24) * L * L + (Math.pow(omb, 4) / 1920) * Math.pow(L, 4));
+  const correction =
+    1 +
+    (((omb * omb) / 24) * (alpha * alpha) / (fkBeta * fkBeta) +
+      (rho * beta * nu * alpha) / (4 * fkBeta) +
+      ((2 - 3 * rho * rho) / 24) * nu * nu) *
+      T;
+
+  return (alpha / denominator) * zOverX(z, rho) * correction;
+}
+
+/**
+ * Hagan's normal implied volatility:
+ *   sigma_N = alpha (FK)^{beta/2} [1 + L^2/24 + L^4/1920]
+ *             / [1 + (1-beta)^2/24 L^2 + (1-beta)^4/1920 L^4]
+ *             * z / x(z)
+ *             * {1 + [-beta(2-beta)/24 alpha^2/(FK)^{1-beta}
+ *                     + rho beta nu alpha / (4 (FK)^{(1-beta)/2})
+ *                     + (2 - 3 rho^2)/24 nu^2] T}
+ * with the same L and z as the lognormal expansion.
+ */
+export function sabrNormalVol(F: number, K: number, T: number, params: SABRParams): number {
+  const { alpha, beta, rho, nu } = params;
+  if (F <= 0 || K <= 0 || alpha <= 0) return NaN;
+
+  const L = Math.log(F / K);
+  const L2 = L * L;
+  const L4 = L2 * L2;
+  const omb = 1 - beta;
+  const fkBeta = Math.pow(F * K, omb / 2);
+  const z = (nu / alpha) * fkBeta * L;
+
+  const ratio =
+    (1 + L2 / 24 + L4 / 1920) / (1 + ((omb * omb) / 24) * L2 + (Math.pow(omb, 4) / 1920) * L4);
+  const correction =
+    1 +
+    ((-beta * (2 - beta) * alpha * alpha) / (24 * fkBeta * fkBeta) +
+      (rho * beta * nu * alpha) / (4 * fkBeta) +
+      ((2 - 3 * rho * rho) / 24) * nu * nu) *
+      T;
+
+  return alpha * Math.pow(F * K, beta / 2) * ratio * zOverX(z, rho) * correction;
+}
+
+/**
+ * Calibrate alpha, rho and nu (beta fixed) to market lognormal vols by
+ * least squares on the vol residuals. The search runs in unconstrained
+ * coordinates alpha = e^a, rho = tanh(b), nu = e^c, starting from the
+ * at-the-money level alpha_0 = sigma_ATM F^{1-beta}.
+ *
+ * @param points - Strike / IV pairs, e.g. the output of `volatilitySmile`
+ */
+export function calibrateSABR(
+  F: number,
+  T: number,
+  points: { strike: number; iv: number }[],
+  beta: number,
+  maxIter: number = 2000
+): SABRCalibration {
+  const market = points.filter(({ strike, iv }) => strike > 0 && iv > 0 && Number.isFinite(iv));
+  if (market.length === 0) {
+    return {
+      params: { alpha: NaN, beta, rho: NaN, nu: NaN },
+      residuals: [],
+      rmse: NaN,
+      iterations: 0,
+      converged: false,
+    };
+  }
+
+  const toParams = ([a, b, c]: number[]): SABRParams => ({
+    alpha: Math.exp(a),
+    beta,
+    rho: Math.tanh(b),
+    nu: Math.exp(c),
+  });
+  const sumSquares = (x: number[]) => {
+    const params = toParams(x);
+    let sum = 0;
+    for (const { strike, iv } of market) {
+      const diff = sabrLognormalVol(F, strike, T, params) - iv;
+      sum += Number.isFinite(diff) ? diff * diff : 1e6;
+    }
+    return sum;
+  };
+
+  // At-the-money vol from the point nearest the forward
+  const atm = market.reduce((best, p) =>
+    Math.abs(p.strike - F) < Math.abs(best.strike - F) ? p : best
+  );
+  const x0 = [Math.log(atm.iv * Math.pow(F, 1 - beta)), 0, Math.log(0.5)];
+  const fit = nelderMead(sumSquares, x0, maxIter, 1e-10, 0.5);
+  const params = toParams(fit.x);
+
+  const residuals = market.map(({ strike, iv }) => {
+    const model = sabrLognormalVol(F, strike, T, params);
+    return { strike, market: iv, model, residual: model - iv };
+  });
+
+  return {
+    params,
+    residuals,
+    rmse: Math.sqrt(fit.value / market.length),
+    iterations: fit.iterations,
+    converged: fit.converged,
+  };
+}
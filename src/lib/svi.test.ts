@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { black76 } from "./black-scholes";
+import {
+  exportSVI,
+  fitSVI,
+  sviArbitrageFree,
+  sviButterfly,
+  sviImpliedVol,
+  sviTotalVariance,
+} from "./svi";
+
+describe("SVI", () => {
+  const F = 100;
+  const T = 0.5;
+  const params = { a: 0.02, b: 0.1, rho: -0.4, m: 0.05, sigma: 0.2 };
+
+  it("flags the butterfly arbitrage in Vogt's parameters", () => {
+    // Gatheral & Jacquier (2014), "Arbitrage-free SVI volatility surfaces":
+    // Axel Vogt's counterexample, where g(k) turns negative near k = 0.9
+    const vogt = { a: -0.041, b: 0.1331, rho: 0.306, m: 0.3586, sigma: 0.4153 };
+    expect(sviButterfly(0.88, vogt)).toBeLessThan(0);
+    expect(sviArbitrageFree(vogt)).toBe(false);
+    expect(sviArbitrageFree(params)).toBe(true);
+  });
+
+  it("reproduces the Breeden-Litzenberger density of its call prices", () => {
+    const call = (K: number) =>
+      black76({ F, K, T, r: 0, sigma: sviImpliedVol(K, F, T, params) }).callPrice;
+    const h = 0.01;
+    for (const K of [70, 90, 100, 115, 140]) {
+      // Density of k = ln(K/F) is K d2C/dK2 for undiscounted calls
+      const numeric = (K * (call(K + h) - 2 * call(K) + call(K - h))) / (h * h);
+      const k = Math.log(K / F);
+      const w = sviTotalVariance(k, params);
+      const d2 = -k / Math.sqrt(w) - Math.sqrt(w) / 2;
+      const analytic =
+        (sviButterfly(k, params) * Math.exp(-0.5 * d2 * d2)) / Math.sqrt(2 * Math.PI * w);
+      expect(numeric).toBeCloseTo(analytic, 5);
+    }
+  });
+
+  it("recovers the parameters of a smile it generated", () => {
+    const points = [60, 70, 80, 90, 100, 110, 120, 135, 150].map((strike) => ({
+      strike,
+      iv: sviImpliedVol(strike, F, T, params),
+    }));
+    const fit = fitSVI(points, F, T);
+    expect(fit.rmse).toBeLessThan(1e-8);
+    expect(fit.arbitrageFree).toBe(true);
+    for (const key of ["a", "b", "rho", "m", "sigma"] as const) {
+      expect(fit.params[key]).toBeCloseTo(params[key], 6);
+    }
+    expect(JSON.parse(exportSVI(fit))).toEqual({ model: "raw-svi", T, F, ...fit.params });
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Stochastic Volatility Inspired (SVI) Smile
+ *
+ * Gatheral's raw SVI parameterizes total implied variance w = sigma^2 T as a
+ * function of log-moneyness k = ln(K/F):
+ *
+ *   w(k) = a + b [rho (k - m) + sqrt((k - m)^2 + sigma^2)]
+ *
+ * Five numbers per expiry describe the whole smile, so fitted slices can be
+ * stored and interpolated. The fit penalizes butterfly arbitrage so the
+ * implied density stays non-negative.
+ *
+ * References:
+ *   Gatheral, J. (2004). "A Parsimonious Arbitrage-Free Implied Volatility
+ *   Parameterization." Global Derivatives & Risk Management, Madrid.
+ *   Gatheral, J. & Jacquier, A. (2014). "Arbitrage-Free SVI Volatility
+ *   Surfaces." Quantitative Finance, 14(1), 59-71.
+ */
+
+import { nelderMead } from "./optimize";
+
+export interface SVIParams {
+  a: number; // Vertical level of total variance
+  b: number; // Slope of the wings
+  rho: number; // Skew (rotation), |rho| < 1
+  m: number; // Horizontal shift
+  sigma: number; // At-the-money curvature, > 0
+}
+
+export interface SVIFit {
+  params: SVIParams;
+  T: number;
+  F: number;
+  rmse: number; // in implied vol
+  arbitrageFree: boolean;
+  iterations: number;
+}
+
+/** Total implied variance w(k) */
+export function sviTotalVariance(k: number, p: SVIParams): number {
+  const x = k - p.m;
+  return p.a + p.b * (p.rho * x + Math.sqrt(x * x + p.sigma * p.sigma));
+}
+
+/** Implied volatility at strike K: sqrt(w(ln(K/F)) / T) */
+export function sviImpliedVol(K: number, F: number, T: number, p: SVIParams): number {
+  const w = sviTotalVariance(Math.log(K / F), p);
+  return w > 0 ? Math.sqrt(w / T) : NaN;
+}
+
+/**
+ * Durrleman's butterfly condition g(k) >= 0, with w' and w'' analytic:
+ *   g(k) = (1 - k w' / (2w))^2 - (w'^2 / 4)(1/w + 1/4) + w'' / 2
+ * The risk-neutral density of k is g(k) / sqrt(2 pi w) * exp(-d2^2 / 2).
+ */
+export function sviButterfly(k: number, p: SVIParams): number {
+  const x = k - p.m;
+  const root = Math.sqrt(x * x + p.sigma * p.sigma);
+  const w = sviTotalVariance(k, p);
+  const w1 = p.b * (p.rho + x / root);
+  const w2 = (p.b * p.sigma * p.sigma) / (root * root * root);
+  const term = 1 - (k * w1) / (2 * w);
+  return term * term - ((w1 * w1) / 4) * (1 / w + 0.25) + w2 / 2;
+}
+
+// Log-moneyness grid on which the no-arbitrage conditions are enforced
+const ARBITRAGE_GRID = Array.from({ length: 81 }, (_, i) => -2 + i * 0.05);
+
+/**
+ * Static-arbitrage checks of a single slice: non-negative variance,
+ * Lee's wing bound b (1 + |rho|) <= 2 and g(k) >= 0 on a k grid.
+ */
+export function sviArbitrageFree(p: SVIParams): boolean {
+  if (p.b < 0 || Math.abs(p.rho) >= 1 || p.sigma <= 0) return false;
+  if (p.a + p.b * p.sigma * Math.sqrt(1 - p.rho * p.rho) < -1e-10) return false;
+  if (p.b * (1 + Math.abs(p.rho)) > 2) return false;
+  return ARBITRAGE_GRID.every((k) => sviButterfly(k, p) >= -1e-10);
+}
+
+/**
+ * Given m and sigma, raw SVI is linear in (a, b rho, b):
+ *   w = a + (b rho) x + b sqrt(x^2 + sigma^2),   x = k - m
+ * so the best (a, b, rho) follow from a 3x3 least-squares solve. This is
+ * the inner step of the quasi-explicit calibration.
+ */
+function sviLinearFit(
+  market: { k: number; w: number }[],
+  m: number,
+  sigma: number
+): SVIParams {
+  // Normal equations A^T A beta = A^T w for columns [1, x, y]
+  const ata = [
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+  ];
+  const atw = [0, 0, 0];
+  for (const { k, w } of market) {
+    const x = k - m;
+    const row = [1, x, Math.sqrt(x * x + sigma * sigma)];
+    for (let i = 0; i < 3; i++) {
+      atw[i] += row[i] * w;
+      for (let j = 0; j < 3; j++) ata[i][j] += row[i] * row[j];
+    }
+  }
+
+  // Cramer's rule on the symmetric 3x3 system
+  const det = (M: number[][]) =>
+    M[0][0] * (M[1][1] * M[2][2] - M[1][2] * M[2][1]) -
+    M[0][1] * (M[1][0] * M[2][2] - M[1][2] * M[2][0]) +
+    M[0][2] * (M[1][0] * M[2][1] - M[1][1] * M[2][0]);
+  const d = det(ata);
+  const solve = (col: number) =>
+    det(ata.map((row, i) => row.map((v, j) => (j === col ? atw[i] : v)))) / d;
+  const [a, c, slope] = [solve(0), solve(1), solve(2)];
+
+  const bFit = Math.max(slope, 1e-8);
+  return { a, b: bFit, rho: Math.max(-0.999, Math.min(0.999, c / bFit)), m, sigma };
+}
+
+// Penalized no-arbitrage margin on g(k): keeps the fitted density strictly positive
+const BUTTERFLY_MARGIN = 1e-6;
+
+// Search box for the shift and curvature parameters
+const M_MAX = 1;
+const SIGMA_MIN = 1e-3;
+const SIGMA_MAX = 2;
+
+/**
+ * Least-squares fit of raw SVI to total variance w_i = iv_i^2 T.
+ *
+ * A quasi-explicit pass (Nelder-Mead over m and sigma with the linear
+ * solve inside) supplies the starting point. The full fit then maps the
+ * parameters to unconstrained coordinates (b = e^x, rho = tanh(x), m and sigma
+ * through logistic maps onto a box) and adds penalties for negative
+ * minimum variance, Lee's wing bound and g(k) below a small positive margin
+ * on a grid, so the optimum is free of butterfly arbitrage.
+ *
+ * @param points - Strike / IV pairs, e.g. the output of `volatilitySmile`
+ */
+export function fitSVI(
+  points: { strike: number; iv: number }[],
+  F: number,
+  T: number,
+  maxIter: number = 2000
+): SVIFit {
+  const market = points
+    .filter(({ strike, iv }) => strike > 0 && iv > 0 && Number.isFinite(iv))
+    .map(({ strike, iv }) => ({ k: Math.log(strike / F), w: iv * iv * T }));
+
+  if (market.length < 5 || T <= 0) {
+    return {
+      params: { a: NaN, b: NaN, rho: NaN, m: NaN, sigma: NaN },
+      T,
+      F,
+      rmse: NaN,
+      arbitrageFree: false,
+      iterations: 0,
+    };
+  }
+
+  const scale = market.reduce((sum, p) => sum + p.w, 0) / market.length;
+  const residuals = (p: SVIParams) => {
+    let sum = 0;
+    for (const { k, w } of market) {
+      const diff = (sviTotalVariance(k, p) - w) / scale;
+      sum += diff * diff;
+    }
+    return sum;
+  };
+
+  // m and sigma stay in a box, (-M_MAX, M_MAX) and (SIGMA_MIN, SIGMA_MAX),
+  // so degenerate near-linear smiles cannot send them to infinity
+  const toM = (x: number) => M_MAX * Math.tanh(x);
+  const fromM = (m: number) => Math.atanh(m / M_MAX);
+  const toSigma = (x: number) => SIGMA_MIN + (SIGMA_MAX - SIGMA_MIN) / (1 + Math.exp(-x));
+  const fromSigma = (s: number) => -Math.log((SIGMA_MAX - SIGMA_MIN) / (s - SIGMA_MIN) - 1);
+
+  // Quasi-explicit start over (m, sigma)
+  const start = nelderMead(
+    ([xm, xs]) => residuals(sviLinearFit(market, toM(xm), toSigma(xs))),
+    [0, fromSigma(0.1)],
+    maxIter,
+    1e-12,
+    0.5
+  );
+  const initial = sviLinearFit(market, toM(start.x[0]), toSigma(start.x[1]));
+
+  const toParams = ([a, b, rho, m, sigma]: number[]): SVIParams => ({
+    a,
+    b: Math.exp(b),
+    rho: Math.tanh(rho),
+    m: toM(m),
+    sigma: toSigma(sigma),
+  });
+  const objective = (x: number[]) => {
+    const p = toParams(x);
+    let penalty = 0;
+    const minVariance = p.a + p.b * p.sigma * Math.sqrt(1 - p.rho * p.rho);
+    if (minVariance < 0) penalty -= minVariance / scale;
+    const wing = p.b * (1 + Math.abs(p.rho)) - 2;
+    if (wing > 0) penalty += wing;
+    for (const k of ARBITRAGE_GRID) {
+      const g = sviButterfly(k, p);
+      if (!(g >= BUTTERFLY_MARGIN)) penalty += Number.isFinite(g) ? BUTTERFLY_MARGIN - g : 1;
+    }
+    return residuals(p) + 1e3 * penalty;
+  };
+
+  const fit = nelderMead(
+    objective,
+    [
+      initial.a,
+      Math.log(initial.b),
+      Math.atanh(initial.rho),
+      fromM(initial.m),
+      fromSigma(initial.sigma),
+    ],
+    maxIter,
+    1e-14,
+    0.1
+  );
+  const params = toParams(fit.x);
+
+  let sqErr = 0;
+  for (const { k, w } of market) {
+    const diff = Math.sqrt(Math.max(sviTotalVariance(k, params), 0) / T) - Math.sqrt(w / T);
+    sqErr += diff * diff;
+  }
+
+  return {
+    params,
+    T,
+    F,
+    rmse: Math.sqrt(sqErr / market.length),
+    arbitrageFree: sviArbitrageFree(params),
+    iterations: start.iterations + fit.iterations,
+  };
+}
+
+/**
+ * Serializes a fitted slice for storage, with the expiry and forward it
+ * was fitted against.
+ */
+export function exportSVI(fit: SVIFit): string {
+  const { params, T, F } = fit;
+  return JSON.stringify({ model: "raw-svi", T, F, ...params }, null, 2);
+}
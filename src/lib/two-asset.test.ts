@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { kirkSpread, margrabe, twoAssetGreeks, twoAssetMonteCarlo } from "./two-asset";
+
+describe("two-asset options", () => {
+  const inputs = {
+    S1: 110,
+    S2: 100,
+    K: 5,
+    T: 1,
+    r: 0.04,
+    sigma1: 0.3,
+    sigma2: 0.25,
+    rho: 0.6,
+    q1: 0.02,
+    q2: 0.01,
+  };
+
+  it("match Haug's Kirk spread reference price", () => {
+    // Haug, The Complete Guide to Option Pricing Formulas, Kirk's
+    // approximation: futures spread F1 = 28, F2 = 20, K = 7, call 2.1670
+    const futures = { S1: 28, S2: 20, K: 7, T: 0.25, r: 0.05, sigma1: 0.29, sigma2: 0.36 };
+    expect(kirkSpread({ ...futures, rho: 0.42, q1: 0.05, q2: 0.05 }, "call")).toBeCloseTo(
+      2.167,
+      4
+    );
+  });
+
+  it("reduce Kirk to Margrabe at a zero strike", () => {
+    const exchange = { ...inputs, K: 0 };
+    for (const optionType of ["call", "put"] as const) {
+      expect(kirkSpread(exchange, optionType)).toBeCloseTo(margrabe(exchange, optionType), 10);
+    }
+  });
+
+  it("satisfy put-call parity on the spread", () => {
+    const { S1, S2, K, T, r, q1, q2 } = inputs;
+    const forwardSpread = S1 * Math.exp((r - q1) * T) - S2 * Math.exp((r - q2) * T) - K;
+    const parity = kirkSpread(inputs, "call") - kirkSpread(inputs, "put");
+    expect(parity).toBeCloseTo(Math.exp(-r * T) * forwardSpread, 10);
+  });
+
+  it("agree with correlated Monte Carlo", () => {
+    const exchange = { ...inputs, K: 0 };
+    for (const optionType of ["call", "put"] as const) {
+      const plain = twoAssetMonteCarlo(exchange, optionType, {
+        paths: 40000,
+        controlVariate: false,
+      });
+      const closed = margrabe(exchange, optionType);
+      expect(Math.abs(plain.price - closed)).toBeLessThan(4 * plain.stdError);
+
+      // Kirk is an approximation for K != 0; the controlled run resolves its error
+      const mc = twoAssetMonteCarlo(inputs, optionType, { paths: 40000 });
+      expect(mc.stdError).toBeLessThan(plain.stdError / 5);
+      expect(Math.abs(kirkSpread(inputs, optionType) - mc.price)).toBeLessThan(0.02);
+    }
+  });
+
+  it("give exchange-option deltas that satisfy Euler's theorem", () => {
+    // Margrabe is homogeneous of degree one in (S1, S2)
+    const exchange = { ...inputs, K: 0 };
+    const { delta1, delta2 } = twoAssetGreeks(exchange, "call", margrabe);
+    expect(exchange.S1 * delta1 + exchange.S2 * delta2).toBeCloseTo(
+      margrabe(exchange, "call"),
+      3
+    );
+  });
+});